@@ -0,0 +1,87 @@
+// Local Server-Sent Events feed for trying live credit updates.
+//
+//   npm run events                # http://localhost:8787/events, an update every 5s
+//   PORT=9000 INTERVAL=2000 npm run events
+//
+// Then open the dashboard with ?live=http://localhost:8787/events
+// Every tick sends either a status change for a sample credit or a new credit.
+
+import { createServer } from 'node:http';
+import { readFile } from 'node:fs/promises';
+
+const PORT = Number(process.env.PORT ?? 8787);
+const INTERVAL = Number(process.env.INTERVAL ?? 5000);
+
+const sampleUrl = new URL('../src/assets/sample.json', import.meta.url);
+const credits = JSON.parse(await readFile(sampleUrl, 'utf8'));
+const clients = new Set();
+let nextSerial = 1;
+
+function randomItem(items) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+function nextEvent() {
+  if (Math.random() < 0.6) {
+    const credit = randomItem(credits);
+    credit.status = credit.status === 'Active' ? 'Retired' : 'Active';
+    return { type: 'status', unic_id: credit.unic_id, status: credit.status };
+  }
+
+  const vintage = 2018 + Math.floor(Math.random() * 7);
+  const serial = (nextSerial++).toString(16).toUpperCase().padStart(8, '0');
+  const credit = {
+    unic_id: `UNIC-VCS-IND-${vintage}-${serial}`,
+    project_name: `Live Feed Project ${serial}`,
+    vintage,
+    status: 'Active',
+  };
+  credits.push(credit);
+  return { type: 'upsert', credits: [credit] };
+}
+
+const server = createServer((request, response) => {
+  const { pathname } = new URL(request.url ?? '/', `http://${request.headers.host}`);
+
+  if (pathname !== '/events') {
+    response.writeHead(404, { 'Access-Control-Allow-Origin': '*' });
+    response.end('Not found');
+    return;
+  }
+
+  response.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  response.write('retry: 3000\n\n');
+  clients.add(response);
+  console.log(`Client connected (${clients.size} total)`);
+
+  request.on('close', () => {
+    clients.delete(response);
+    console.log(`Client disconnected (${clients.size} total)`);
+  });
+});
+
+const timer = setInterval(() => {
+  if (clients.size === 0) return;
+  const event = nextEvent();
+  const message = `data: ${JSON.stringify(event)}\n\n`;
+  clients.forEach(client => client.write(message));
+  console.log('Sent', event.type, event.type === 'status' ? `${event.unic_id} → ${event.status}` : event.credits[0].unic_id);
+}, INTERVAL);
+
+server.listen(PORT, () => {
+  console.log(`Credit event server on http://localhost:${PORT}/events, sending every ${INTERVAL}ms`);
+});
+
+function shutdown() {
+  clearInterval(timer);
+  clients.forEach(client => client.end());
+  server.close(() => process.exit(0));
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -1,7 +1,22 @@
 
 import { useState, useMemo, useCallback, useEffect } from "react";
 import type { Credit } from "./lib/types";
-import { useCredits, useSearch } from "./hooks";
+import type { UrlViewState, ViewMode } from "./lib/url-state";
+import { getDefaultView, isSameView } from "./lib/saved-views";
+import type { SavedView } from "./lib/saved-views";
+import {
+  useCredits,
+  useSearch,
+  useRemoteSearch,
+  useChangeHighlights,
+  useUrlViewState,
+  useSavedViews,
+  useCreditSelection,
+  getInitialViewState,
+} from "./hooks";
+import { summarizeChanges } from "./lib/change-detection";
+import { getRemoteQueryConfig } from "./lib/remote-query";
+import { getLiveUpdatesConfig } from "./lib/live-updates";
 import { NetworkMonitor } from "./lib/error-handling";
 import { columns } from "./components/data-table/columns";
 import { DataTable } from "./components/data-table/data-table";
@@ -12,35 +27,109 @@ import { Button } from "./components/ui/button";
 import { CreditGrid } from "./components/credit-grid";
 import { VirtualCreditGrid } from "./components/virtual-credit-grid";
 import { CertificateDialog } from "./components/certificate/certificate-dialog";
+import { FileImportDialog } from "./components/import/file-import-dialog";
+import { DataSourcesDialog } from "./components/import/data-sources-dialog";
 import { SearchFilters } from "./components/search/search-filters";
+import { SortControl } from "./components/search/sort-control";
+import { BulkActionBar } from "./components/bulk-action-bar";
 import { PerformanceMonitor } from "./components/performance-monitor";
 import { 
   DashboardLayout, 
   DashboardSection, 
-  DashboardHeader 
+  DashboardHeader,
+  ValidationWarningBanner,
+  SourceErrorBanner,
+  DataQualityPanel,
+  ChangesPanel,
+  SavedViewsNav
 } from "./components/dashboard";
 import { EnhancedErrorBoundary, GlobalErrorHandler } from "./components/error/global-error-handler";
 import { DashboardLoading } from "./components/dashboard/loading-states";
 import { ThemeProvider } from "./components/theme/theme-provider";
-import { Activity, Loader2 } from "lucide-react";
+import { Activity, Database, FileUp, Link2, ListChecks, Loader2 } from "lucide-react";
 import { cn } from "./lib/utils";
+import { DEFAULT_TABLE_LAYOUT, loadTableLayout } from "./lib/table-layout";
+import { loadColumnAliases, storeColumnAliases } from "./lib/credit-import";
+import type { ColumnAliases } from "./lib/credit-import";
+import { toast } from "sonner";
 
 // Import accessibility checker for development
 import "./lib/accessibility-checker";
 
+const getCreditId = (credit: Credit) => credit.unic_id;
+
 function App() {
-  const { credits, stats, loading, error, refetch, retryCount } = useCredits();
+  // Remote query mode streams pages from a registry instead of loading every credit
+  const [remoteQuery] = useState(getRemoteQueryConfig);
+  const [liveUpdates] = useState(getLiveUpdatesConfig);
+  // Search, sort, view mode and page open as the URL describes them, or as the default saved view
+  const [defaultView] = useState(getDefaultView);
+  const [initialView] = useState(() => getInitialViewState(defaultView));
+  const [columnAliases, setColumnAliases] = useState(loadColumnAliases);
+  const creditData = useCredits({
+    columnAliases,
+    enabled: !remoteQuery,
+    pollInterval: liveUpdates.pollInterval,
+    liveUrl: liveUpdates.liveUrl,
+  });
+  const localSearch = useSearch(creditData.searchIndex, initialView.search);
+  const remoteSearch = useRemoteSearch(remoteQuery, initialView.search);
+  const {
+    retryCount,
+    importCredits,
+    duplicateGroups,
+    duplicatePolicy,
+    setDuplicatePolicy,
+    lastUpdated,
+    isStale,
+    refreshError,
+    changes,
+    dismissChanges,
+    liveStatus,
+  } = creditData;
+  const highlightedIds = useChangeHighlights(changes);
+  const stats = remoteQuery ? remoteSearch.stats : creditData.stats;
+  const loading = remoteQuery ? false : creditData.loading;
+  const error = remoteQuery ? remoteSearch.remote.error : creditData.error;
+  const rejectedRows = remoteQuery ? remoteSearch.rejectedRows : creditData.rejectedRows;
+  const refetch = remoteQuery ? remoteSearch.remote.retry : creditData.refetch;
   const { 
     searchState, 
     filteredResults, 
+    facets,
+    isPending,
     setQuery, 
     setStatusFilter, 
     setVintageFilter, 
-    clearFilters 
-  } = useSearch(credits);
+    setVintageRange,
+    setSourceFilter,
+    setSort,
+    clearFilters,
+    setSearchState
+  } = remoteQuery ? remoteSearch : localSearch;
+  // Bulk selection over the filtered results; cards select on click only in selection mode
+  const selection = useCreditSelection(filteredResults.credits);
+  const { toggleCredit, selectAll, clearSelection } = selection;
+  const [isSelecting, setIsSelecting] = useState(false);
   const [selectedCredit, setSelectedCredit] = useState<Credit | null>(null);
   const [certificateCredit, setCertificateCredit] = useState<Credit | null>(null);
-  const [viewMode, setViewMode] = useState<'table' | 'cards'>('cards');
+  const [viewMode, setViewMode] = useState<ViewMode>(initialView.viewMode);
+  // Only remote results are paged; loaded portfolios scroll, so a page in the URL is ignored
+  const [page, setPage] = useState(remoteQuery ? initialView.page : 1);
+  // A default view's columns win over the layout the table was last left in
+  const [columnVisibility, setColumnVisibility] = useState<Record<string, boolean>>(
+    () => ({ ...loadTableLayout().visibility, ...defaultView?.columns })
+  );
+  const savedViews = useSavedViews();
+  // Search the current page belongs to; a new search starts again from the first page
+  const searchKey = JSON.stringify(searchState);
+  const [pageSearchKey, setPageSearchKey] = useState(searchKey);
+  if (pageSearchKey !== searchKey) {
+    setPageSearchKey(searchKey);
+    setPage(1);
+  }
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isSourcesOpen, setIsSourcesOpen] = useState(false);
   const [isOnline, setIsOnline] = useState(true);
 
   // Initialize network monitoring
@@ -64,6 +153,13 @@ function App() {
     };
   }, [refetch]);
 
+  // Summarise what a reload changed
+  useEffect(() => {
+    if (changes) {
+      toast.info('Portfolio updated', { description: summarizeChanges(changes) });
+    }
+  }, [changes]);
+
   // Memoized handlers to prevent unnecessary re-renders
   const handleViewDetails = useCallback((credit: Credit) => {
     setSelectedCredit(credit);
@@ -81,14 +177,112 @@ function App() {
     setCertificateCredit(null);
   }, []);
 
-  const handleViewModeChange = useCallback((mode: 'table' | 'cards') => {
+  const handleOpenImport = useCallback(() => {
+    setIsImportOpen(true);
+  }, []);
+
+  const handleCloseImport = useCallback(() => {
+    setIsImportOpen(false);
+  }, []);
+
+  const handleColumnAliasesChange = useCallback((aliases: ColumnAliases) => {
+    storeColumnAliases(aliases);
+    setColumnAliases(aliases);
+  }, []);
+
+  const handleOpenSources = useCallback(() => {
+    setIsSourcesOpen(true);
+  }, []);
+
+  const handleCloseSources = useCallback(() => {
+    setIsSourcesOpen(false);
+  }, []);
+
+  const handleViewModeChange = useCallback((mode: ViewMode) => {
     setViewMode(mode);
+    setPage(1);
+  }, []);
+
+  // Back and forward bring back the view stored in that history entry, page included
+  const handleRestoreView = useCallback((view: UrlViewState) => {
+    setSearchState(view.search);
+    setPageSearchKey(JSON.stringify(view.search));
+    setViewMode(view.viewMode);
+    setPage(remoteQuery ? view.page : 1);
+  }, [setSearchState, remoteQuery]);
+
+  useUrlViewState({ search: searchState, viewMode, page }, handleRestoreView);
+
+  const activeViewId = useMemo(
+    () => savedViews.views.find(view => isSameView(view, searchState, viewMode))?.id ?? null,
+    [savedViews.views, searchState, viewMode]
+  );
+
+  const { saveView, updateView } = savedViews;
+
+  const handleApplyView = useCallback((view: SavedView) => {
+    setSearchState(view.search);
+    setViewMode(view.viewMode);
+    setColumnVisibility({ ...DEFAULT_TABLE_LAYOUT.visibility, ...view.columns });
+    setPage(1);
+  }, [setSearchState]);
+
+  const handleSaveView = useCallback((name: string) => {
+    const view = saveView(name, { search: searchState, viewMode, columns: columnVisibility });
+    toast.success(`Saved view "${view.name}"`);
+  }, [saveView, searchState, viewMode, columnVisibility]);
+
+  const handleUpdateView = useCallback((view: SavedView) => {
+    updateView(view.id, { search: searchState, viewMode, columns: columnVisibility });
+    toast.success(`Updated view "${view.name}"`);
+  }, [updateView, searchState, viewMode, columnVisibility]);
+
+  const renderSavedViews = useCallback((collapsed: boolean) => (
+    <SavedViewsNav
+      views={savedViews.views}
+      defaultViewId={savedViews.defaultViewId}
+      activeViewId={activeViewId}
+      collapsed={collapsed}
+      onApply={handleApplyView}
+      onSave={handleSaveView}
+      onUpdate={handleUpdateView}
+      onRename={savedViews.renameView}
+      onDelete={savedViews.deleteView}
+      onRestore={savedViews.restoreView}
+      onSetDefault={savedViews.setDefaultView}
+      onImport={savedViews.importViews}
+    />
+  ), [savedViews, activeViewId, handleApplyView, handleSaveView, handleUpdateView]);
+
+  const handleCopyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied', { description: 'It opens the dashboard with this search, sort and view.' });
+    } catch {
+      toast.error('Could not copy the link', { description: 'Copy it from the address bar instead.' });
+    }
   }, []);
 
-  // Determine if virtual scrolling should be used for large datasets
-  const shouldUseVirtualScrolling = useMemo(() => {
-    return filteredResults.credits.length > 100;
-  }, [filteredResults.credits.length]);
+  // Clicking a table header sorts by it; shift-click adds it as a further key
+  const tableColumns = useMemo(
+    () => columns(handleViewDetails, searchState.query, facets, {
+      onToggle: toggleCredit,
+      onToggleAll: (select) => select ? selectAll() : clearSelection(),
+    }),
+    [handleViewDetails, searchState.query, facets, toggleCredit, selectAll, clearSelection]
+  );
+
+  // Loaded portfolios scroll through one windowed grid whatever their size, so its
+  // scroll position survives filter changes; remote results stay in the paginated grid
+  const shouldUseVirtualScrolling = !remoteQuery;
+
+  const remoteViewProps = remoteQuery
+    ? {
+        totalCount: filteredResults.filteredCount,
+        onRequestItems: remoteSearch.remote.requestItems,
+        isFetching: remoteSearch.remote.isFetching,
+      }
+    : { isFetching: isPending };  // Shows loading rather than an empty state while the first results arrive
 
   if (error) {
     return (
@@ -162,10 +356,36 @@ function App() {
             <a href="#search-section" className="underline">Skip to search</a>
           </div>
           
-          <DashboardLayout>
+          <DashboardLayout renderSidebar={renderSavedViews}>
             {/* Dashboard Header Section */}
             <DashboardSection>
-              <DashboardHeader stats={stats} loading={loading} />
+              <DashboardHeader
+                stats={stats}
+                loading={loading}
+                lastUpdated={remoteQuery ? null : lastUpdated}
+                isStale={isStale}
+                refreshError={refreshError}
+                showMetrics={!remoteQuery || remoteSearch.hasPortfolioStats}
+                liveStatus={liveStatus}
+                pollInterval={remoteQuery ? 0 : liveUpdates.pollInterval}
+              />
+              {!loading && !remoteQuery && (
+                <SourceErrorBanner key={lastUpdated} failedSources={creditData.failedSources} onRetry={refetch} />
+              )}
+              {!loading && (
+                <ValidationWarningBanner key={rejectedRows.length} rejectedRows={rejectedRows} />
+              )}
+              {!loading && (
+                <DataQualityPanel
+                  duplicateGroups={duplicateGroups}
+                  duplicatePolicy={duplicatePolicy}
+                  onPolicyChange={setDuplicatePolicy}
+                  invalidUnicIds={stats.invalidUnicIds}
+                />
+              )}
+              {!loading && (
+                <ChangesPanel changes={changes} onDismiss={dismissChanges} />
+              )}
             </DashboardSection>
 
             {/* View Mode Controls */}
@@ -181,6 +401,50 @@ function App() {
                 </div>
                 
                 <div className="flex gap-2 animate-fade-in" role="group" aria-label="View mode selection">
+                  {!remoteQuery && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={handleOpenImport}
+                      className={cn(
+                        "h-9 px-4 text-sm font-medium",
+                        "focus-ring-enhanced transition-smooth hover:shadow-md",
+                        "touch-manipulation active:scale-95"
+                      )}
+                      aria-label="Import credits from a local file"
+                    >
+                      <FileUp className="h-4 w-4" aria-hidden="true" />
+                      Import
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleOpenSources}
+                    className={cn(
+                      "h-9 px-4 text-sm font-medium",
+                      "focus-ring-enhanced transition-smooth hover:shadow-md",
+                      "touch-manipulation active:scale-95"
+                    )}
+                    aria-label="Manage data sources"
+                  >
+                    <Database className="h-4 w-4" aria-hidden="true" />
+                    Sources
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={handleCopyLink}
+                    className={cn(
+                      "h-9 px-4 text-sm font-medium",
+                      "focus-ring-enhanced transition-smooth hover:shadow-md",
+                      "touch-manipulation active:scale-95"
+                    )}
+                    aria-label="Copy link to this view"
+                  >
+                    <Link2 className="h-4 w-4" aria-hidden="true" />
+                    Copy Link
+                  </Button>
                   <Button
                     variant={viewMode === 'cards' ? 'default' : 'outline'}
                     size="sm"
@@ -221,8 +485,15 @@ function App() {
                   onSearch={setQuery}
                   onFilterStatus={setStatusFilter}
                   onFilterVintage={setVintageFilter}
+                  onFilterVintageRange={setVintageRange}
+                  onFilterSource={setSourceFilter}
                   onClearFilters={clearFilters}
                   availableVintages={stats.availableVintages}
+                  availableSources={stats.sourceCounts}
+                  availableRegistries={stats.availableRegistries}
+                  availableCountries={stats.availableCountries}
+                  facets={facets}
+                  isSearching={isPending}
                   resultCount={filteredResults.filteredCount}
                   totalCount={filteredResults.totalCount}
                 />
@@ -231,6 +502,22 @@ function App() {
 
             {/* Main Content */}
             <DashboardSection>
+              {!loading && viewMode === 'cards' && filteredResults.filteredCount > 0 && (
+                <div className="flex justify-end gap-2 -mb-2">
+                  <Button
+                    variant={isSelecting ? 'default' : 'outline'}
+                    size="sm"
+                    onClick={() => setIsSelecting(selecting => !selecting)}
+                    className="h-9 px-3 text-sm font-medium gap-2 focus-ring-enhanced transition-smooth"
+                    aria-pressed={isSelecting}
+                    title="Click cards to select them; shift-click selects a range"
+                  >
+                    <ListChecks className="h-4 w-4" aria-hidden="true" />
+                    Select
+                  </Button>
+                  <SortControl value={searchState.sort} onChange={setSort} />
+                </div>
+              )}
               {loading ? (
                 <DashboardLoading />
               ) : viewMode === 'cards' ? (
@@ -242,8 +529,10 @@ function App() {
                     hasActiveFilters={filteredResults.hasActiveFilters}
                     onClearFilters={clearFilters}
                     searchQuery={searchState.query}
-                    enableVirtualScrolling={true}
-                    virtualScrollThreshold={100}
+                    highlightedIds={highlightedIds}
+                    selectable={isSelecting}
+                    isSelected={selection.isSelected}
+                    onToggleSelect={toggleCredit}
                   />
                 ) : (
                   <CreditGrid
@@ -253,14 +542,38 @@ function App() {
                     hasActiveFilters={filteredResults.hasActiveFilters}
                     onClearFilters={clearFilters}
                     searchQuery={searchState.query}
+                    highlightedIds={highlightedIds}
+                    selectable={isSelecting}
+                    isSelected={selection.isSelected}
+                    onToggleSelect={toggleCredit}
+                    page={page}
+                    onPageChange={setPage}
+                    {...remoteViewProps}
                   />
                 )
               ) : (
                 <DataTable 
-                  columns={columns(handleViewDetails)} 
+                  columns={tableColumns} 
                   data={filteredResults.credits}
-                  allData={credits}
-                  stats={stats}
+                  searchState={searchState}
+                  onSearchStateChange={setSearchState}
+                  hasActiveFilters={filteredResults.hasActiveFilters}
+                  onClearFilters={clearFilters}
+                  highlightedIds={highlightedIds}
+                  columnVisibility={columnVisibility}
+                  onColumnVisibilityChange={setColumnVisibility}
+                  rowSelection={selection.rowSelection}
+                  getRowId={getCreditId}
+                  {...remoteViewProps}
+                />
+              )}
+              {!loading && (selection.selectedCount > 0 || (viewMode === 'cards' && isSelecting)) && (
+                <BulkActionBar
+                  selectedCredits={selection.selectedCredits}
+                  filteredCount={filteredResults.credits.length}
+                  isAllSelected={selection.isAllSelected}
+                  onSelectAll={selectAll}
+                  onClearSelection={clearSelection}
                 />
               )}
             </DashboardSection>
@@ -278,6 +591,20 @@ function App() {
             onClose={handleCloseCertificate}
           />
           
+          <FileImportDialog
+            isOpen={isImportOpen}
+            onClose={handleCloseImport}
+            onImport={importCredits}
+            columnAliases={columnAliases}
+            onColumnAliasesChange={handleColumnAliasesChange}
+          />
+
+          <DataSourcesDialog
+            isOpen={isSourcesOpen}
+            onClose={handleCloseSources}
+            onSave={refetch}
+          />
+          
           <Toaster />
           
 
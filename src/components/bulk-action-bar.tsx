@@ -0,0 +1,141 @@
+import React, { useState } from "react";
+import { Copy, Download, FileArchive, Loader2, X } from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { downloadCertificatesAsZip, MAX_ZIP_CERTIFICATES } from "@/components/certificate/download-certificate";
+import { exportCredits } from "@/lib/credit-export";
+import type { ExportFormat } from "@/lib/credit-export";
+import type { Credit } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface BulkActionBarProps {
+  selectedCredits: Credit[];
+  filteredCount: number;        // Credits select-all would add
+  isAllSelected: boolean;
+  onSelectAll: () => void;
+  onClearSelection: () => void;
+  className?: string;
+}
+
+const EXPORT_LABELS: Record<ExportFormat, string> = { csv: 'CSV', json: 'JSON' };
+
+/**
+ * Actions on the selected credits: export, certificates as a ZIP and copying their IDs
+ * Floats at the bottom of the results while credits are selected
+ */
+const BulkActionBar = React.memo<BulkActionBarProps>(({
+  selectedCredits,
+  filteredCount,
+  isAllSelected,
+  onSelectAll,
+  onClearSelection,
+  className
+}) => {
+  const [isZipping, setIsZipping] = useState(false);
+  const count = selectedCredits.length;
+  const noun = count === 1 ? 'credit' : 'credits';
+
+  const handleExport = (format: ExportFormat) => {
+    exportCredits(selectedCredits, format);
+    toast.success(`Exported ${count.toLocaleString()} ${noun}`, { description: `Saved as ${EXPORT_LABELS[format]}.` });
+  };
+
+  const handleCertificates = async () => {
+    setIsZipping(true);
+    try {
+      await downloadCertificatesAsZip(selectedCredits);
+      toast.success(`Downloaded ${count.toLocaleString()} ${count === 1 ? 'certificate' : 'certificates'}`);
+    } catch (error) {
+      toast.error('Could not create the certificates', {
+        description: error instanceof Error ? error.message : 'Try again with fewer credits.',
+      });
+    } finally {
+      setIsZipping(false);
+    }
+  };
+
+  const handleCopyIds = async () => {
+    try {
+      await navigator.clipboard.writeText(selectedCredits.map(credit => credit.unic_id).join('\n'));
+      toast.success(`Copied ${count.toLocaleString()} UNIC ${count === 1 ? 'ID' : 'IDs'}`);
+    } catch {
+      toast.error('Could not copy the IDs', { description: 'Export the selection instead.' });
+    }
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Actions for selected credits"
+      className={cn(
+        "sticky bottom-4 z-30 mx-auto flex w-fit max-w-full flex-wrap items-center gap-2",
+        "rounded-lg border bg-background/95 p-2 shadow-lg backdrop-blur animate-slide-up",
+        className
+      )}
+    >
+      <span className="px-2 text-sm font-medium tabular-nums" aria-live="polite" aria-atomic="true">
+        {count.toLocaleString()} selected
+      </span>
+      {!isAllSelected && filteredCount > 0 && (
+        <Button variant="ghost" size="sm" className="h-9" onClick={onSelectAll}>
+          Select all {filteredCount.toLocaleString()}
+        </Button>
+      )}
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="h-9 gap-2" disabled={count === 0}>
+            <Download className="h-4 w-4" aria-hidden="true" />
+            Export
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="center">
+          <DropdownMenuLabel>Export selected {noun}</DropdownMenuLabel>
+          {(Object.keys(EXPORT_LABELS) as ExportFormat[]).map(format => (
+            <DropdownMenuItem key={format} onClick={() => handleExport(format)} className="h-9">
+              {EXPORT_LABELS[format]}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      <Button
+        variant="outline"
+        size="sm"
+        className="h-9 gap-2"
+        onClick={handleCertificates}
+        disabled={count === 0 || count > MAX_ZIP_CERTIFICATES || isZipping}
+        title={count > MAX_ZIP_CERTIFICATES ? `Select up to ${MAX_ZIP_CERTIFICATES.toLocaleString()} credits` : undefined}
+        aria-label={`Download certificates for ${count.toLocaleString()} selected ${noun} as a ZIP file`}
+      >
+        {isZipping
+          ? <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          : <FileArchive className="h-4 w-4" aria-hidden="true" />}
+        Certificates
+      </Button>
+      <Button variant="outline" size="sm" className="h-9 gap-2" onClick={handleCopyIds} disabled={count === 0}>
+        <Copy className="h-4 w-4" aria-hidden="true" />
+        Copy IDs
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-9 w-9 p-0"
+        onClick={onClearSelection}
+        disabled={count === 0}
+        aria-label="Clear selection"
+      >
+        <X className="h-4 w-4" aria-hidden="true" />
+      </Button>
+    </div>
+  );
+});
+
+BulkActionBar.displayName = "BulkActionBar";
+
+export { BulkActionBar };
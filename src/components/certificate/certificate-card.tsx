@@ -1,5 +1,6 @@
 
 import type { Credit } from "@/lib/types";
+import { formatQuantity } from "@/lib/data";
 
 interface CertificateCardProps {
   credit: Credit;
@@ -89,6 +90,16 @@ export function CertificateCard({ credit, timestamp }: CertificateCardProps) {
                   {credit.vintage}
                 </p>
               </div>
+              {credit.quantity !== undefined && (
+                <div>
+                  <label className="block text-xs sm:text-sm font-medium text-gray-600 uppercase tracking-wide mb-1">
+                    Quantity
+                  </label>
+                  <p className="text-sm sm:text-base lg:text-lg text-gray-900 bg-gray-50 p-2 rounded border">
+                    {formatQuantity(credit.quantity)}
+                  </p>
+                </div>
+              )}
               <div>
                 <label className="block text-xs sm:text-sm font-medium text-gray-600 uppercase tracking-wide mb-1">
                   Certificate Issued
@@ -2,6 +2,9 @@
 import html2pdf from "html2pdf.js";
 import type { Credit } from "@/lib/types";
 import { withRetry, AppError, handleError } from "@/lib/error-handling";
+import { formatQuantity } from "@/lib/data";
+import { downloadBlob } from "@/lib/credit-export";
+import { createZip } from "@/lib/zip";
 
 /**
  * Downloads a certificate as PDF - simplified approach
@@ -175,6 +178,15 @@ function generateCertificateHTML(credit: Credit): string {
               ${credit.vintage}
             </p>
           </div>
+          ${credit.quantity !== undefined ? `
+          <div>
+            <label style="display: block; font-size: 12px; font-weight: 500; color: #6b7280; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px;">
+              Quantity
+            </label>
+            <p style="font-size: 18px; color: #1f2937; background-color: #f9fafb; padding: 8px; border-radius: 4px; border: 1px solid #e5e7eb; margin: 0;">
+              ${formatQuantity(credit.quantity)}
+            </p>
+          </div>` : ''}
           <div>
             <label style="display: block; font-size: 12px; font-weight: 500; color: #6b7280; text-transform: uppercase; letter-spacing: 1px; margin-bottom: 4px;">
               Certificate Issued
@@ -206,25 +218,20 @@ function generateCertificateHTML(credit: Credit): string {
 }
 
 /**
- * Downloads a certificate as HTML file
- * Enhanced with comprehensive error handling
+ * Generate a standalone certificate HTML document with embedded styles
  */
-export const downloadCertificateAsHTML = async (credit: Credit): Promise<void> => {
-  try {
-    console.log('Starting HTML download for credit:', credit.unic_id);
-    
-    const timestamp = new Date().toISOString();
-    const formattedDate = new Date(timestamp).toLocaleDateString('en-US', {
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric',
-      hour: '2-digit',
-      minute: '2-digit',
-      timeZoneName: 'short'
-    });
+function generateCertificateDocument(credit: Credit): string {
+  const timestamp = new Date().toISOString();
+  const formattedDate = new Date(timestamp).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  });
 
-      // Create HTML content with embedded styles
-      const htmlContent = `
+  return `
 <!DOCTYPE html>
 <html lang="en">
 <head>
@@ -439,7 +446,11 @@ export const downloadCertificateAsHTML = async (credit: Credit): Promise<void> =
                 <div>
                     <label class="field-label">Vintage Year</label>
                     <p class="field-value">${credit.vintage}</p>
-                </div>
+                </div>${credit.quantity !== undefined ? `
+                <div>
+                    <label class="field-label">Quantity</label>
+                    <p class="field-value">${formatQuantity(credit.quantity)}</p>
+                </div>` : ''}
                 <div>
                     <label class="field-label">Certificate Issued</label>
                     <p class="field-value">${formattedDate}</p>
@@ -460,6 +471,16 @@ export const downloadCertificateAsHTML = async (credit: Credit): Promise<void> =
     </div>
 </body>
 </html>`;
+}
+
+/**
+ * Downloads a certificate as HTML file
+ * Enhanced with comprehensive error handling
+ */
+export const downloadCertificateAsHTML = async (credit: Credit): Promise<void> => {
+  try {
+    console.log('Starting HTML download for credit:', credit.unic_id);
+    const htmlContent = generateCertificateDocument(credit);
 
     // Create and download the HTML file
     const blob = new Blob([htmlContent], { type: 'text/html;charset=utf-8' });
@@ -525,7 +546,8 @@ CREDIT INFORMATION:
 
 UNIC Identifier: ${credit.unic_id}
 Project Name: ${credit.project_name}
-Vintage Year: ${credit.vintage}
+Vintage Year: ${credit.vintage}${credit.quantity !== undefined ? `
+Quantity: ${formatQuantity(credit.quantity)}` : ''}
 Status: ${credit.status}
 Certificate Issued: ${formattedDate}
 
@@ -565,5 +587,35 @@ Verified and authenticated by Carbon Credits Registry
   }
 };
 
+// Certificates are generated in memory, so large selections are refused up front
+export const MAX_ZIP_CERTIFICATES = 1000;
+
+/**
+ * Downloads HTML certificates for several credits as one ZIP archive
+ */
+export const downloadCertificatesAsZip = async (credits: Credit[]): Promise<void> => {
+  if (credits.length === 0) {
+    throw new Error('No credits to download certificates for');
+  }
+  if (credits.length > MAX_ZIP_CERTIFICATES) {
+    throw new Error(`Certificates can be downloaded for up to ${MAX_ZIP_CERTIFICATES.toLocaleString()} credits at a time`);
+  }
+
+  // Duplicate IDs get a numbered suffix so every certificate keeps its own file
+  const usedNames = new Map<string, number>();
+  const entries = credits.map(credit => {
+    const base = `certificate-${credit.unic_id.replace(/[^\w.-]+/g, '-')}`;
+    const count = usedNames.get(base) ?? 0;
+    usedNames.set(base, count + 1);
+    return {
+      name: `${count > 0 ? `${base}-${count + 1}` : base}.html`,
+      content: generateCertificateDocument(credit),
+    };
+  });
+
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(createZip(entries), `certificates-${date}.zip`);
+};
+
 // Legacy function for backward compatibility
 export const downloadCertificate = downloadCertificateAsPDF;
@@ -3,5 +3,7 @@ export { CertificateDialog } from './certificate-dialog';
 export { 
   downloadCertificateAsPDF, 
   downloadCertificateAsHTML, 
-  downloadCertificate 
+  downloadCertificatesAsZip,
+  downloadCertificate,
+  MAX_ZIP_CERTIFICATES
 } from './download-certificate';
\ No newline at end of file
@@ -8,24 +8,41 @@ import {
 } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import type { Credit } from "@/lib/types";
+import type { CreditChangeKind } from "@/lib/change-detection";
+import { formatQuantity } from "@/lib/data";
 import { cn } from "@/lib/utils";
+import { HighlightText } from "@/components/search/highlight-text";
 
 interface CreditCardProps {
   credit: Credit;
   onViewDetails?: (credit: Credit) => void;
   onDownloadCertificate?: (credit: Credit) => void;
   className?: string;
+  highlight?: CreditChangeKind;   // Set briefly after a reload added the credit or changed its status
+  highlightQuery?: string;        // Search query whose matches are marked in the name and ID
+  selectable?: boolean;           // Selection mode: activating the card selects it instead of opening details
+  isSelected?: boolean;
+  onToggleSelect?: (credit: Credit, extendRange: boolean) => void;
 }
 
 const CreditCard = React.memo<CreditCardProps>(
-  ({ credit, onViewDetails, onDownloadCertificate, className }) => {
+  ({ credit, onViewDetails, onDownloadCertificate, className, highlight, highlightQuery, selectable = false, isSelected = false, onToggleSelect }) => {
     const isActive = credit.status === "Active";
 
+    const activate = (extendRange: boolean) => {
+      if (selectable) {
+        onToggleSelect?.(credit, extendRange);
+      } else {
+        onViewDetails?.(credit);
+      }
+    };
+
     const handleKeyDown = (event: React.KeyboardEvent) => {
       if (event.key === "Enter" || event.key === " ") {
         event.preventDefault();
-        onViewDetails?.(credit);
+        activate(event.shiftKey);
       }
     };
 
@@ -46,25 +63,41 @@ const CreditCard = React.memo<CreditCardProps>(
           "cursor-pointer",
           // Modern rounded corners
           "rounded-lg",
+          highlight === "added" && "ring-2 ring-emerald-400/70 border-emerald-400",
+          highlight === "status" && "ring-2 ring-amber-400/70 border-amber-400",
+          isSelected && "ring-2 ring-primary border-primary bg-primary/5",
           className
         )}
-        onClick={() => onViewDetails?.(credit)}
+        data-highlight={highlight}
+        data-selected={isSelected || undefined}
+        onClick={(event) => activate(event.shiftKey)}
         onKeyDown={handleKeyDown}
         tabIndex={0}
         role="article"
-        aria-label={`Carbon credit: ${credit.project_name}, Status: ${credit.status}, Vintage: ${credit.vintage}`}
+        aria-label={`Carbon credit: ${credit.project_name}, Status: ${credit.status}, Vintage: ${credit.vintage}${
+          highlight === "added" ? ", new since last refresh" : highlight === "status" ? ", status changed since last refresh" : ""
+        }${selectable ? (isSelected ? ", selected" : ", not selected") : ""}`}
         aria-describedby={`credit-${credit.unic_id}-details`}
         style={{ cursor: "pointer" }}
       >
         {/* Clean header with proper spacing */}
         <CardHeader className="p-4 pb-2 flex-shrink-0">
           <div className="flex items-start justify-between gap-2">
+            {selectable && (
+              // The card itself toggles selection; the checkbox only shows the state
+              <Checkbox
+                checked={isSelected}
+                tabIndex={-1}
+                aria-hidden="true"
+                className="pointer-events-none mt-0.5"
+              />
+            )}
             <CardTitle
               className="text-sm font-semibold leading-tight text-foreground group-hover:text-primary transition-colors duration-200 line-clamp-2 flex-1 pr-2"
               id={`credit-${credit.unic_id}-title`}
               title={credit.project_name}
             >
-              {credit.project_name}
+              <HighlightText text={credit.project_name} query={highlightQuery} />
             </CardTitle>
             <Badge
               variant={isActive ? "default" : "secondary"}
@@ -93,7 +126,7 @@ const CreditCard = React.memo<CreditCardProps>(
                 aria-label={`Unique identifier: ${credit.unic_id}`}
                 title={credit.unic_id}
               >
-                {credit.unic_id.split("-").pop() || credit.unic_id}
+                <HighlightText text={credit.unic_id.split("-").pop() || credit.unic_id} query={highlightQuery} />
               </span>
             </div>
             <div className="flex items-center justify-between py-2 px-3 bg-muted/30 rounded-md">
@@ -107,6 +140,19 @@ const CreditCard = React.memo<CreditCardProps>(
                 {credit.vintage}
               </span>
             </div>
+            {credit.quantity !== undefined && (
+              <div className="flex items-center justify-between py-2 px-3 bg-muted/30 rounded-md">
+                <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Quantity
+                </span>
+                <span
+                  className="text-sm font-bold text-foreground"
+                  aria-label={`Quantity: ${formatQuantity(credit.quantity)}`}
+                >
+                  {formatQuantity(credit.quantity)}
+                </span>
+              </div>
+            )}
           </div>
         </CardContent>
 
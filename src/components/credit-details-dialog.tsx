@@ -13,8 +13,10 @@ import { Separator } from "@/components/ui/separator";
 import { Card, CardContent } from "@/components/ui/card";
 import type { Credit } from "@/lib/types";
 import { downloadCertificate } from "./certificate/download-certificate";
+import { parseUnicId, validateUnicId, getRegistryName } from "@/lib/unic-id";
+import { formatCreditDate, formatQuantity, getCreditLocation } from "@/lib/data";
 import { cn } from "@/lib/utils";
-import { CalendarIcon, FileTextIcon, TagIcon, DownloadIcon, XIcon } from "lucide-react";
+import { CalendarIcon, FileTextIcon, TagIcon, DownloadIcon, XIcon, AlertTriangleIcon } from "lucide-react";
 
 interface CreditDetailsDialogProps {
   credit: Credit | null;
@@ -26,6 +28,9 @@ export function CreditDetailsDialog({ credit, isOpen, onClose }: CreditDetailsDi
   if (!credit) return null;
 
   const isActive = credit.status === "Active";
+  const parsedId = parseUnicId(credit.unic_id);
+  const unicIdIssues = validateUnicId(credit, parsedId);
+  const location = getCreditLocation(credit);
   const currentDate = new Date().toLocaleDateString('en-US', {
     year: 'numeric',
     month: 'long',
@@ -89,6 +94,16 @@ export function CreditDetailsDialog({ credit, isOpen, onClose }: CreditDetailsDi
                   <div className="font-mono text-sm bg-muted/50 px-3 py-2 rounded-md border">
                     {credit.unic_id}
                   </div>
+                  {unicIdIssues.map((issue) => (
+                    <div
+                      key={issue.code}
+                      className="flex items-start gap-1.5 text-xs text-amber-700 dark:text-amber-400"
+                      role="note"
+                    >
+                      <AlertTriangleIcon className="h-3.5 w-3.5 mt-0.5 shrink-0" aria-hidden="true" />
+                      <span>{issue.message}</span>
+                    </div>
+                  ))}
                 </div>
 
                 <div className="space-y-2">
@@ -139,19 +154,43 @@ export function CreditDetailsDialog({ credit, isOpen, onClose }: CreditDetailsDi
               <div className="space-y-3 text-sm">
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-muted-foreground">Credit Type</span>
-                  <span className="font-medium">Verified Carbon Standard (VCS)</span>
+                  <span className="font-medium">{credit.project_type ?? "Not specified"}</span>
                 </div>
                 
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-muted-foreground">Registry</span>
-                  <span className="font-medium">Universal Carbon Registry</span>
+                  <span className="font-medium">
+                    {parsedId ? `${getRegistryName(parsedId.standard)} (${parsedId.standard})` : "Unknown"}
+                  </span>
                 </div>
                 
                 <div className="flex justify-between items-center py-2 border-b border-border/30">
                   <span className="text-muted-foreground">Methodology</span>
-                  <span className="font-medium">Renewable Energy</span>
+                  <span className="font-medium">{credit.methodology ?? "Not specified"}</span>
+                </div>
+                
+                <div className="flex justify-between items-center py-2 border-b border-border/30">
+                  <span className="text-muted-foreground">Quantity</span>
+                  <span className="font-medium">{formatQuantity(credit.quantity)}</span>
+                </div>
+                
+                <div className="flex justify-between items-center py-2 border-b border-border/30">
+                  <span className="text-muted-foreground">Location</span>
+                  <span className="font-medium">{location ?? "Not specified"}</span>
                 </div>
                 
+                <div className="flex justify-between items-center py-2 border-b border-border/30">
+                  <span className="text-muted-foreground">Issuance Date</span>
+                  <span className="font-medium">{formatCreditDate(credit.issuance_date)}</span>
+                </div>
+                
+                {(credit.retirement_date || !isActive) && (
+                  <div className="flex justify-between items-center py-2 border-b border-border/30">
+                    <span className="text-muted-foreground">Retirement Date</span>
+                    <span className="font-medium">{formatCreditDate(credit.retirement_date)}</span>
+                  </div>
+                )}
+                
                 <div className="flex justify-between items-center py-2">
                   <span className="text-muted-foreground">Last Updated</span>
                   <span className="font-medium">{currentDate}</span>
@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect } from "react";
 import { CreditCard } from "./credit-card";
 import { EmptyState } from "./search/empty-state";
 import { 
@@ -10,8 +10,10 @@ import {
   PaginationPrevious,
   PaginationEllipsis 
 } from "@/components/ui/pagination";
+import { Skeleton } from "@/components/ui/skeleton";
 import { usePagination, generatePaginationItems } from "@/hooks/use-pagination";
 import type { Credit } from "@/lib/types";
+import type { CreditChangeKind } from "@/lib/change-detection";
 import { cn } from "@/lib/utils";
 
 interface CreditGridProps {
@@ -23,6 +25,15 @@ interface CreditGridProps {
   searchQuery?: string;
   className?: string;
   itemsPerPage?: number;
+  highlightedIds?: ReadonlyMap<string, CreditChangeKind>;
+  totalCount?: number;          // Server total in remote query mode; defaults to credits.length
+  onRequestItems?: (count: number) => void;  // Asks for more results to be streamed in
+  isFetching?: boolean;
+  page?: number;                // Controlled current page; uncontrolled when omitted
+  onPageChange?: (page: number) => void;
+  selectable?: boolean;         // Selection mode: cards toggle selection, shift-click selects a range
+  isSelected?: (id: string) => boolean;
+  onToggleSelect?: (credit: Credit, extendRange: boolean) => void;
 }
 
 const CreditGrid = React.memo<CreditGridProps>(({ 
@@ -33,17 +44,39 @@ const CreditGrid = React.memo<CreditGridProps>(({
   onClearFilters,
   searchQuery,
   className,
-  itemsPerPage = 12
+  highlightedIds,
+  itemsPerPage = 12,
+  totalCount,
+  onRequestItems,
+  isFetching = false,
+  page,
+  onPageChange,
+  selectable = false,
+  isSelected,
+  onToggleSelect
 }) => {
+  const totalItems = totalCount ?? credits.length;
+
   // Use pagination hook for state management
   const pagination = usePagination({
-    totalItems: credits.length,
+    totalItems,
     itemsPerPage,
-    initialPage: 1
+    initialPage: 1,
+    page,
+    onPageChange
   });
 
   const paginatedCredits = pagination.getPageItems(credits);
-  const showPagination = credits.length > itemsPerPage;
+  const showPagination = totalItems > itemsPerPage;
+  // Cards on the current page that have not streamed in yet
+  const pendingCount = Math.max(0, pagination.endIndex - pagination.startIndex - paginatedCredits.length);
+
+  // Ask for the rest of the current page when results are streamed from a registry
+  useEffect(() => {
+    if (onRequestItems && pagination.endIndex > credits.length) {
+      onRequestItems(pagination.endIndex);
+    }
+  }, [onRequestItems, pagination.endIndex, credits.length]);
   
   // Generate pagination items for UI
   const paginationItems = generatePaginationItems(
@@ -51,7 +84,7 @@ const CreditGrid = React.memo<CreditGridProps>(({
     pagination.totalPages
   );
 
-  if (credits.length === 0) {
+  if (credits.length === 0 && !isFetching) {
     return (
       <EmptyState
         hasActiveFilters={hasActiveFilters}
@@ -89,7 +122,8 @@ const CreditGrid = React.memo<CreditGridProps>(({
           "transition-smooth animate-slide-up"
         )}
         role="grid"
-        aria-label={`Carbon credits grid showing ${paginatedCredits.length} of ${credits.length} credits`}
+        aria-label={`Carbon credits grid showing ${paginatedCredits.length} of ${totalItems} credits`}
+        aria-busy={pendingCount > 0}
         aria-live="polite"
         aria-atomic="false"
       >
@@ -106,9 +140,19 @@ const CreditGrid = React.memo<CreditGridProps>(({
               credit={credit}
               onViewDetails={onViewDetails}
               onDownloadCertificate={onDownloadCertificate}
+              highlight={highlightedIds?.get(credit.unic_id)}
+              selectable={selectable}
+              isSelected={isSelected?.(credit.unic_id) ?? false}
+              onToggleSelect={onToggleSelect}
+            highlightQuery={searchQuery}
             />
           </div>
         ))}
+        {Array.from({ length: pendingCount }, (_, index) => (
+          <div key={`pending-${index}`} role="gridcell" aria-label="Loading credit">
+            <Skeleton className="h-full min-h-[280px] w-full rounded-xl" />
+          </div>
+        ))}
       </div>
 
       {/* Pagination - Mobile Optimized */}
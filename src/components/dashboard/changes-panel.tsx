@@ -0,0 +1,101 @@
+import { GitCompareArrows, X } from "lucide-react";
+import { Card, CardContent } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import type { CreditChangeSet } from "../../lib/change-detection";
+import type { Credit } from "../../lib/types";
+import { cn } from "../../lib/utils";
+
+interface ChangesPanelProps {
+  changes: CreditChangeSet | null;
+  onDismiss: () => void;
+  className?: string;
+}
+
+const MAX_LISTED = 10;
+
+function CreditLine({ credit, children }: { credit: Credit; children?: React.ReactNode }) {
+  return (
+    <li className="px-3 py-2 flex flex-wrap items-center gap-2">
+      <span className="font-medium truncate max-w-[16rem]" title={credit.project_name}>{credit.project_name}</span>
+      <span className="font-mono text-xs text-muted-foreground">{credit.unic_id}</span>
+      {children}
+    </li>
+  );
+}
+
+function MoreLine({ count }: { count: number }) {
+  if (count <= 0) return null;
+  return <li className="px-3 py-2 text-xs text-muted-foreground">and {count} more</li>;
+}
+
+/**
+ * "What changed" summary after a reload: new credits, removed credits and status changes
+ */
+export function ChangesPanel({ changes, onDismiss, className }: ChangesPanelProps) {
+  if (!changes) {
+    return null;
+  }
+
+  const { added, removed, statusChanged } = changes;
+  const detectedAt = new Date(changes.detectedAt).toLocaleTimeString();
+
+  return (
+    <Card className={cn("border-sky-200 dark:border-sky-800", className)} role="region" aria-label="Changes since last refresh">
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <GitCompareArrows className="h-5 w-5 text-sky-600 dark:text-sky-400" aria-hidden="true" />
+            <h3 className="text-base font-semibold">What Changed</h3>
+            <span className="text-xs text-muted-foreground">at {detectedAt}</span>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-xs">
+            {added.length > 0 && (
+              <Badge variant="outline" className="border-emerald-300 text-emerald-700 dark:border-emerald-700 dark:text-emerald-400">
+                {added.length} new
+              </Badge>
+            )}
+            {removed.length > 0 && (
+              <Badge variant="outline">{removed.length} removed</Badge>
+            )}
+            {statusChanged.length > 0 && (
+              <Badge variant="outline" className="border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400">
+                {statusChanged.length} status changes
+              </Badge>
+            )}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onDismiss}
+              className="h-8 w-8 p-0 cursor-pointer"
+              aria-label="Dismiss changes"
+            >
+              <X className="h-4 w-4" aria-hidden="true" />
+            </Button>
+          </div>
+        </div>
+
+        <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm" aria-label="Changed credits">
+          {added.slice(0, MAX_LISTED).map(credit => (
+            <CreditLine key={`added-${credit.unic_id}`} credit={credit}>
+              <Badge variant="secondary" className="text-[10px] px-1.5 py-0">New</Badge>
+            </CreditLine>
+          ))}
+          <MoreLine count={added.length - MAX_LISTED} />
+          {statusChanged.slice(0, MAX_LISTED).map(({ credit, from, to }) => (
+            <CreditLine key={`status-${credit.unic_id}`} credit={credit}>
+              <span className="text-xs">{from} → {to}</span>
+            </CreditLine>
+          ))}
+          <MoreLine count={statusChanged.length - MAX_LISTED} />
+          {removed.slice(0, MAX_LISTED).map(credit => (
+            <CreditLine key={`removed-${credit.unic_id}`} credit={credit}>
+              <Badge variant="outline" className="text-[10px] px-1.5 py-0">Removed</Badge>
+            </CreditLine>
+          ))}
+          <MoreLine count={removed.length - MAX_LISTED} />
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
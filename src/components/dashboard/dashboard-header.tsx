@@ -1,3 +1,5 @@
+import { useState, useEffect } from "react";
+import { format, formatDistanceToNow } from "date-fns";
 import { Card, CardContent, CardHeader } from "../ui/card";
 import { Badge } from "../ui/badge";
 import { 
@@ -8,14 +10,25 @@ import {
   Leaf,
   Recycle,
   CheckCircle,
-  Clock
+  Clock,
+  CloudOff,
+  RefreshCw,
+  Database
 } from "lucide-react";
 import type { DashboardStats } from "../../lib/types";
+import type { LiveConnectionStatus } from "../../lib/live-updates";
+import { getSourceLabel } from "../../lib/credit-sources";
 import { cn } from "../../lib/utils";
 
 interface DashboardHeaderProps {
   stats: DashboardStats;
   loading?: boolean;
+  lastUpdated?: string | null;
+  isStale?: boolean;
+  refreshError?: string | null;
+  showMetrics?: boolean;  // False hides the totals when they are not known for the whole portfolio
+  liveStatus?: LiveConnectionStatus;
+  pollInterval?: number;
 }
 
 interface MetricCardProps {
@@ -69,7 +82,98 @@ function MetricCard({ title, value, icon: Icon, trend, className, iconClassName
   );
 }
 
-export function DashboardHeader({ stats, loading = false }: DashboardHeaderProps) {
+interface UpdatedBadgeProps {
+  lastUpdated: string;
+  isStale: boolean;
+  refreshError: string | null;
+}
+
+function UpdatedBadge({ lastUpdated, isStale, refreshError }: UpdatedBadgeProps) {
+  const [, setNow] = useState(Date.now());
+  const updatedAt = new Date(lastUpdated);
+
+  // Re-render every minute so the relative time stays current
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  if (isStale) {
+    return (
+      <Badge
+        variant="outline"
+        className="bg-amber-50 dark:bg-amber-950 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800 text-xs"
+        title={refreshError
+          ? `The last refresh failed (${refreshError}). Showing the data loaded before; it will refresh again later.`
+          : 'Showing the last saved copy of the portfolio. It will refresh when the connection is back.'}
+      >
+        <CloudOff className="h-3 w-3 mr-1" />
+        Stale since {format(updatedAt, 'PP p')}
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="outline" className="text-xs" title={format(updatedAt, 'PPpp')}>
+      <Clock className="h-3 w-3 mr-1" />
+      Updated {formatDistanceToNow(updatedAt, { addSuffix: true })}
+    </Badge>
+  );
+}
+
+function formatInterval(milliseconds: number): string {
+  const seconds = Math.round(milliseconds / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+interface LiveBadgeProps {
+  liveStatus: LiveConnectionStatus;
+  pollInterval: number;
+}
+
+/**
+ * Shows how the data stays current: a push channel, polling, or neither
+ */
+function LiveBadge({ liveStatus, pollInterval }: LiveBadgeProps) {
+  if (liveStatus === 'open') {
+    return (
+      <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20 w-fit">
+        <span className="mr-1.5 h-2 w-2 rounded-full bg-green-500 animate-pulse" aria-hidden="true" />
+        Live
+      </Badge>
+    );
+  }
+
+  if (liveStatus === 'connecting' || liveStatus === 'closed') {
+    return (
+      <Badge variant="outline" className="text-muted-foreground w-fit">
+        {liveStatus === 'connecting' ? 'Reconnecting…' : 'Live feed closed'}
+      </Badge>
+    );
+  }
+
+  if (pollInterval > 0) {
+    return (
+      <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20 w-fit">
+        <RefreshCw className="h-3 w-3 mr-1" aria-hidden="true" />
+        Refreshes every {formatInterval(pollInterval)}
+      </Badge>
+    );
+  }
+
+  return null;
+}
+
+export function DashboardHeader({
+  stats,
+  loading = false,
+  lastUpdated = null,
+  isStale = false,
+  refreshError = null,
+  showMetrics = true,
+  liveStatus = 'off',
+  pollInterval = 0,
+}: DashboardHeaderProps) {
   if (loading) {
     return (
       <div className="space-y-8">
@@ -117,9 +221,7 @@ export function DashboardHeader({ stats, loading = false }: DashboardHeaderProps
             <h1 className="text-2xl sm:text-3xl font-bold tracking-tight bg-gradient-to-r from-foreground to-foreground/70 bg-clip-text">
               Carbon Credits Overview
             </h1>
-            <Badge variant="secondary" className="bg-primary/10 text-primary border-primary/20 w-fit">
-              Live
-            </Badge>
+            <LiveBadge liveStatus={liveStatus} pollInterval={pollInterval} />
           </div>
           <p className="text-sm sm:text-base text-muted-foreground max-w-2xl leading-relaxed">
             Monitor your environmental impact and carbon offset portfolio in real-time. 
@@ -132,89 +234,103 @@ export function DashboardHeader({ stats, loading = false }: DashboardHeaderProps
             <Activity className="h-3 w-3 mr-1" />
             System Active
           </Badge>
-          <Badge variant="outline" className="text-xs">
-            <Clock className="h-3 w-3 mr-1" />
-            Updated 2m ago
-          </Badge>
+          {lastUpdated && <UpdatedBadge lastUpdated={lastUpdated} isStale={isStale} refreshError={refreshError} />}
+          {stats.sourceCounts.length > 1 && stats.sourceCounts.map(({ source, count }) => (
+            <Badge key={source} variant="outline" className="text-xs" title={source}>
+              <Database className="h-3 w-3 mr-1" />
+              {getSourceLabel(source)}: {count.toLocaleString()}
+            </Badge>
+          ))}
         </div>
       </div>
 
-      {/* Metrics Grid */}
-      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
-        <MetricCard
-          title="Total Credits"
-          value={stats.totalCredits}
-          icon={Leaf}
-          trend={{ value: 12.5, isPositive: true }}
-          iconClassName="from-blue-500 to-blue-600"
-        />
+      {showMetrics && (
+        <>
+          {/* Metrics Grid */}
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4 sm:gap-6">
+            <MetricCard
+              title="Total Credits"
+              value={stats.totalCredits}
+              icon={Leaf}
+              trend={{ value: 12.5, isPositive: true }}
+              iconClassName="from-blue-500 to-blue-600"
+            />
         
-        <MetricCard
-          title="Active Credits"
-          value={stats.activeCredits}
-          icon={CheckCircle}
-          trend={{ value: 8.2, isPositive: true }}
-          iconClassName="from-green-500 to-green-600"
-        />
+            <MetricCard
+              title="Active Credits"
+              value={stats.activeCredits}
+              icon={CheckCircle}
+              trend={{ value: 8.2, isPositive: true }}
+              iconClassName="from-green-500 to-green-600"
+            />
         
-        <MetricCard
-          title="Retired Credits"
-          value={stats.retiredCredits}
-          icon={Recycle}
-          trend={{ value: 15.3, isPositive: true }}
-          iconClassName="from-orange-500 to-orange-600"
-        />
+            <MetricCard
+              title="Retired Credits"
+              value={stats.retiredCredits}
+              icon={Recycle}
+              trend={{ value: 15.3, isPositive: true }}
+              iconClassName="from-orange-500 to-orange-600"
+            />
         
-        <MetricCard
-          title="Vintage Range"
-          value={stats.vintageRange.min === stats.vintageRange.max 
-            ? stats.vintageRange.min 
-            : `${stats.vintageRange.min}-${stats.vintageRange.max}`}
-          icon={Calendar}
-          iconClassName="from-purple-500 to-purple-600"
-        />
-      </div>
+            <MetricCard
+              title="Vintage Range"
+              value={stats.vintageRange.min === stats.vintageRange.max 
+                ? stats.vintageRange.min 
+                : `${stats.vintageRange.min}-${stats.vintageRange.max}`}
+              icon={Calendar}
+              iconClassName="from-purple-500 to-purple-600"
+            />
+          </div>
 
-      {/* Quick Stats Bar */}
-      <Card className="bg-gradient-to-r from-primary/5 via-primary/3 to-transparent border-primary/20">
-        <CardContent className="p-4 sm:p-6">
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
-            <div className="flex items-center space-x-3">
-              <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-primary/10 flex-shrink-0">
-                <TrendingUp className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
-              </div>
-              <div className="min-w-0 flex-1">
-                <p className="text-xs sm:text-sm font-medium text-muted-foreground">Portfolio Growth</p>
-                <p className="text-base sm:text-lg font-bold text-primary">+24.5% YTD</p>
-              </div>
-            </div>
+          {/* Quick Stats Bar */}
+          <Card className="bg-gradient-to-r from-primary/5 via-primary/3 to-transparent border-primary/20">
+            <CardContent className="p-4 sm:p-6">
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
+                <div className="flex items-center space-x-3">
+                  <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-primary/10 flex-shrink-0">
+                    <TrendingUp className="h-4 w-4 sm:h-5 sm:w-5 text-primary" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs sm:text-sm font-medium text-muted-foreground">Portfolio Growth</p>
+                    <p className="text-base sm:text-lg font-bold text-primary">+24.5% YTD</p>
+                  </div>
+                </div>
             
-            <div className="flex items-center space-x-3">
-              <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-green-100 dark:bg-green-900 flex-shrink-0">
-                <Leaf className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 dark:text-green-400" />
-              </div>
-              <div className="min-w-0 flex-1">
-                <p className="text-xs sm:text-sm font-medium text-muted-foreground">CO₂ Offset</p>
-                <p className="text-base sm:text-lg font-bold text-green-600 dark:text-green-400">
-                  {(stats.totalCredits * 1.2).toLocaleString()} tons
-                </p>
-              </div>
-            </div>
+                <div className="flex items-center space-x-3">
+                  <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-green-100 dark:bg-green-900 flex-shrink-0">
+                    <Leaf className="h-4 w-4 sm:h-5 sm:w-5 text-green-600 dark:text-green-400" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs sm:text-sm font-medium text-muted-foreground">CO₂ Offset</p>
+                    <p className="text-base sm:text-lg font-bold text-green-600 dark:text-green-400">
+                      {stats.creditsWithQuantity > 0
+                        ? `${stats.totalQuantity.toLocaleString()} tons`
+                        : 'Not reported'}
+                    </p>
+                    {stats.creditsWithQuantity > 0 && stats.creditsWithQuantity < stats.totalCredits && (
+                      <p className="text-xs text-muted-foreground">
+                        From {stats.creditsWithQuantity} of {stats.totalCredits} credits
+                      </p>
+                    )}
+                  </div>
+                </div>
             
-            <div className="flex items-center space-x-3 sm:col-span-2 lg:col-span-1">
-              <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-blue-100 dark:bg-blue-900 flex-shrink-0">
-                <Activity className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600 dark:text-blue-400" />
-              </div>
-              <div className="min-w-0 flex-1">
-                <p className="text-xs sm:text-sm font-medium text-muted-foreground">Active Projects</p>
-                <p className="text-base sm:text-lg font-bold text-blue-600 dark:text-blue-400">
-                  {Math.ceil(stats.totalCredits / 100)}
-                </p>
+                <div className="flex items-center space-x-3 sm:col-span-2 lg:col-span-1">
+                  <div className="flex h-8 w-8 sm:h-10 sm:w-10 items-center justify-center rounded-lg bg-blue-100 dark:bg-blue-900 flex-shrink-0">
+                    <Activity className="h-4 w-4 sm:h-5 sm:w-5 text-blue-600 dark:text-blue-400" />
+                  </div>
+                  <div className="min-w-0 flex-1">
+                    <p className="text-xs sm:text-sm font-medium text-muted-foreground">Active Projects</p>
+                    <p className="text-base sm:text-lg font-bold text-blue-600 dark:text-blue-400">
+                      {stats.projectCount}
+                    </p>
+                  </div>
+                </div>
               </div>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
+            </CardContent>
+          </Card>
+        </>
+      )}
     </div>
   );
 }
\ No newline at end of file
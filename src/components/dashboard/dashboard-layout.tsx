@@ -10,6 +10,7 @@ import { ThemeToggle } from "../theme/theme-toggle";
 interface DashboardLayoutProps {
   children: React.ReactNode;
   className?: string;
+  renderSidebar?: (collapsed: boolean) => React.ReactNode;  // Extra sidebar content below the navigation
 }
 
 const sidebarItems = [
@@ -22,7 +23,7 @@ const sidebarItems = [
   },
 ];
 
-export function DashboardLayout({ children, className }: DashboardLayoutProps) {
+export function DashboardLayout({ children, className, renderSidebar }: DashboardLayoutProps) {
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
 
@@ -133,6 +134,12 @@ export function DashboardLayout({ children, className }: DashboardLayoutProps) {
                 </Button>
               ))}
             </nav>
+            {renderSidebar && (
+              <>
+                <Separator className="my-4" />
+                {renderSidebar(sidebarCollapsed)}
+              </>
+            )}
           </ScrollArea>
 
           {/* Sidebar Footer */}
@@ -0,0 +1,107 @@
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent } from "../ui/card";
+import { Badge } from "../ui/badge";
+import { Button } from "../ui/button";
+import { DUPLICATE_RESOLUTION_LABELS } from "../../lib/data-integrity";
+import type { DuplicateGroup, DuplicateResolution } from "../../lib/data-integrity";
+import { cn } from "../../lib/utils";
+
+interface DataQualityPanelProps {
+  duplicateGroups: DuplicateGroup[];
+  duplicatePolicy: DuplicateResolution;
+  onPolicyChange: (policy: DuplicateResolution) => void;
+  invalidUnicIds?: number;
+  className?: string;
+}
+
+const POLICIES = Object.keys(DUPLICATE_RESOLUTION_LABELS) as DuplicateResolution[];
+
+/**
+ * Data-quality summary for the loaded portfolio
+ * Lists credits sharing a UNIC ID and lets the user choose how they are resolved
+ */
+export function DataQualityPanel({
+  duplicateGroups,
+  duplicatePolicy,
+  onPolicyChange,
+  invalidUnicIds = 0,
+  className,
+}: DataQualityPanelProps) {
+  if (duplicateGroups.length === 0 && invalidUnicIds === 0) {
+    return null;
+  }
+
+  const conflictCount = duplicateGroups.filter(group => group.kind === 'conflict').length;
+  const duplicateCount = duplicateGroups.length - conflictCount;
+
+  return (
+    <Card className={cn("border-amber-200 dark:border-amber-800", className)}>
+      <CardContent className="p-4 sm:p-6 space-y-4">
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-amber-600 dark:text-amber-400" aria-hidden="true" />
+            <h3 className="text-base font-semibold">Data Quality</h3>
+          </div>
+          <div className="flex flex-wrap gap-2 text-xs">
+            {duplicateCount > 0 && (
+              <Badge variant="outline">{duplicateCount} exact duplicates</Badge>
+            )}
+            {conflictCount > 0 && (
+              <Badge variant="outline" className="border-amber-300 text-amber-700 dark:border-amber-700 dark:text-amber-400">
+                {conflictCount} conflicting IDs
+              </Badge>
+            )}
+            {invalidUnicIds > 0 && (
+              <Badge variant="outline">{invalidUnicIds} invalid UNIC IDs</Badge>
+            )}
+          </div>
+        </div>
+
+        {duplicateGroups.length > 0 && (
+          <>
+            <div className="flex flex-wrap items-center gap-2" role="group" aria-label="Duplicate resolution policy">
+              <span className="text-sm text-muted-foreground mr-1">Resolve duplicates:</span>
+              {POLICIES.map(policy => (
+                <Button
+                  key={policy}
+                  variant={duplicatePolicy === policy ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => onPolicyChange(policy)}
+                  className="h-8 px-3 text-xs cursor-pointer"
+                  aria-pressed={duplicatePolicy === policy}
+                >
+                  {DUPLICATE_RESOLUTION_LABELS[policy]}
+                </Button>
+              ))}
+            </div>
+
+            <ul className="max-h-64 overflow-y-auto divide-y rounded-md border text-sm" aria-label="Credits sharing a UNIC ID">
+              {duplicateGroups.map(group => (
+                <li key={group.unic_id} className="px-3 py-2 space-y-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-mono text-xs">{group.unic_id}</span>
+                    <Badge
+                      variant={group.kind === 'conflict' ? 'destructive' : 'secondary'}
+                      className="text-[10px] px-1.5 py-0"
+                    >
+                      {group.kind === 'conflict' ? 'Conflict' : 'Duplicate'}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      rows {group.indexes.join(', ')}
+                    </span>
+                  </div>
+                  {group.conflictingFields.map(field => (
+                    <p key={field} className="text-xs text-muted-foreground">
+                      <span className="font-medium text-foreground">{field}</span>:{' '}
+                      {group.records.map(record => String(record[field] ?? '—')).join(' / ')}
+                    </p>
+                  ))}
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,5 +1,10 @@
 export { DashboardHeader } from './dashboard-header';
 export { DashboardLayout, DashboardSection, DashboardGrid } from './dashboard-layout';
+export { ValidationWarningBanner } from './validation-warning-banner';
+export { SourceErrorBanner } from './source-error-banner';
+export { DataQualityPanel } from './data-quality-panel';
+export { ChangesPanel } from './changes-panel';
+export { SavedViewsNav } from './saved-views-nav';
 export { ErrorBoundary, useErrorHandler } from './error-boundary';
 export { 
   DashboardLoading, 
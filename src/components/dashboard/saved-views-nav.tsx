@@ -0,0 +1,364 @@
+import React, { useRef, useState } from "react";
+import {
+  Bookmark,
+  BookmarkPlus,
+  Download,
+  MoreHorizontal,
+  Pencil,
+  RefreshCw,
+  Star,
+  StarOff,
+  Trash2,
+  Upload,
+} from "lucide-react";
+import { toast } from "sonner";
+import { Button } from "../ui/button";
+import { Input } from "../ui/input";
+import { Label } from "../ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "../ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "../ui/dropdown-menu";
+import { exportSavedViews } from "../../lib/saved-views";
+import type { SavedView } from "../../lib/saved-views";
+import { cn } from "../../lib/utils";
+
+interface SavedViewsNavProps {
+  views: SavedView[];
+  defaultViewId: string | null;
+  activeViewId: string | null;          // Saved view matching what the dashboard shows
+  collapsed?: boolean;
+  onApply: (view: SavedView) => void;
+  onSave: (name: string) => void;       // Save the current view under a new name
+  onUpdate: (view: SavedView) => void;  // Overwrite a view with the current one
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onRestore: (view: SavedView, wasDefault: boolean) => void;
+  onSetDefault: (id: string | null) => void;
+  onImport: (text: string) => SavedView[];
+}
+
+interface ViewNameDialogProps {
+  isOpen: boolean;
+  title: string;
+  description: string;
+  initialName: string;
+  submitLabel: string;
+  onSubmit: (name: string) => void;
+  onClose: () => void;
+}
+
+/**
+ * Dialog asking for a view name, used to save and to rename views
+ */
+function ViewNameDialog({ isOpen, title, description, initialName, submitLabel, onSubmit, onClose }: ViewNameDialogProps) {
+  const [name, setName] = useState(initialName);
+  const trimmed = name.trim();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!trimmed) return;
+    onSubmit(trimmed);
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="saved-view-name">Name</Label>
+            <Input
+              id="saved-view-name"
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="e.g. Retired 2019–2021"
+              maxLength={80}
+              autoFocus
+            />
+          </div>
+          <DialogFooter className="flex flex-col sm:flex-row gap-3">
+            <Button type="button" variant="outline" onClick={onClose} className="cursor-pointer">
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!trimmed} className="cursor-pointer">
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+/**
+ * Offer a JSON file of views for download
+ */
+function downloadViews(views: SavedView[], fileName: string) {
+  const blob = new Blob([exportSavedViews(views)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+}
+
+function toFileName(name: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `view-${slug || 'export'}.json`;
+}
+
+/**
+ * Saved views section of the sidebar
+ * Lists named presets of the search, sort, view mode and columns; each can be applied,
+ * updated, renamed, made the default, exported or deleted, and views shared as JSON
+ * files can be imported
+ */
+const SavedViewsNav = React.memo<SavedViewsNavProps>(({
+  views,
+  defaultViewId,
+  activeViewId,
+  collapsed = false,
+  onApply,
+  onSave,
+  onUpdate,
+  onRename,
+  onDelete,
+  onRestore,
+  onSetDefault,
+  onImport,
+}) => {
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [renaming, setRenaming] = useState<SavedView | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleDelete = (view: SavedView) => {
+    const wasDefault = view.id === defaultViewId;
+    onDelete(view.id);
+    toast.success(`Deleted "${view.name}"`, {
+      action: { label: 'Undo', onClick: () => onRestore(view, wasDefault) },
+    });
+  };
+
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const imported = onImport(await file.text());
+      toast.success(`Imported ${imported.length} ${imported.length === 1 ? 'view' : 'views'}`, {
+        description: `Loaded from ${file.name}`,
+      });
+    } catch (error) {
+      toast.error('Could not import views', {
+        description: error instanceof Error ? error.message : 'The file could not be read',
+      });
+    }
+  };
+
+  // Dialogs are mounted only while open so each opening starts from a fresh name
+  const saveDialog = isSaveOpen && (
+    <ViewNameDialog
+      isOpen
+      title="Save view"
+      description="Save the current search, filters, sort and view mode under a name."
+      initialName=""
+      submitLabel="Save"
+      onSubmit={onSave}
+      onClose={() => setIsSaveOpen(false)}
+    />
+  );
+
+  if (collapsed) {
+    return (
+      <div className="space-y-2">
+        <Button
+          variant="ghost"
+          className="w-full h-10 justify-center px-2 cursor-pointer"
+          onClick={() => setIsSaveOpen(true)}
+          title="Save current view"
+          aria-label="Save current view"
+        >
+          <BookmarkPlus className="h-4 w-4" />
+        </Button>
+        {views.map(view => (
+          <Button
+            key={view.id}
+            variant={view.id === activeViewId ? "secondary" : "ghost"}
+            className={cn(
+              "w-full h-10 justify-center px-2 cursor-pointer",
+              view.id === activeViewId && "bg-primary/10 text-primary hover:bg-primary/15"
+            )}
+            onClick={() => onApply(view)}
+            title={view.name}
+            aria-label={`Apply view ${view.name}`}
+          >
+            <Bookmark className={cn("h-4 w-4", view.id === defaultViewId && "fill-current")} />
+          </Button>
+        ))}
+        {saveDialog}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2" aria-label="Saved views" role="group">
+      <div className="flex items-center justify-between px-3">
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Saved views</span>
+        <div className="flex items-center">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 cursor-pointer"
+            onClick={() => setIsSaveOpen(true)}
+            title="Save current view"
+            aria-label="Save current view"
+          >
+            <BookmarkPlus className="h-4 w-4" />
+          </Button>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0 cursor-pointer"
+                title="Import or export views"
+                aria-label="Import or export views"
+              >
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+                <Upload className="h-4 w-4" aria-hidden="true" />
+                Import views…
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                disabled={views.length === 0}
+                onClick={() => downloadViews(views, 'saved-views.json')}
+              >
+                <Download className="h-4 w-4" aria-hidden="true" />
+                Export all views
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="sr-only"
+            onChange={handleImportFile}
+            tabIndex={-1}
+            aria-hidden="true"
+          />
+        </div>
+      </div>
+
+      {views.length === 0 ? (
+        <p className="px-3 text-xs text-muted-foreground">
+          Save a search and its filters to come back to it in one click.
+        </p>
+      ) : (
+        <ul className="space-y-1">
+          {views.map(view => {
+            const isActive = view.id === activeViewId;
+            const isDefault = view.id === defaultViewId;
+            return (
+              <li key={view.id} className="group flex items-center gap-1">
+                <Button
+                  variant={isActive ? "secondary" : "ghost"}
+                  className={cn(
+                    "flex-1 min-w-0 h-9 justify-start px-3 cursor-pointer",
+                    isActive && "bg-primary/10 text-primary hover:bg-primary/15"
+                  )}
+                  onClick={() => onApply(view)}
+                  aria-current={isActive ? "true" : undefined}
+                >
+                  <Bookmark className="h-4 w-4 mr-3 shrink-0" />
+                  <span className="flex-1 truncate text-left">{view.name}</span>
+                  {isDefault && (
+                    <Star className="h-3.5 w-3.5 ml-1 shrink-0 fill-current text-amber-500" aria-label="Default view" />
+                  )}
+                </Button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-8 w-8 p-0 shrink-0 cursor-pointer opacity-60 group-hover:opacity-100 focus-visible:opacity-100"
+                      aria-label={`Actions for view ${view.name}`}
+                    >
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => onUpdate(view)}>
+                      <RefreshCw className="h-4 w-4" aria-hidden="true" />
+                      Update to current view
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setRenaming(view)}>
+                      <Pencil className="h-4 w-4" aria-hidden="true" />
+                      Rename…
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => onSetDefault(isDefault ? null : view.id)}>
+                      {isDefault ? (
+                        <StarOff className="h-4 w-4" aria-hidden="true" />
+                      ) : (
+                        <Star className="h-4 w-4" aria-hidden="true" />
+                      )}
+                      {isDefault ? "Remove as default" : "Set as default"}
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => downloadViews([view], toFileName(view.name))}>
+                      <Download className="h-4 w-4" aria-hidden="true" />
+                      Export
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem variant="destructive" onClick={() => handleDelete(view)}>
+                      <Trash2 className="h-4 w-4" aria-hidden="true" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {saveDialog}
+      {renaming && (
+        <ViewNameDialog
+          isOpen
+          title="Rename view"
+          description={`Choose a new name for "${renaming.name}".`}
+          initialName={renaming.name}
+          submitLabel="Rename"
+          onSubmit={(name) => onRename(renaming.id, name)}
+          onClose={() => setRenaming(null)}
+        />
+      )}
+    </div>
+  );
+});
+
+SavedViewsNav.displayName = "SavedViewsNav";
+
+export { SavedViewsNav };
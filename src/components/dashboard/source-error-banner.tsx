@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { CloudOff, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { getSourceLabel } from "../../lib/credit-sources";
+import type { SourceLoadError } from "../../lib/types";
+import { cn } from "../../lib/utils";
+
+interface SourceErrorBannerProps {
+  failedSources: SourceLoadError[];
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Warning shown when some data sources failed to load while the others loaded
+ */
+export function SourceErrorBanner({ failedSources, onRetry, className }: SourceErrorBannerProps) {
+  const [dismissed, setDismissed] = useState(false);
+
+  if (failedSources.length === 0 || dismissed) {
+    return null;
+  }
+
+  const sourceLabel = failedSources.length === 1 ? 'data source' : 'data sources';
+
+  return (
+    <div
+      className={cn(
+        "bg-red-50 dark:bg-red-950/50 border border-red-200 dark:border-red-800 rounded-lg p-4 text-sm space-y-2",
+        className
+      )}
+      role="alert"
+    >
+      <div className="flex items-start gap-3">
+        <CloudOff className="h-4 w-4 mt-0.5 shrink-0 text-red-700 dark:text-red-300" aria-hidden="true" />
+        <p className="flex-1 text-red-800 dark:text-red-200">
+          {failedSources.length} {sourceLabel} could not be loaded. Credits from the other sources are shown.
+        </p>
+        <div className="flex items-center gap-1 shrink-0">
+          {onRetry && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onRetry}
+              className="h-7 px-2 text-red-800 dark:text-red-200 cursor-pointer"
+            >
+              Retry
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDismissed(true)}
+            className="h-7 w-7 p-0 text-red-800 dark:text-red-200 cursor-pointer"
+            aria-label="Dismiss data source warning"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      <ul className="pl-7 space-y-1 text-red-800 dark:text-red-200">
+        {failedSources.map(({ source, message }) => (
+          <li key={source}>
+            <span className="font-medium" title={source}>{getSourceLabel(source)}</span>: {message}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
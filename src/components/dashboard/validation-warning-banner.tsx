@@ -0,0 +1,68 @@
+import { useState } from "react";
+import { AlertTriangle, ChevronDown, X } from "lucide-react";
+import { Button } from "../ui/button";
+import { RejectedRowsTable } from "../import/rejected-rows-table";
+import type { RejectedCreditRow } from "../../lib/types";
+import { cn } from "../../lib/utils";
+
+interface ValidationWarningBannerProps {
+  rejectedRows: RejectedCreditRow[];
+  className?: string;
+}
+
+/**
+ * Warning shown when lenient validation skipped rows while loading credits
+ */
+export function ValidationWarningBanner({ rejectedRows, className }: ValidationWarningBannerProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+
+  if (rejectedRows.length === 0 || dismissed) {
+    return null;
+  }
+
+  const rowLabel = rejectedRows.length === 1 ? 'row was' : 'rows were';
+
+  return (
+    <div
+      className={cn(
+        "bg-yellow-50 dark:bg-yellow-950/50 border border-yellow-200 dark:border-yellow-800 rounded-lg p-4 text-sm space-y-3",
+        className
+      )}
+      role="alert"
+    >
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-700 dark:text-yellow-300" aria-hidden="true" />
+        <p className="flex-1 text-yellow-800 dark:text-yellow-200">
+          {rejectedRows.length} {rowLabel} skipped because {rejectedRows.length === 1 ? 'it' : 'they'} failed validation.
+          The remaining credits loaded normally.
+        </p>
+        <div className="flex items-center gap-1 shrink-0">
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setExpanded(!expanded)}
+            className="h-7 px-2 text-yellow-800 dark:text-yellow-200 cursor-pointer"
+            aria-expanded={expanded}
+          >
+            Details
+            <ChevronDown className={cn("h-4 w-4 transition-transform duration-200", expanded && "rotate-180")} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setDismissed(true)}
+            className="h-7 w-7 p-0 text-yellow-800 dark:text-yellow-200 cursor-pointer"
+            aria-label="Dismiss validation warning"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {expanded && (
+        <RejectedRowsTable rows={rejectedRows} className="bg-background" />
+      )}
+    </div>
+  );
+}
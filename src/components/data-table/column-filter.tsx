@@ -0,0 +1,107 @@
+import { Filter } from "lucide-react";
+import type { Column } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { formatRange } from "@/lib/query-parser";
+import type { ColumnFilterValue } from "@/lib/table-state";
+import type { Credit } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface ColumnFilterProps {
+  column: Column<Credit, unknown>;
+  label: string;
+  counts?: Map<string, number>;   // Counts given the other filters; the column's faceted values otherwise
+  sortOptions?: (a: string, b: string) => number;
+}
+
+const compareText = (a: string, b: string) => a.localeCompare(b);
+
+/**
+ * Per-column filter menu for the data table header
+ * Options are the column's values with their counts; options with no matching
+ * credits are greyed out unless selected, as in the search filter dropdowns
+ */
+export function ColumnFilter({ column, label, counts, sortOptions = compareText }: ColumnFilterProps) {
+  const filter = column.getFilterValue() as ColumnFilterValue | undefined;
+  const selected = filter?.values ?? [];
+  const isSelected = (value: string) => selected.some(item => item.toLowerCase() === value.toLowerCase());
+  const activeCount = selected.length + (filter?.range ? 1 : 0);
+
+  // Faceted values only cover the rows on hand, so worker counts win when there are some
+  const faceted = column.getFacetedUniqueValues();
+  const optionCounts = counts ?? new Map([...faceted].filter(([value]) => value != null).map(([value, count]) => [String(value), count]));
+  const known = new Set([...optionCounts.keys()].map(value => value.toLowerCase()));
+  const options = [...optionCounts.keys(), ...selected.filter(value => !known.has(value.toLowerCase()))].sort(sortOptions);
+
+  const setValues = (values: string[]) => {
+    column.setFilterValue({ ...filter, values } satisfies ColumnFilterValue);
+  };
+
+  const toggle = (value: string) => {
+    setValues(isSelected(value) ? selected.filter(item => item.toLowerCase() !== value.toLowerCase()) : [...selected, value]);
+  };
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn("h-7 w-7 p-0 text-muted-foreground/60", activeCount > 0 && "text-primary")}
+          aria-label={`Filter ${label.toLowerCase()}${activeCount > 0 ? `, ${activeCount} selected` : ''}`}
+        >
+          <Filter className={cn("h-3.5 w-3.5", activeCount > 0 && "fill-current")} aria-hidden="true" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start" className="w-56 max-h-80 overflow-y-auto">
+        <DropdownMenuLabel>Filter {label.toLowerCase()}</DropdownMenuLabel>
+        {options.length === 0 && (
+          <p className="px-2 py-1.5 text-sm text-muted-foreground">No values</p>
+        )}
+        {options.map(option => {
+          const count = optionCounts.get(option) ?? 0;
+          const checked = isSelected(option);
+          const isEmpty = count === 0 && !checked;
+          return (
+            <DropdownMenuCheckboxItem
+              key={option}
+              checked={checked}
+              disabled={isEmpty}
+              // Keep the menu open so several options can be toggled in one go
+              onSelect={(event) => event.preventDefault()}
+              onCheckedChange={() => toggle(option)}
+              className="h-9"
+            >
+              <span className="flex-1 truncate">{option}</span>
+              <span
+                className={cn("ml-2 text-xs tabular-nums", isEmpty ? "text-muted-foreground/60" : "text-muted-foreground")}
+                aria-label={`${count} credits`}
+              >
+                {count.toLocaleString()}
+              </span>
+            </DropdownMenuCheckboxItem>
+          );
+        })}
+        {filter?.range && (
+          <p className="px-2 py-1.5 text-xs text-muted-foreground">Also matching {formatRange(filter.range)}</p>
+        )}
+        {activeCount > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => column.setFilterValue(undefined)} className="h-9 text-muted-foreground">
+              Clear {label.toLowerCase()} filter
+            </DropdownMenuItem>
+          </>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
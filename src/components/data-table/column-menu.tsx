@@ -0,0 +1,66 @@
+import { Columns3, RotateCcw } from "lucide-react";
+import type { Table } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+
+interface ColumnMenuProps<TData> {
+  table: Table<TData>;
+  onReset: () => void;
+}
+
+/**
+ * Show and hide table columns, in their current order
+ * Not memoized: the table object stays the same while its columns change
+ */
+export function ColumnMenu<TData>({ table, onReset }: ColumnMenuProps<TData>) {
+  const columns = table.getAllLeafColumns().filter(column => column.columnDef.meta?.label);
+  const hiddenCount = columns.filter(column => !column.getIsVisible()).length;
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-9 gap-2 focus-ring-enhanced"
+          aria-label={`Choose table columns${hiddenCount > 0 ? `, ${hiddenCount} hidden` : ''}`}
+        >
+          <Columns3 className="h-4 w-4" aria-hidden="true" />
+          Columns
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56 max-h-96 overflow-y-auto">
+        <DropdownMenuLabel>Visible columns</DropdownMenuLabel>
+        {columns.map(column => (
+          <DropdownMenuCheckboxItem
+            key={column.id}
+            checked={column.getIsVisible()}
+            disabled={!column.getCanHide()}
+            // Keep the menu open so several columns can be toggled in one go
+            onSelect={(event) => event.preventDefault()}
+            onCheckedChange={(checked) => column.toggleVisibility(checked)}
+            className="h-9"
+          >
+            {column.columnDef.meta?.label}
+          </DropdownMenuCheckboxItem>
+        ))}
+        <DropdownMenuSeparator />
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">
+          Drag headers to reorder and their edges to resize; Alt+arrow keys move the focused header
+        </p>
+        <DropdownMenuItem onClick={onReset} className="h-9 text-muted-foreground">
+          <RotateCcw className="h-4 w-4" aria-hidden="true" />
+          Reset layout
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
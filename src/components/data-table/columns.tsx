@@ -4,6 +4,7 @@
 import type { ColumnDef } from "@tanstack/react-table";
 import type { Credit } from "@/lib/types";
 import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import {
   DropdownMenu,
@@ -15,23 +16,136 @@ import {
 } from "@/components/ui/dropdown-menu";
 import { MoreHorizontal } from "lucide-react";
 import { downloadCertificate } from "../certificate/download-certificate.tsx";
+import { formatCreditDate, formatQuantity, getCreditLocation } from "@/lib/data";
+import { HighlightText } from "@/components/search/highlight-text";
+import { creditFilterFn, creditSortingFn } from "@/lib/table-state";
+import type { FacetCounts } from "@/lib/facets";
+import { SortableHeader } from "./sortable-header";
+import { ColumnFilter } from "./column-filter";
 
-export const columns = (setSelectedCredit: (credit: Credit) => void): ColumnDef<Credit>[] => [
+const byYearDescending = (a: string, b: string) => Number(b) - Number(a);
+
+export interface RowSelectionHandlers {
+  onToggle: (credit: Credit, extendRange: boolean) => void;
+  onToggleAll: (select: boolean) => void;   // Applies to every row the filters leave
+}
+
+/**
+ * Checkbox column; shift-click selects the range from the last clicked row
+ */
+const selectColumn = (selection: RowSelectionHandlers): ColumnDef<Credit> => ({
+  id: "select",
+  size: 44,
+  enableSorting: false,
+  enableColumnFilter: false,
+  enableHiding: false,
+  enableResizing: false,
+  header: ({ table }) => {
+    const isAllSelected = table.getIsAllRowsSelected();
+    const isSomeSelected = !isAllSelected && table.getFilteredRowModel().rows.some(row => row.getIsSelected());
+    return (
+      <Checkbox
+        checked={isAllSelected || (isSomeSelected && "indeterminate")}
+        onCheckedChange={(checked) => selection.onToggleAll(checked === true)}
+        aria-label={isAllSelected ? "Clear selection" : "Select all filtered credits"}
+      />
+    );
+  },
+  cell: ({ row }) => (
+    <Checkbox
+      checked={row.getIsSelected()}
+      onClick={(event) => {
+        // Selection is handled here so the click's shift key can extend the range
+        event.preventDefault();
+        selection.onToggle(row.original, event.shiftKey);
+      }}
+      aria-label={`Select ${row.original.unic_id}`}
+    />
+  ),
+});
+
+/**
+ * Column definitions for the credits table
+ * Sorting and the status, vintage and type filters follow the shared search state
+ * through the DataTable; facets supply the filter option counts when available.
+ * With selection handlers, a leading checkbox column selects rows
+ */
+export const columns = (
+  setSelectedCredit: (credit: Credit) => void,
+  highlightQuery: string = "",
+  facets?: FacetCounts | null,
+  selection?: RowSelectionHandlers
+): ColumnDef<Credit>[] => [
+  ...(selection ? [selectColumn(selection)] : []),
   {
     accessorKey: "unic_id",
-    header: "UNIC ID",
+    header: ({ column, table }) => <SortableHeader label="UNIC ID" column={column} table={table} />,
+    cell: ({ row }) => <HighlightText text={row.original.unic_id} query={highlightQuery} />,
+    meta: { label: "UNIC ID" },
+    size: 240,
+    sortingFn: creditSortingFn,
+    enableColumnFilter: false,
+    enableHiding: false,    // Pinned to the left as the row's identifier
   },
   {
     accessorKey: "project_name",
-    header: "Project Name",
+    header: ({ column, table }) => <SortableHeader label="Project Name" column={column} table={table} />,
+    cell: ({ row }) => <HighlightText text={row.original.project_name} query={highlightQuery} />,
+    meta: { label: "Project Name" },
+    size: 260,
+    sortingFn: creditSortingFn,
+    enableColumnFilter: false,
   },
   {
     accessorKey: "vintage",
-    header: "Vintage",
+    header: ({ column, table }) => (
+      <div className="flex items-center gap-1">
+        <SortableHeader label="Vintage" column={column} table={table} />
+        <ColumnFilter column={column} label="Vintage" counts={facets?.vintage} sortOptions={byYearDescending} />
+      </div>
+    ),
+    meta: { label: "Vintage" },
+    size: 130,
+    sortingFn: creditSortingFn,
+    filterFn: creditFilterFn,
+  },
+  {
+    accessorKey: "project_type",
+    header: ({ column, table }) => (
+      <div className="flex items-center gap-1">
+        <SortableHeader label="Type" column={column} table={table} />
+        <ColumnFilter column={column} label="Type" counts={facets?.type} />
+      </div>
+    ),
+    cell: ({ row }) => row.original.project_type ?? "—",
+    meta: { label: "Type" },
+    size: 180,
+    sortingFn: creditSortingFn,
+    sortUndefined: "last",
+    filterFn: creditFilterFn,
+  },
+  {
+    accessorKey: "quantity",
+    header: ({ column, table }) => <SortableHeader label="Quantity" column={column} table={table} />,
+    cell: ({ row }) => formatQuantity(row.original.quantity, "—"),
+    meta: { label: "Quantity" },
+    size: 150,
+    sortingFn: creditSortingFn,
+    sortUndefined: "last",
+    enableColumnFilter: false,
   },
   {
     accessorKey: "status",
-    header: "Status",
+    header: ({ column, table }) => (
+      <div className="flex items-center gap-1">
+        <SortableHeader label="Status" column={column} table={table} />
+        <ColumnFilter column={column} label="Status" counts={facets?.status} />
+      </div>
+    ),
+    meta: { label: "Status" },
+    size: 130,
+    sortingFn: creditSortingFn,
+    filterFn: creditFilterFn,
     cell: ({ row }) => {
       const isActive = row.original.status === "Active";
       return (
@@ -48,8 +162,50 @@ export const columns = (setSelectedCredit: (credit: Credit) => void): ColumnDef<
       );
     },
   },
+  {
+    accessorKey: "methodology",
+    header: "Methodology",
+    cell: ({ row }) => row.original.methodology ?? "—",
+    meta: { label: "Methodology" },
+    size: 180,
+    enableSorting: false,
+    enableColumnFilter: false,
+  },
+  {
+    id: "location",
+    accessorFn: (credit) => getCreditLocation(credit) ?? undefined,
+    header: "Location",
+    cell: ({ getValue }) => getValue<string | undefined>() ?? "—",
+    meta: { label: "Location" },
+    size: 170,
+    enableSorting: false,
+    enableColumnFilter: false,
+  },
+  {
+    accessorKey: "issuance_date",
+    header: "Issued",
+    cell: ({ row }) => formatCreditDate(row.original.issuance_date, "—"),
+    meta: { label: "Issuance Date" },
+    size: 170,
+    enableSorting: false,
+    enableColumnFilter: false,
+  },
+  {
+    accessorKey: "retirement_date",
+    header: "Retired",
+    cell: ({ row }) => formatCreditDate(row.original.retirement_date, "—"),
+    meta: { label: "Retirement Date" },
+    size: 170,
+    enableSorting: false,
+    enableColumnFilter: false,
+  },
   {
     id: "actions",
+    size: 64,
+    enableSorting: false,
+    enableColumnFilter: false,
+    enableHiding: false,
+    enableResizing: false,
     cell: ({ row }) => {
       const credit = row.original;
 
@@ -1,15 +1,29 @@
 
 "use client";
 
-import { useState, useRef } from 'react';
+import { useRef, useEffect, useState, useMemo, useCallback } from 'react';
+import type { CSSProperties, DragEvent, KeyboardEvent } from 'react';
 import {
   flexRender,
   getCoreRowModel,
+  getFacetedRowModel,
+  getFacetedUniqueValues,
+  getFilteredRowModel,
+  getSortedRowModel,
   useReactTable,
-  getPaginationRowModel,
+  functionalUpdate,
+} from "@tanstack/react-table";
+import type {
+  Column,
+  ColumnDef,
+  ColumnFiltersState,
+  ColumnOrderState,
+  ColumnSizingState,
+  RowSelectionState,
+  SortingState,
+  Updater,
+  VisibilityState,
 } from "@tanstack/react-table";
-import type { ColumnDef } from "@tanstack/react-table";
-import { useVirtualizer } from '@tanstack/react-virtual';
 
 import {
   Table,
@@ -19,70 +33,221 @@ import {
   TableHeader,
   TableRow,
 } from "@/components/ui/table";
-import { Button } from '@/components/ui/button';
+import { Skeleton } from '@/components/ui/skeleton';
 import { EmptyState } from '../search/empty-state';
-import type { CreditWithMetadata, DashboardStats } from "@/lib/types";
+import { ColumnMenu } from './column-menu';
+import { useTableLayout } from '@/hooks/use-table-layout';
+import { useWindowedList } from '@/hooks/use-windowed-list';
+import { DEFAULT_TABLE_LAYOUT, PINNED_COLUMNS, moveColumn } from '@/lib/table-layout';
+import type { SearchState } from "@/lib/types";
+import type { CreditChangeKind } from "@/lib/change-detection";
+import { fromSortingState, toColumnFilters, toSortingState, withColumnFilters } from "@/lib/table-state";
+import { cn } from "@/lib/utils";
 
 interface DataTableProps<TData, TValue> {
   columns: ColumnDef<TData, TValue>[];
-  data: TData[];
-  allData?: CreditWithMetadata[];
-  stats?: DashboardStats;
+  data: TData[];                // Search results in result order
+  searchState?: SearchState;    // Drives sorting and column filters; table-local when omitted
+  onSearchStateChange?: (state: SearchState) => void;
+  hasActiveFilters?: boolean;
+  onClearFilters?: () => void;
+  totalCount?: number;          // Server total in remote query mode; defaults to data.length
+  onRequestItems?: (count: number) => void;  // Asks for more rows to be streamed in
+  isFetching?: boolean;
+  highlightedIds?: ReadonlyMap<string, CreditChangeKind>;  // Rows changed by the latest reload
+  columnVisibility?: VisibilityState;  // Hidden columns map to false, e.g. from a saved view
+  onColumnVisibilityChange?: (visibility: VisibilityState) => void;
+  rowSelection?: RowSelectionState;    // Selected row ids; the checkbox column changes it through its owner
+  getRowId?: (row: TData) => string;
+}
+
+const ROW_HEIGHT = 41;
+// Streamed rows are requested this far past the last row in view
+const STREAM_AHEAD = 50;
+
+// Pinned columns stick to the left edge while the rest scroll under them
+function getColumnStyle<TData>(column: Column<TData, unknown>): CSSProperties {
+  return {
+    width: column.getSize(),
+    ...(column.getIsPinned() === 'left' && { position: 'sticky', left: column.getStart('left'), zIndex: 1 }),
+  };
+}
+
+// Named, unpinned columns can be dragged to a new position
+function isReorderable<TData>(column: Column<TData, unknown>): boolean {
+  return !column.getIsPinned() && column.columnDef.meta?.label !== undefined;
 }
 
+/**
+ * Credits table on TanStack's faceting row model
+ * With a search state, sorting and column filters are read from it and changes are
+ * written back through onSearchStateChange, so the table matches the card view; the rows
+ * then arrive sorted and filtered by the search pipeline (the search worker, or the
+ * registry for streamed rows) and are shown in that order. Only a table without a search
+ * state, such as the virtualization benchmark, sorts and filters with TanStack's row models.
+ * Column visibility, order and widths are kept in local storage; UNIC ID stays pinned left.
+ * Rows are selectable when a row selection is given. All rows sit in one scrolling
+ * body and only those in view are rendered, so large results keep a constant DOM size
+ */
 export function DataTable<TData, TValue>({
   columns,
   data,
-  allData,
-  stats,
+  searchState,
+  onSearchStateChange,
+  hasActiveFilters = false,
+  onClearFilters,
+  totalCount,
+  onRequestItems,
+  isFetching = false,
+  highlightedIds,
+  columnVisibility,
+  onColumnVisibilityChange,
+  rowSelection,
+  getRowId,
 }: DataTableProps<TData, TValue>) {
-  const [filteredData, setFilteredData] = useState<TData[]>(data);
-  const [hasActiveFilters, setHasActiveFilters] = useState(false);
-  const [searchQuery, setSearchQuery] = useState('');
-  
+  const { layout, setVisibility, setOrder, setSizing, resetLayout } = useTableLayout();
+  const visibility = columnVisibility ?? layout.visibility;
+  const [draggedColumnId, setDraggedColumnId] = useState<string | null>(null);
+  const resizeStartedRef = useRef(false);
+
+  // Visibility set by the owner, say from a saved view, becomes the stored layout too
+  useEffect(() => {
+    if (columnVisibility) {
+      setVisibility(columnVisibility);
+    }
+  }, [columnVisibility, setVisibility]);
+
+  const isStreamed = onRequestItems !== undefined;
+  // The search state has been applied to the data before it reaches the table
+  const isPresorted = isStreamed || searchState !== undefined;
+
   const table = useReactTable({
-    data: filteredData,
+    data,
     columns,
     getCoreRowModel: getCoreRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
+    ...(!isPresorted && {
+      getFilteredRowModel: getFilteredRowModel(),
+      getSortedRowModel: getSortedRowModel(),
+    }),
+    getFacetedRowModel: getFacetedRowModel(),
+    getFacetedUniqueValues: getFacetedUniqueValues(),
+    manualFiltering: isPresorted,
+    manualSorting: isPresorted,
+    // Same cycle as the card view's sort menu: ascending, descending, then off; shift adds a key
+    sortDescFirst: false,
+    enableRowSelection: rowSelection !== undefined,
+    ...(getRowId && { getRowId }),
+    enableColumnResizing: true,
+    columnResizeMode: 'onChange',
+    state: {
+      columnVisibility: visibility,
+      columnOrder: layout.order,
+      columnSizing: layout.sizing,
+      columnPinning: PINNED_COLUMNS,
+      ...(rowSelection && { rowSelection }),
+      ...(searchState && {
+        sorting: toSortingState(searchState.sort),
+        columnFilters: toColumnFilters(searchState),
+      }),
+    },
+    onColumnVisibilityChange: (updater: Updater<VisibilityState>) => {
+      const next = functionalUpdate(updater, table.getState().columnVisibility);
+      setVisibility(next);
+      onColumnVisibilityChange?.(next);
+    },
+    onColumnOrderChange: (updater: Updater<ColumnOrderState>) =>
+      setOrder(functionalUpdate(updater, table.getState().columnOrder)),
+    onColumnSizingChange: (updater: Updater<ColumnSizingState>) =>
+      setSizing(functionalUpdate(updater, table.getState().columnSizing)),
+    ...(searchState && onSearchStateChange && {
+      onSortingChange: (updater: Updater<SortingState>) =>
+        onSearchStateChange({ ...searchState, sort: fromSortingState(functionalUpdate(updater, table.getState().sorting)) }),
+      onColumnFiltersChange: (updater: Updater<ColumnFiltersState>) =>
+        onSearchStateChange(withColumnFilters(searchState, functionalUpdate(updater, table.getState().columnFilters))),
+    }),
   });
 
   const tableContainerRef = useRef<HTMLDivElement>(null);
   const { rows } = table.getRowModel();
+  // Streamed rows not loaded yet still take their place, so the scrollbar covers the whole result
+  const rowCount = isStreamed ? Math.max(rows.length, totalCount ?? 0) : rows.length;
+
+  const rowIndexes = useMemo(() => new Map(rows.map((row, index) => [row.id, index])), [rows]);
+  const getRowKey = useCallback((index: number) => rows[index]?.id ?? `pending-${index}`, [rows]);
+  const indexOfRow = useCallback((key: string) => rowIndexes.get(key) ?? -1, [rowIndexes]);
 
-  const rowVirtualizer = useVirtualizer({
-    count: rows.length,
-    getScrollElement: () => tableContainerRef.current,
-    estimateSize: () => 35, // Adjust this to your estimated row height
+  const rowVirtualizer = useWindowedList({
+    scrollRef: tableContainerRef,
+    count: rowCount,
+    getItemKey: getRowKey,
+    indexOfKey: indexOfRow,
+    estimateSize: ROW_HEIGHT,
     overscan: 10,
   });
 
   const virtualRows = rowVirtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualRows[virtualRows.length - 1]?.index ?? 0;
+
+  // Ask for the rows coming into view when they are streamed from a registry
+  useEffect(() => {
+    const needed = Math.min(rowCount, lastVisibleIndex + 1 + STREAM_AHEAD);
+    if (onRequestItems && needed > data.length) {
+      onRequestItems(needed);
+    }
+  }, [onRequestItems, lastVisibleIndex, rowCount, data.length]);
   const totalSize = rowVirtualizer.getTotalSize();
 
   const paddingTop = virtualRows.length > 0 ? virtualRows?.[0]?.start || 0 : 0;
   const paddingBottom = virtualRows.length > 0 ? totalSize - (virtualRows?.[virtualRows.length - 1]?.end || 0) : 0;
 
-  const handleFilteredResults = (filtered: CreditWithMetadata[]) => {
-    setFilteredData(filtered as TData[]);
+  const columnCount = table.getVisibleLeafColumns().length;
+  const leafColumnIds = table.getAllLeafColumns().map(column => column.id);
+
+  const handleResetLayout = () => {
+    resetLayout();
+    onColumnVisibilityChange?.(DEFAULT_TABLE_LAYOUT.visibility);
   };
 
-  const [clearFiltersFunction, setClearFiltersFunction] = useState<(() => void) | null>(null);
+  const moveColumnTo = (from: string, to: string) => {
+    table.setColumnOrder(order => moveColumn(order, leafColumnIds, from, to));
+  };
 
-  const handleSearchStateChange = (hasFilters: boolean, query: string, clearFilters: () => void) => {
-    setHasActiveFilters(hasFilters);
-    setSearchQuery(query);
-    setClearFiltersFunction(() => clearFilters);
+  const handleDragStart = (event: DragEvent, column: Column<TData, unknown>) => {
+    // Pressing a resize handle starts a resize, not a move
+    if (resizeStartedRef.current) {
+      event.preventDefault();
+      return;
+    }
+    event.dataTransfer.effectAllowed = 'move';
+    event.dataTransfer.setData('text/plain', column.id);
+    setDraggedColumnId(column.id);
+  };
+
+  const handleDrop = (event: DragEvent, column: Column<TData, unknown>) => {
+    event.preventDefault();
+    if (draggedColumnId && isReorderable(column)) {
+      moveColumnTo(draggedColumnId, column.id);
+    }
+    setDraggedColumnId(null);
   };
 
-  const handleClearFilters = () => {
-    if (clearFiltersFunction) {
-      clearFiltersFunction();
+  // Alt+arrow keys move the focused header past its neighbour
+  const handleHeaderKeyDown = (event: KeyboardEvent, column: Column<TData, unknown>) => {
+    if (!event.altKey || (event.key !== 'ArrowLeft' && event.key !== 'ArrowRight')) return;
+    const movable = table.getVisibleLeafColumns().filter(isReorderable);
+    const index = movable.findIndex(item => item.id === column.id);
+    const neighbour = movable[index + (event.key === 'ArrowLeft' ? -1 : 1)];
+    if (index >= 0 && neighbour) {
+      event.preventDefault();
+      moveColumnTo(column.id, neighbour.id);
     }
   };
 
   return (
     <div role="region" aria-label="Carbon credits data table">
+      <div className="flex justify-end pb-2">
+        <ColumnMenu table={table} onReset={handleResetLayout} />
+      </div>
       <div 
         ref={tableContainerRef} 
         className='rounded-md border h-[600px] overflow-auto'
@@ -90,23 +255,62 @@ export function DataTable<TData, TValue>({
         aria-label="Scrollable table content"
         tabIndex={0}
       >
-        <Table role="table" aria-label={`Carbon credits table with ${rows.length} rows`}>
-          <TableHeader className='sticky top-0 bg-background'>
+        <Table
+          role="table"
+          aria-label={`Carbon credits table with ${rowCount} rows`}
+          aria-rowcount={rowCount + 1}
+          className="table-fixed"
+          style={{ width: table.getTotalSize(), minWidth: '100%' }}
+        >
+          <TableHeader className='sticky top-0 z-10 bg-background'>
             {table.getHeaderGroups().map((headerGroup) => (
               <TableRow key={headerGroup.id} role="row">
                 {headerGroup.headers.map((header) => {
+                  const { column } = header;
+                  const reorderable = isReorderable(column);
                   return (
                     <TableHead 
                       key={header.id}
                       role="columnheader"
                       scope="col"
+                      style={getColumnStyle(column)}
+                      className={cn(
+                        "relative group/header",
+                        column.getIsPinned() && "bg-background shadow-[inset_-1px_0_0_var(--border)]",
+                        draggedColumnId === column.id && "opacity-50"
+                      )}
+                      draggable={reorderable}
+                      onMouseDown={(event) => {
+                        resizeStartedRef.current = (event.target as HTMLElement).dataset.resizeHandle !== undefined;
+                      }}
+                      onDragStart={reorderable ? (event) => handleDragStart(event, column) : undefined}
+                      onDragOver={draggedColumnId && reorderable ? (event) => event.preventDefault() : undefined}
+                      onDrop={reorderable ? (event) => handleDrop(event, column) : undefined}
+                      onDragEnd={() => setDraggedColumnId(null)}
+                      onKeyDown={reorderable ? (event) => handleHeaderKeyDown(event, column) : undefined}
                     >
                       {header.isPlaceholder
                         ? null
                         : flexRender(
-                          header.column.columnDef.header,
+                          column.columnDef.header,
                           header.getContext()
                         )}
+                      {column.getCanResize() && (
+                        <div
+                          data-resize-handle=""
+                          role="separator"
+                          aria-orientation="vertical"
+                          aria-label={`Resize ${column.columnDef.meta?.label ?? column.id} column`}
+                          title="Drag to resize, double-click to reset"
+                          onMouseDown={header.getResizeHandler()}
+                          onTouchStart={header.getResizeHandler()}
+                          onDoubleClick={() => column.resetSize()}
+                          className={cn(
+                            "absolute right-0 top-0 h-full w-1.5 cursor-col-resize select-none touch-none opacity-0 group-hover/header:opacity-100 bg-border hover:bg-primary/50",
+                            column.getIsResizing() && "opacity-100 bg-primary"
+                          )}
+                        />
+                      )}
                     </TableHead>
                   );
                 })}
@@ -121,11 +325,29 @@ export function DataTable<TData, TValue>({
             )}
             {virtualRows.map((virtualRow) => {
               const row = rows[virtualRow.index];
+              if (!row) {
+                return (
+                  <TableRow key={virtualRow.key} data-index={virtualRow.index} ref={rowVirtualizer.measureElement} aria-hidden="true">
+                    <TableCell colSpan={columnCount}>
+                      <Skeleton className="h-5 w-full" />
+                    </TableCell>
+                  </TableRow>
+                );
+              }
+              const highlight = highlightedIds?.get((row.original as { unic_id?: string }).unic_id ?? '');
               return (
                 <TableRow
                   key={row.id}
+                  data-index={virtualRow.index}
+                  ref={rowVirtualizer.measureElement}
+                  aria-rowindex={virtualRow.index + 2}
                   data-state={row.getIsSelected() && "selected"}
-                  className="hover:bg-muted/50 data-[state=selected]:bg-muted focus-within:bg-muted/30"
+                  data-highlight={highlight}
+                  className={cn(
+                    "group/row hover:bg-muted/50 data-[state=selected]:bg-muted focus-within:bg-muted/30 transition-colors duration-700",
+                    highlight === "added" && "bg-emerald-50 dark:bg-emerald-950/40",
+                    highlight === "status" && "bg-amber-50 dark:bg-amber-950/40"
+                  )}
                   role="row"
                   tabIndex={-1}
                 >
@@ -134,6 +356,11 @@ export function DataTable<TData, TValue>({
                       key={cell.id}
                       role="gridcell"
                       tabIndex={cellIndex === 0 ? 0 : -1}
+                      style={getColumnStyle(cell.column)}
+                      className={cn(
+                        "truncate",
+                        cell.column.getIsPinned() && "bg-background group-data-[state=selected]/row:bg-muted shadow-[inset_-1px_0_0_var(--border)]"
+                      )}
                     >
                       {flexRender(cell.column.columnDef.cell, cell.getContext())}
                     </TableCell>
@@ -146,13 +373,20 @@ export function DataTable<TData, TValue>({
                     <TableCell style={{ height: `${paddingBottom}px` }} />
                 </TableRow>
             )}
-            {rows.length === 0 && (
+            {rows.length === 0 && isFetching && (
                 <TableRow>
-                    <TableCell colSpan={columns.length} className="p-0">
+                    <TableCell colSpan={columnCount} className="h-24 text-center text-muted-foreground" aria-live="polite">
+                        Loading credits...
+                    </TableCell>
+                </TableRow>
+            )}
+            {rows.length === 0 && !isFetching && (
+                <TableRow>
+                    <TableCell colSpan={columnCount} className="p-0">
                         <EmptyState 
                           hasActiveFilters={hasActiveFilters}
-                          onClearFilters={handleClearFilters}
-                          searchQuery={searchQuery}
+                          onClearFilters={onClearFilters ?? (() => table.resetColumnFilters())}
+                          searchQuery={searchState?.query}
                         />
                     </TableCell>
                 </TableRow>
@@ -160,34 +394,11 @@ export function DataTable<TData, TValue>({
           </TableBody>
         </Table>
       </div>
-      <nav 
-        className="flex items-center justify-end space-x-2 py-4"
-        role="navigation"
-        aria-label="Table pagination"
-      >
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => table.previousPage()}
-          disabled={!table.getCanPreviousPage()}
-          className="focus:ring-2 focus:ring-ring focus:ring-offset-2"
-          aria-label="Go to previous page"
-          aria-disabled={!table.getCanPreviousPage()}
-        >
-          Previous
-        </Button>
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={() => table.nextPage()}
-          disabled={!table.getCanNextPage()}
-          className="focus:ring-2 focus:ring-ring focus:ring-offset-2"
-          aria-label="Go to next page"
-          aria-disabled={!table.getCanNextPage()}
-        >
-          Next
-        </Button>
-      </nav>
+      <p className="py-3 text-sm text-muted-foreground text-right tabular-nums" aria-live="polite">
+        {isStreamed && rows.length < rowCount
+          ? `${rows.length.toLocaleString()} of ${rowCount.toLocaleString()} credits loaded`
+          : `${rows.length.toLocaleString()} ${rows.length === 1 ? 'credit' : 'credits'}`}
+      </p>
     </div>
   );
 }
@@ -0,0 +1,49 @@
+import { ArrowDown, ArrowUp, ArrowUpDown } from "lucide-react";
+import type { Column, Table } from "@tanstack/react-table";
+import { Button } from "@/components/ui/button";
+import type { Credit } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface SortableHeaderProps {
+  label: string;
+  column: Column<Credit, unknown>;
+  table: Table<Credit>;
+  className?: string;
+}
+
+/**
+ * Table header that sorts by its column; shift-click adds it as a further sort key
+ * With several keys, each sorted column shows its position in the sort order.
+ * Not memoized: the column and table objects stay the same while their sorting changes
+ */
+export function SortableHeader({ label, column, table, className }: SortableHeaderProps) {
+  if (!column.getCanSort()) {
+    return <>{label}</>;
+  }
+
+  const direction = column.getIsSorted();
+  const index = column.getSortIndex();
+  const isMultiSort = direction !== false && table.getState().sorting.length > 1;
+  const Icon = direction === 'asc' ? ArrowUp : direction === 'desc' ? ArrowDown : ArrowUpDown;
+  const state = direction ? `sorted ${direction === 'asc' ? 'ascending' : 'descending'}` : 'not sorted';
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={column.getToggleSortingHandler()}
+      className={cn("-ml-3 h-8 px-3 gap-1.5 data-[sorted=true]:text-foreground", className)}
+      data-sorted={direction !== false}
+      title="Click to sort, shift-click to add a secondary sort"
+      aria-label={`${label}, ${state}${isMultiSort ? `, sort key ${index + 1}` : ''}. Sort by ${label}`}
+    >
+      {label}
+      <Icon className={cn("h-3.5 w-3.5", !direction && "text-muted-foreground/60")} aria-hidden="true" />
+      {isMultiSort && (
+        <span className="text-[10px] font-semibold tabular-nums text-muted-foreground" aria-hidden="true">
+          {index + 1}
+        </span>
+      )}
+    </Button>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { getSourceLabel, loadSavedSources, saveSources } from "@/lib/credit-sources";
+import { Info, Plus, Trash2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface DataSourcesDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSave: () => void;
+}
+
+/**
+ * Dialog for editing the saved list of data source URLs
+ * The saved list is used whenever the page is opened without ?data= parameters
+ */
+export function DataSourcesDialog({ isOpen, onClose, onSave }: DataSourcesDialogProps) {
+  const [sources, setSources] = useState<string[]>([]);
+  const [newSource, setNewSource] = useState("");
+  const hasUrlSources = new URLSearchParams(window.location.search).has("data");
+
+  // Start from the stored list every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setSources(loadSavedSources());
+      setNewSource("");
+    }
+  }, [isOpen]);
+
+  const handleAdd = (event: React.FormEvent) => {
+    event.preventDefault();
+    const source = newSource.trim();
+    if (!source || sources.includes(source)) return;
+    setSources(prev => [...prev, source]);
+    setNewSource("");
+  };
+
+  const handleRemove = (source: string) => {
+    setSources(prev => prev.filter(s => s !== source));
+  };
+
+  const handleSave = () => {
+    saveSources(sources);
+    toast.success(sources.length > 0
+      ? `Saved ${sources.length} data source${sources.length === 1 ? "" : "s"}`
+      : "Using the sample data");
+    onSave();
+    onClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg" aria-describedby="data-sources-description">
+        <DialogHeader>
+          <DialogTitle>Data Sources</DialogTitle>
+          <DialogDescription id="data-sources-description">
+            Credits from every source are merged into one portfolio. Leave the list empty to use the sample data.
+          </DialogDescription>
+        </DialogHeader>
+
+        {hasUrlSources && (
+          <div className="flex items-start gap-2 rounded-lg border p-3 text-xs text-muted-foreground" role="note">
+            <Info className="h-4 w-4 shrink-0" aria-hidden="true" />
+            <span>This page was opened with ?data= parameters, which take precedence over the saved list.</span>
+          </div>
+        )}
+
+        <ul className="space-y-2" aria-label="Saved data sources">
+          {sources.length === 0 && (
+            <li className="text-sm text-muted-foreground">No saved sources</li>
+          )}
+          {sources.map(source => (
+            <li key={source} className="flex items-center gap-2 rounded-md border px-3 py-2">
+              <div className="min-w-0 flex-1">
+                <p className="text-sm font-medium truncate">{getSourceLabel(source)}</p>
+                <p className="text-xs text-muted-foreground truncate font-mono">{source}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => handleRemove(source)}
+                className="h-8 w-8 p-0 cursor-pointer"
+                aria-label={`Remove ${source}`}
+              >
+                <Trash2 className="h-4 w-4" aria-hidden="true" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        <form onSubmit={handleAdd} className="flex gap-2">
+          <Input
+            value={newSource}
+            onChange={(event) => setNewSource(event.target.value)}
+            placeholder="https://example.com/credits.csv"
+            aria-label="Data source URL"
+          />
+          <Button type="submit" variant="outline" disabled={!newSource.trim()} className="cursor-pointer">
+            <Plus className="h-4 w-4" aria-hidden="true" />
+            Add
+          </Button>
+        </form>
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-3">
+          <Button variant="outline" onClick={onClose} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="cursor-pointer">
+            Save & Reload
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
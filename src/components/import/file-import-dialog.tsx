@@ -0,0 +1,274 @@
+import React, { useState, useRef, useCallback, useEffect } from "react";
+import type { Credit, CreditValidationResult } from "@/lib/types";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { readCreditsFile } from "@/lib/data";
+import { DEFAULT_COLUMN_ALIASES } from "@/lib/credit-import";
+import type { ColumnAliases } from "@/lib/credit-import";
+import { RejectedRowsTable } from "./rejected-rows-table";
+import { cn } from "@/lib/utils";
+import { AlertTriangle, CheckCircle, FileUp, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+
+interface FileImportDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImport: (credits: Credit[]) => void;
+  columnAliases: ColumnAliases;
+  onColumnAliasesChange: (columnAliases: ColumnAliases) => void;
+}
+
+const ACCEPTED_FILE_TYPES = ".json,.csv,.tsv,.tab,application/json,text/csv,text/tab-separated-values";
+
+const ALIAS_FIELDS = Object.keys(DEFAULT_COLUMN_ALIASES) as (keyof ColumnAliases)[];
+
+function parseAliasText(aliasText: Record<string, string>): ColumnAliases {
+  return Object.fromEntries(
+    ALIAS_FIELDS.flatMap(field => {
+      const aliases = (aliasText[field] ?? "").split(",").map(alias => alias.trim()).filter(Boolean);
+      return aliases.length > 0 ? [[field, aliases]] : [];
+    })
+  );
+}
+
+/**
+ * Dialog for loading a local JSON, CSV or TSV file
+ * Rows are validated individually; rejected rows are listed with their line
+ * and zod issue path so only the valid rows can be imported.
+ * Custom column names are tried before the defaults when reading CSV and TSV headers
+ */
+export function FileImportDialog({
+  isOpen,
+  onClose,
+  onImport,
+  columnAliases,
+  onColumnAliasesChange,
+}: FileImportDialogProps) {
+  const [isDragActive, setIsDragActive] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [result, setResult] = useState<CreditValidationResult | null>(null);
+  const [readError, setReadError] = useState<string | null>(null);
+  const [aliasText, setAliasText] = useState<Record<string, string>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Kept so the file can be read again with changed column names
+  const lastFileRef = useRef<File | null>(null);
+
+  // Start from the stored column names every time the dialog opens
+  useEffect(() => {
+    if (isOpen) {
+      setAliasText(Object.fromEntries(ALIAS_FIELDS.map(field => [field, columnAliases[field]?.join(", ") ?? ""])));
+    }
+  }, [isOpen, columnAliases]);
+
+  const reset = useCallback(() => {
+    lastFileRef.current = null;
+    setIsDragActive(false);
+    setFileName(null);
+    setResult(null);
+    setReadError(null);
+  }, []);
+
+  const handleClose = useCallback(() => {
+    reset();
+    onClose();
+  }, [reset, onClose]);
+
+  const handleFile = useCallback(async (file: File, aliases: ColumnAliases = columnAliases) => {
+    lastFileRef.current = file;
+    setIsReading(true);
+    setFileName(file.name);
+    setResult(null);
+    setReadError(null);
+
+    try {
+      setResult(await readCreditsFile(file, { columnAliases: aliases }));
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : "Could not read file");
+    } finally {
+      setIsReading(false);
+    }
+  }, [columnAliases]);
+
+  const handleApplyAliases = (event: React.FormEvent) => {
+    event.preventDefault();
+    const aliases = parseAliasText(aliasText);
+    onColumnAliasesChange(aliases);
+    if (lastFileRef.current) {
+      handleFile(lastFileRef.current, aliases);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragActive(false);
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      handleFile(file);
+    }
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      handleFile(file);
+    }
+    // Allow picking the same file again after fixing it
+    event.target.value = "";
+  };
+
+  const handleImport = () => {
+    if (!result || result.valid.length === 0) return;
+
+    onImport(result.valid);
+    toast.success(`Imported ${result.valid.length} credits`, {
+      description: result.rejected.length > 0
+        ? `${result.rejected.length} invalid rows were skipped from ${fileName}`
+        : `Loaded from ${fileName}`,
+    });
+    handleClose();
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto" aria-describedby="file-import-description">
+        <DialogHeader>
+          <DialogTitle>Import Credits</DialogTitle>
+          <DialogDescription id="file-import-description">
+            Load a local JSON, CSV or TSV file. Each row is validated before import.
+          </DialogDescription>
+        </DialogHeader>
+
+        {/* Drop zone */}
+        <div
+          className={cn(
+            "flex flex-col items-center justify-center gap-3 rounded-lg border-2 border-dashed p-8 text-center",
+            "transition-smooth cursor-pointer focus-ring-enhanced",
+            isDragActive
+              ? "border-primary bg-primary/5"
+              : "border-border/60 hover:border-primary/50 hover:bg-muted/30"
+          )}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragActive(true);
+          }}
+          onDragLeave={() => setIsDragActive(false)}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+          onKeyDown={(event) => {
+            if (event.key === "Enter" || event.key === " ") {
+              event.preventDefault();
+              fileInputRef.current?.click();
+            }
+          }}
+          role="button"
+          tabIndex={0}
+          aria-label="Drop a credits file here or press Enter to choose one"
+        >
+          {isReading ? (
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" aria-hidden="true" />
+          ) : (
+            <FileUp className="h-8 w-8 text-muted-foreground" aria-hidden="true" />
+          )}
+          <div className="space-y-1">
+            <p className="text-sm font-medium">
+              {fileName ?? "Drag and drop a file, or click to browse"}
+            </p>
+            <p className="text-xs text-muted-foreground">JSON, CSV or TSV</p>
+          </div>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_FILE_TYPES}
+            className="sr-only"
+            onChange={handleInputChange}
+            tabIndex={-1}
+          />
+        </div>
+
+        <details className="rounded-lg border p-3 text-sm">
+          <summary className="cursor-pointer font-medium">Column names</summary>
+          <form onSubmit={handleApplyAliases} className="mt-3 space-y-3">
+            <p className="text-xs text-muted-foreground">
+              Comma-separated header names for each field, tried before the defaults shown.
+            </p>
+            <div className="grid gap-2 sm:grid-cols-2">
+              {ALIAS_FIELDS.map(field => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`column-alias-${field}`} className="font-mono text-xs">{field}</Label>
+                  <Input
+                    id={`column-alias-${field}`}
+                    value={aliasText[field] ?? ""}
+                    onChange={(event) => setAliasText(current => ({ ...current, [field]: event.target.value }))}
+                    placeholder={DEFAULT_COLUMN_ALIASES[field].join(", ")}
+                    className="h-8 text-xs"
+                  />
+                </div>
+              ))}
+            </div>
+            <Button type="submit" variant="outline" size="sm" className="cursor-pointer">
+              {fileName ? "Save & Re-read File" : "Save"}
+            </Button>
+          </form>
+        </details>
+
+        {readError && (
+          <div
+            className="flex items-start gap-2 rounded-lg border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive"
+            role="alert"
+          >
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" aria-hidden="true" />
+            <span>{readError}</span>
+          </div>
+        )}
+
+        {/* Validation report */}
+        {result && (
+          <div className="space-y-3" role="status" aria-live="polite">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="outline" className="border-green-200 text-green-700 dark:border-green-800 dark:text-green-400">
+                <CheckCircle className="h-3 w-3 mr-1" aria-hidden="true" />
+                {result.valid.length} valid
+              </Badge>
+              {result.rejected.length > 0 && (
+                <Badge variant="outline" className="border-amber-200 text-amber-700 dark:border-amber-800 dark:text-amber-400">
+                  <AlertTriangle className="h-3 w-3 mr-1" aria-hidden="true" />
+                  {result.rejected.length} rejected
+                </Badge>
+              )}
+            </div>
+
+            {result.rejected.length > 0 && (
+              <RejectedRowsTable rows={result.rejected} />
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex flex-col sm:flex-row gap-3">
+          <Button variant="outline" onClick={handleClose} className="cursor-pointer">
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!result || result.valid.length === 0}
+            className="cursor-pointer"
+          >
+            {result && result.rejected.length > 0
+              ? `Import ${result.valid.length} valid rows`
+              : "Import"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,2 @@
+export { FileImportDialog } from './file-import-dialog';
+export { RejectedRowsTable } from './rejected-rows-table';export { DataSourcesDialog } from './data-sources-dialog';
@@ -0,0 +1,47 @@
+import type { RejectedCreditRow } from "@/lib/types";
+import { getSourceLabel } from "@/lib/credit-sources";
+import { getRejectedRowNumber } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+interface RejectedRowsTableProps {
+  rows: RejectedCreditRow[];
+  className?: string;
+}
+
+/**
+ * Lists rejected rows with their place in the file, zod issue path and message
+ * Rows count from 1 as in the file: CSV and TSV lines include the header
+ */
+export function RejectedRowsTable({ rows, className }: RejectedRowsTableProps) {
+  // Row numbers restart per source, so name the source when there is more than one
+  const showSource = new Set(rows.map(row => row.source)).size > 1;
+
+  return (
+    <div className={cn("max-h-64 overflow-y-auto rounded-md border", className)}>
+      <table className="w-full text-sm" aria-label="Rejected rows">
+        <thead className="sticky top-0 bg-background">
+          <tr className="border-b text-left text-muted-foreground">
+            {showSource && <th scope="col" className="px-3 py-2 font-medium">Source</th>}
+            <th scope="col" className="px-3 py-2 font-medium">Row</th>
+            <th scope="col" className="px-3 py-2 font-medium">Field</th>
+            <th scope="col" className="px-3 py-2 font-medium">Issue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.flatMap((row) =>
+            row.issues.map((issue, issueIndex) => (
+              <tr key={`${row.source}-${row.index}-${issueIndex}`} className="border-b last:border-0">
+                {showSource && (
+                  <td className="px-3 py-2 text-xs">{row.source ? getSourceLabel(row.source) : '—'}</td>
+                )}
+                <td className="px-3 py-2 font-mono text-xs">{getRejectedRowNumber(row)}</td>
+                <td className="px-3 py-2 font-mono text-xs">{issue.path}</td>
+                <td className="px-3 py-2 text-muted-foreground">{issue.message}</td>
+              </tr>
+            ))
+          )}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -2,6 +2,7 @@
 export { CreditCard } from "./credit-card";
 export { CreditGrid } from "./credit-grid";
 export { CreditGridSkeleton, CreditGridSkeletonCompact } from "./credit-grid-skeleton";
+export { BulkActionBar } from "./bulk-action-bar";
 
 // Dashboard components
 export * from "./dashboard";
@@ -9,6 +10,9 @@ export * from "./dashboard";
 // Search components
 export * from "./search";
 
+// Import components
+export * from "./import";
+
 // Certificate components
 export * from "./certificate";
 
@@ -1,83 +1,136 @@
 import React from "react";
-import { Check, ChevronDown } from "lucide-react";
+import { ChevronDown } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import {
   DropdownMenu,
+  DropdownMenuCheckboxItem,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Badge } from "@/components/ui/badge";
-import type { Credit } from "@/lib/types";
+import type { Credit, NumberRange } from "@/lib/types";
+import { getSourceLabel } from "@/lib/credit-sources";
+import { REGISTRY_NAMES } from "@/lib/unic-id";
+import { cn } from "@/lib/utils";
+
+type FilterValue = string | number;
+
+interface FilterOption {
+  value: FilterValue;
+  label: string;
+  count?: number;              // Credits the option would return given the other filters
+}
 
 interface FilterDropdownProps {
   label: string;
-  value: string | number | 'all';
-  options: Array<{ value: string | number | 'all'; label: string }>;
-  onChange: (value: string | number | 'all') => void;
+  selected: FilterValue[];
+  options: FilterOption[];
+  onChange: (selected: FilterValue[]) => void;
+  multiple?: boolean;          // Allow several options at once; otherwise picking one replaces the selection
+  activeCount?: number;        // Filters applied through this dropdown, including any extra controls
+  onClear?: () => void;        // Clears the selection and any extra controls
+  children?: React.ReactNode;  // Extra controls below the options, such as a range
   className?: string;
 }
 
 /**
- * Generic filter dropdown component for status and vintage filtering
+ * Generic filter dropdown for status, vintage, registry, country and source filtering
+ * Selecting nothing means "all"; multi-select dropdowns stay open while options are toggled
+ * Options with a count of zero are greyed out unless already selected
  * Addresses requirements: 3.2, 3.4, 3.5, 6.3 (performance optimization with React.memo)
  */
-const FilterDropdown = React.memo<FilterDropdownProps>(({ 
-  label, 
-  value, 
-  options, 
-  onChange, 
-  className = "" 
+const FilterDropdown = React.memo<FilterDropdownProps>(({
+  label,
+  selected,
+  options,
+  onChange,
+  multiple = true,
+  activeCount = selected.length,
+  onClear,
+  children,
+  className = ""
 }) => {
-  const hasActiveFilter = value !== 'all';
-  const selectedOption = options.find(opt => opt.value === value);
+  const selectedLabels = options.filter(opt => selected.includes(opt.value)).map(opt => opt.label);
+
+  const toggle = (value: FilterValue) => {
+    if (!multiple) {
+      onChange(selected.includes(value) ? [] : [value]);
+    } else if (selected.includes(value)) {
+      onChange(selected.filter(item => item !== value));
+    } else {
+      onChange([...selected, value]);
+    }
+  };
 
   return (
     <DropdownMenu>
       <DropdownMenuTrigger asChild>
-        <Button 
-          variant="outline" 
+        <Button
+          variant="outline"
           className={`justify-between focus-ring-enhanced transition-smooth hover:border-primary/50 hover:text-primary touch-manipulation active:scale-95 ${className}`}
-          aria-label={`Filter by ${label.toLowerCase()}. Current selection: ${selectedOption?.label || 'All'}`}
-          aria-expanded="false"
+          aria-label={`Filter by ${label.toLowerCase()}. Current selection: ${selectedLabels.join(', ') || (activeCount > 0 ? 'Custom' : 'All')}`}
           aria-haspopup="menu"
         >
           <span className="flex items-center gap-2">
             {label}
-            {hasActiveFilter && (
-              <Badge 
-                variant="secondary" 
+            {activeCount > 0 && (
+              <Badge
+                variant="secondary"
                 className="ml-1 px-1 py-0 text-xs bg-primary/10 text-primary border-primary/20 transition-colors-smooth"
-                aria-label="1 filter applied"
+                aria-label={`${activeCount} ${activeCount === 1 ? 'filter' : 'filters'} applied`}
               >
-                1
+                {activeCount}
               </Badge>
             )}
           </span>
           <ChevronDown className="ml-2 h-4 w-4" aria-hidden="true" />
         </Button>
       </DropdownMenuTrigger>
-      <DropdownMenuContent 
-        align="start" 
-        className="w-48 sm:w-56 animate-scale-in max-h-60 overflow-y-auto"
-        role="menu"
+      <DropdownMenuContent
+        align="start"
+        className="w-48 sm:w-56 animate-scale-in max-h-80 overflow-y-auto"
         aria-label={`${label} filter options`}
         sideOffset={4}
       >
-        {options.map((option) => (
-          <DropdownMenuItem
-            key={option.value}
-            onClick={() => onChange(option.value)}
-            className="flex items-center justify-between focus:bg-accent focus:text-accent-foreground transition-colors-smooth hover:bg-primary/5 h-10 sm:h-9 text-base sm:text-sm touch-manipulation"
-            role="menuitem"
-            aria-selected={value === option.value}
-          >
-            <span>{option.label}</span>
-            {value === option.value && (
-              <Check className="h-4 w-4 text-primary" aria-hidden="true" />
-            )}
-          </DropdownMenuItem>
-        ))}
+        {options.map((option) => {
+          const isSelected = selected.includes(option.value);
+          const isEmpty = option.count === 0 && !isSelected;
+          return (
+            <DropdownMenuCheckboxItem
+              key={option.value}
+              checked={isSelected}
+              disabled={isEmpty}
+              // Keep the menu open so several options can be toggled in one go
+              onSelect={multiple ? (event) => event.preventDefault() : undefined}
+              onCheckedChange={() => toggle(option.value)}
+              className="focus:bg-accent focus:text-accent-foreground transition-colors-smooth hover:bg-primary/5 h-10 sm:h-9 text-base sm:text-sm touch-manipulation"
+            >
+              <span className="flex-1 truncate">{option.label}</span>
+              {option.count !== undefined && (
+                <span
+                  className={cn("ml-2 text-xs tabular-nums", isEmpty ? "text-muted-foreground/60" : "text-muted-foreground")}
+                  aria-label={`${option.count} credits`}
+                >
+                  {option.count.toLocaleString()}
+                </span>
+              )}
+            </DropdownMenuCheckboxItem>
+          );
+        })}
+        {children}
+        {activeCount > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onClick={() => (onClear ? onClear() : onChange([]))}
+              className="h-10 sm:h-9 text-base sm:text-sm text-muted-foreground touch-manipulation"
+            >
+              Clear {label.toLowerCase()} filter
+            </DropdownMenuItem>
+          </>
+        )}
       </DropdownMenuContent>
     </DropdownMenu>
   );
@@ -86,28 +139,32 @@ const FilterDropdown = React.memo<FilterDropdownProps>(({
 FilterDropdown.displayName = "FilterDropdown";
 
 interface StatusFilterProps {
-  value: Credit['status'] | 'all';
-  onChange: (value: Credit['status'] | 'all') => void;
+  value: Credit['status'][];
+  onChange: (value: Credit['status'][]) => void;
+  counts?: Map<string, number>;
   className?: string;
 }
 
+const STATUS_OPTIONS: Array<{ value: Credit['status']; label: string }> = [
+  { value: 'Active', label: 'Active' },
+  { value: 'Retired', label: 'Retired' },
+];
+
 /**
- * Status filter dropdown component
+ * Status filter dropdown component; several statuses can be selected
  * Addresses requirements: 3.2, 3.4, 6.3 (performance optimization with React.memo)
  */
-const StatusFilter = React.memo<StatusFilterProps>(({ value, onChange, className }) => {
-  const statusOptions = [
-    { value: 'all' as const, label: 'All Status' },
-    { value: 'Active' as const, label: 'Active' },
-    { value: 'Retired' as const, label: 'Retired' },
-  ];
+const StatusFilter = React.memo<StatusFilterProps>(({ value, onChange, counts, className }) => {
+  const options = counts
+    ? STATUS_OPTIONS.map(option => ({ ...option, count: counts.get(option.value) ?? 0 }))
+    : STATUS_OPTIONS;
 
   return (
     <FilterDropdown
       label="Status"
-      value={value}
-      options={statusOptions}
-      onChange={onChange}
+      selected={value}
+      options={options}
+      onChange={(selected) => onChange(selected as Credit['status'][])}
       className={className}
     />
   );
@@ -116,41 +173,182 @@ const StatusFilter = React.memo<StatusFilterProps>(({ value, onChange, className
 StatusFilter.displayName = "StatusFilter";
 
 interface VintageFilterProps {
-  value: number | 'all';
-  onChange: (value: number | 'all') => void;
+  value: number[];
+  onChange: (value: number[]) => void;
+  range: NumberRange | null;
+  onRangeChange: (range: NumberRange | null) => void;
   availableVintages: number[];
+  counts?: Map<string, number>;
   className?: string;
 }
 
 /**
- * Vintage filter dropdown component
+ * Vintage filter dropdown component: individual years plus a From/To window
  * Addresses requirements: 3.2, 3.4, 6.3 (performance optimization with React.memo)
  */
-const VintageFilter = React.memo<VintageFilterProps>(({ 
-  value, 
-  onChange, 
-  availableVintages, 
-  className 
+const VintageFilter = React.memo<VintageFilterProps>(({
+  value,
+  onChange,
+  range,
+  onRangeChange,
+  availableVintages,
+  counts,
+  className
 }) => {
-  const vintageOptions = [
-    { value: 'all' as const, label: 'All Vintages' },
-    ...availableVintages.map(vintage => ({
-      value: vintage,
-      label: vintage.toString(),
-    })),
-  ];
+  const vintageOptions = availableVintages.map(vintage => ({
+    value: vintage,
+    label: vintage.toString(),
+    count: counts ? counts.get(String(vintage)) ?? 0 : undefined,
+  }));
+
+  const updateRange = (bound: keyof NumberRange, selectValue: string) => {
+    const next = { min: range?.min ?? null, max: range?.max ?? null, [bound]: selectValue ? Number(selectValue) : null };
+    // Keep the window the right way round when one bound passes the other
+    if (next.min !== null && next.max !== null && next.min > next.max) {
+      if (bound === 'min') next.max = next.min;
+      else next.min = next.max;
+    }
+    onRangeChange(next.min === null && next.max === null ? null : next);
+  };
+
+  const selectClassName = "h-9 w-full rounded-md border border-input bg-transparent px-2 text-sm focus-ring-enhanced";
 
   return (
     <FilterDropdown
       label="Vintage"
-      value={value}
+      selected={value}
       options={vintageOptions}
-      onChange={(val) => onChange(val as number | 'all')}
+      onChange={(selected) => onChange((selected as number[]).sort((a, b) => a - b))}
+      activeCount={value.length + (range ? 1 : 0)}
+      onClear={() => {
+        onChange([]);
+        onRangeChange(null);
+      }}
       className={className}
-    />
+    >
+      <DropdownMenuSeparator />
+      {/* Menu keyboard navigation would steal arrow keys from the selects */}
+      <div className="px-2 py-1.5 space-y-1.5" onKeyDown={(event) => event.stopPropagation()}>
+        <span className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Range</span>
+        <div className="flex items-center gap-2">
+          <select
+            aria-label="Vintage from"
+            className={selectClassName}
+            value={range?.min ?? ''}
+            onChange={(event) => updateRange('min', event.target.value)}
+          >
+            <option value="">From</option>
+            {availableVintages.map(vintage => <option key={vintage} value={vintage}>{vintage}</option>)}
+          </select>
+          <span className="text-muted-foreground" aria-hidden="true">–</span>
+          <select
+            aria-label="Vintage to"
+            className={selectClassName}
+            value={range?.max ?? ''}
+            onChange={(event) => updateRange('max', event.target.value)}
+          >
+            <option value="">To</option>
+            {availableVintages.map(vintage => <option key={vintage} value={vintage}>{vintage}</option>)}
+          </select>
+        </div>
+      </div>
+    </FilterDropdown>
   );
 });
 
 VintageFilter.displayName = "VintageFilter";
 
-export { FilterDropdown, StatusFilter, VintageFilter };
\ No newline at end of file
+interface SourceFilterProps {
+  value: string | 'all';
+  onChange: (value: string | 'all') => void;
+  availableSources: Array<{ source: string; count: number }>;
+  counts?: Map<string, number>;
+  className?: string;
+}
+
+/**
+ * Data source filter dropdown component, listing each source with its credit count
+ * (the faceted count when given, otherwise the source's total)
+ */
+const SourceFilter = React.memo<SourceFilterProps>(({
+  value,
+  onChange,
+  availableSources,
+  counts,
+  className
+}) => {
+  const sourceOptions = availableSources.map(({ source, count }) => ({
+    value: source,
+    label: getSourceLabel(source),
+    count: counts ? counts.get(source) ?? 0 : count,
+  }));
+
+  return (
+    <FilterDropdown
+      label="Source"
+      selected={value === 'all' ? [] : [value]}
+      options={sourceOptions}
+      onChange={([source]) => onChange(source === undefined ? 'all' : String(source))}
+      multiple={false}
+      className={className}
+    />
+  );
+});
+
+SourceFilter.displayName = "SourceFilter";
+
+interface CodeFilterProps {
+  value: string[];
+  onChange: (value: string[]) => void;
+  availableCodes: string[];
+  counts?: Map<string, number>;
+  className?: string;
+}
+
+/**
+ * Registry filter dropdown component, for the standards parsed from UNIC IDs
+ */
+const RegistryFilter = React.memo<CodeFilterProps>(({ value, onChange, availableCodes, counts, className }) => {
+  const registryOptions = availableCodes.map(code => ({
+    value: code,
+    label: REGISTRY_NAMES[code] ? `${code} · ${REGISTRY_NAMES[code]}` : code,
+    count: counts ? counts.get(code) ?? 0 : undefined,
+  }));
+
+  return (
+    <FilterDropdown
+      label="Registry"
+      selected={value}
+      options={registryOptions}
+      onChange={(selected) => onChange(selected.map(String))}
+      className={className}
+    />
+  );
+});
+
+RegistryFilter.displayName = "RegistryFilter";
+
+/**
+ * Country filter dropdown component, for the country codes parsed from UNIC IDs
+ */
+const CountryFilter = React.memo<CodeFilterProps>(({ value, onChange, availableCodes, counts, className }) => {
+  const countryOptions = availableCodes.map(code => ({
+    value: code,
+    label: code,
+    count: counts ? counts.get(code) ?? 0 : undefined,
+  }));
+
+  return (
+    <FilterDropdown
+      label="Country"
+      selected={value}
+      options={countryOptions}
+      onChange={(selected) => onChange(selected.map(String))}
+      className={className}
+    />
+  );
+});
+
+CountryFilter.displayName = "CountryFilter";
+
+export { FilterDropdown, StatusFilter, VintageFilter, SourceFilter, RegistryFilter, CountryFilter };
@@ -0,0 +1,55 @@
+import React, { useMemo } from "react";
+import { getMatchRanges } from "@/lib/search-engine";
+import { parseQuery } from "@/lib/query-parser";
+import { cn } from "@/lib/utils";
+
+interface HighlightTextProps {
+  text: string;
+  query?: string;
+  className?: string;
+}
+
+/**
+ * Render text with the words matched by the free text of the search query marked
+ */
+const HighlightText = React.memo<HighlightTextProps>(({ text, query = "", className }) => {
+  const segments = useMemo(() => {
+    const ranges = getMatchRanges(text, parseQuery(query).text);
+    if (ranges.length === 0) return null;
+
+    const parts: Array<{ text: string; match: boolean }> = [];
+    let cursor = 0;
+    for (const [start, end] of ranges) {
+      if (start > cursor) parts.push({ text: text.slice(cursor, start), match: false });
+      parts.push({ text: text.slice(start, end), match: true });
+      cursor = end;
+    }
+    if (cursor < text.length) parts.push({ text: text.slice(cursor), match: false });
+    return parts;
+  }, [text, query]);
+
+  if (!segments) {
+    return <>{text}</>;
+  }
+
+  return (
+    <>
+      {segments.map((segment, index) =>
+        segment.match ? (
+          <mark
+            key={index}
+            className={cn("rounded-sm bg-yellow-200/70 px-0.5 -mx-0.5 text-inherit dark:bg-yellow-500/30", className)}
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+});
+
+HighlightText.displayName = "HighlightText";
+
+export { HighlightText };
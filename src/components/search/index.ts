@@ -1,5 +1,7 @@
 export { SearchBar } from './search-bar';
-export { FilterDropdown, StatusFilter, VintageFilter } from './filter-dropdown';
+export { FilterDropdown, StatusFilter, VintageFilter, SourceFilter, RegistryFilter, CountryFilter } from './filter-dropdown';
 export { SearchFilters } from './search-filters';
 export { EmptyState } from './empty-state';
-export { SearchSkeleton } from './search-skeleton';
\ No newline at end of file
+export { SearchSkeleton } from './search-skeleton';
+export { HighlightText } from './highlight-text';
+export { SortControl } from './sort-control';
@@ -1,79 +1,218 @@
-import React from "react";
-import { Search, X } from "lucide-react";
+import React, { useId, useMemo, useRef, useState } from "react";
+import { AlertCircle, Loader2, Search, X } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
+import { getQueryCompletions, parseQuery } from "@/lib/query-parser";
+import type { QueryCompletion } from "@/lib/query-parser";
 import { cn } from "@/lib/utils";
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   placeholder?: string;
+  isPending?: boolean;     // Shows a spinner in place of the search icon
   className?: string;
 }
 
 /**
  * Search bar component with real-time filtering capabilities
+ * Understands the structured query syntax (status:active vintage:2019..2021 -solar),
+ * completes field names and values, and reports syntax errors inline
  * Addresses requirements: 3.1, 3.2, 3.3, 6.3 (performance optimization with React.memo)
  */
-const SearchBar = React.memo<SearchBarProps>(({ 
-  value, 
-  onChange, 
+const SearchBar = React.memo<SearchBarProps>(({
+  value,
+  onChange,
   placeholder = "Search credits by name or ID...",
+  isPending = false,
   className = ""
 }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listboxId = useId();
+  const errorId = useId();
+  const [caret, setCaret] = useState(value.length);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [completionsOpen, setCompletionsOpen] = useState(false);
+  const [focused, setFocused] = useState(false);
+
+  // The term being typed is not flagged until the caret leaves it
+  const errors = useMemo(
+    () => parseQuery(value).errors.filter(error => !(focused && error.start <= caret && caret <= error.end)),
+    [value, caret, focused]
+  );
+  const completions = useMemo(
+    () => (completionsOpen ? getQueryCompletions(value, caret) : []),
+    [value, caret, completionsOpen]
+  );
+  const showCompletions = completions.length > 0;
+
   const handleClear = () => {
     onChange("");
+    setCompletionsOpen(false);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(e.target.value);
+    setCaret(e.target.selectionStart ?? e.target.value.length);
+    setActiveIndex(0);
+    setCompletionsOpen(true);
+  };
+
+  const acceptCompletion = (completion: QueryCompletion) => {
+    const next = value.slice(0, completion.start) + completion.replacement + value.slice(completion.end);
+    const nextCaret = completion.start + completion.replacement.length;
+    onChange(next);
+    setCaret(nextCaret);
+    setActiveIndex(0);
+    // Keep completing after a field name, e.g. status: → active / retired
+    setCompletionsOpen(completion.replacement.endsWith(':'));
+    requestAnimationFrame(() => {
+      inputRef.current?.focus();
+      inputRef.current?.setSelectionRange(nextCaret, nextCaret);
+    });
   };
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (showCompletions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(index => (index + step + completions.length) % completions.length);
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        acceptCompletion(completions[Math.min(activeIndex, completions.length - 1)]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setCompletionsOpen(false);
+        return;
+      }
+    }
+
     if (e.key === 'Escape' && value) {
       handleClear();
     }
   };
 
+  const handleSelect = (e: React.SyntheticEvent<HTMLInputElement>) => {
+    setCaret(e.currentTarget.selectionStart ?? value.length);
+  };
+
+  const activeOptionId = showCompletions ? `${listboxId}-${Math.min(activeIndex, completions.length - 1)}` : undefined;
+
   return (
-    <div className={`relative ${className}`} role="search">
-      <Search 
-        className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-5 w-5 sm:h-4 sm:w-4" 
-        aria-hidden="true"
-      />
-      <Input
-        type="text"
-        placeholder={placeholder}
-        value={value}
-        onChange={(e: React.ChangeEvent<HTMLInputElement>) => onChange(e.target.value)}
-        onKeyDown={handleKeyDown}
-        className={cn(
-          "pl-12 sm:pl-10 pr-12 sm:pr-10",
-          "focus-ring-enhanced transition-smooth border-border/50 hover:border-primary/30 focus:border-primary",
-          "text-base sm:text-sm", // Larger text on mobile to prevent zoom
-          "touch-manipulation" // Optimize for touch
+    <div className={className} role="search">
+      <div className="relative">
+        {isPending ? (
+          <Loader2
+            className="absolute left-3 top-1/2 -translate-y-1/2 text-muted-foreground h-5 w-5 sm:h-4 sm:w-4 animate-spin"
+            aria-hidden="true"
+          />
+        ) : (
+          <Search
+            className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground h-5 w-5 sm:h-4 sm:w-4"
+            aria-hidden="true"
+          />
         )}
-        aria-label="Search carbon credits by project name or UNIC ID"
-        aria-describedby="search-help"
-        autoComplete="off"
-        autoCorrect="off"
-        autoCapitalize="off"
-        spellCheck="false"
-      />
-      <div id="search-help" className="sr-only">
-        Type to search credits by project name or UNIC ID. Press Escape to clear search.
-      </div>
-      {value && (
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={handleClear}
+        <Input
+          ref={inputRef}
+          type="text"
+          role="combobox"
+          placeholder={placeholder}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onFocus={() => setFocused(true)}
+          onBlur={() => {
+            setFocused(false);
+            setCompletionsOpen(false);
+          }}
           className={cn(
-            "absolute right-1 top-1/2 transform -translate-y-1/2",
-            "h-10 w-10 sm:h-8 sm:w-8 p-0", // Larger touch target on mobile
-            "hover:bg-muted focus-ring-enhanced transition-smooth hover:text-primary",
-            "touch-manipulation active:scale-95"
+            "h-12 sm:h-10 pl-12 sm:pl-10 pr-12 sm:pr-10", // Larger on mobile
+            "focus-ring-enhanced transition-smooth border-border/50 hover:border-primary/30 focus:border-primary",
+            "text-base sm:text-sm", // Larger text on mobile to prevent zoom
+            "touch-manipulation" // Optimize for touch
           )}
-          aria-label={`Clear search query: ${value}`}
-        >
-          <X className="h-5 w-5 sm:h-4 sm:w-4" aria-hidden="true" />
-        </Button>
+          aria-label="Search carbon credits by project name or UNIC ID"
+          aria-describedby={errors.length > 0 ? `search-help ${errorId}` : "search-help"}
+          aria-invalid={errors.length > 0 || undefined}
+          aria-autocomplete="list"
+          aria-expanded={showCompletions}
+          aria-controls={listboxId}
+          aria-activedescendant={activeOptionId}
+          autoComplete="off"
+          autoCorrect="off"
+          autoCapitalize="off"
+          spellCheck="false"
+        />
+        <div id="search-help" className="sr-only">
+          Type to search credits by project name or UNIC ID. Narrow results with field:value terms such as
+          status:active, vintage:2019..2021 or registry:GS, and exclude words with a leading minus.
+          Press Escape to clear search.
+        </div>
+        {value && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={handleClear}
+            className={cn(
+              "absolute right-1 top-1/2 transform -translate-y-1/2",
+              "h-10 w-10 sm:h-8 sm:w-8 p-0", // Larger touch target on mobile
+              "hover:bg-muted focus-ring-enhanced transition-smooth hover:text-primary",
+              "touch-manipulation active:scale-95"
+            )}
+            aria-label={`Clear search query: ${value}`}
+          >
+            <X className="h-5 w-5 sm:h-4 sm:w-4" aria-hidden="true" />
+          </Button>
+        )}
+
+        {showCompletions && (
+          <ul
+            id={listboxId}
+            role="listbox"
+            aria-label="Search suggestions"
+            className="absolute left-0 right-0 top-full z-50 mt-1 max-h-64 overflow-y-auto rounded-md border bg-popover p-1 text-popover-foreground shadow-md"
+          >
+            {completions.map((completion, index) => (
+              <li
+                key={completion.label}
+                id={`${listboxId}-${index}`}
+                role="option"
+                aria-selected={index === activeIndex}
+                // Keep focus in the input so the caret position survives
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => acceptCompletion(completion)}
+                className={cn(
+                  "flex cursor-pointer items-center justify-between gap-3 rounded-sm px-2 py-1.5 text-sm",
+                  index === activeIndex ? "bg-accent text-accent-foreground" : "hover:bg-muted"
+                )}
+              >
+                <span className="font-mono">{completion.label}</span>
+                {completion.description && (
+                  <span className="truncate text-xs text-muted-foreground">{completion.description}</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <ul id={errorId} className="mt-1.5 space-y-0.5 text-xs text-destructive" aria-live="polite">
+          {errors.map(error => (
+            <li key={`${error.start}-${error.message}`} className="flex items-center gap-1.5">
+              <AlertCircle className="h-3.5 w-3.5 shrink-0" aria-hidden="true" />
+              <span>
+                <span className="font-mono">{value.slice(error.start, error.end)}</span>: {error.message}
+              </span>
+            </li>
+          ))}
+        </ul>
       )}
     </div>
   );
@@ -81,4 +220,4 @@ const SearchBar = React.memo<SearchBarProps>(({
 
 SearchBar.displayName = "SearchBar";
 
-export { SearchBar };
\ No newline at end of file
+export { SearchBar };
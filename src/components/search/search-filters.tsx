@@ -1,24 +1,60 @@
 import React from "react";
-import { FilterX } from "lucide-react";
+import { FilterX, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { SearchBar } from "./search-bar";
-import { StatusFilter, VintageFilter } from "./filter-dropdown";
-import type { Credit, SearchState } from "@/lib/types";
+import { StatusFilter, VintageFilter, SourceFilter, RegistryFilter, CountryFilter } from "./filter-dropdown";
+import type { Credit, NumberRange, SearchState } from "@/lib/types";
+import { getSourceLabel } from "@/lib/credit-sources";
+import { formatRange, getDropdownQuery, getQueryFieldValues, getQueryRemainder, setQueryField } from "@/lib/query-parser";
+import type { FacetCounts } from "@/lib/facets";
 import { cn } from "@/lib/utils";
 
 interface SearchFiltersProps {
   searchState: SearchState;
   onSearch: (query: string) => void;
-  onFilterStatus: (status: Credit['status'] | 'all') => void;
-  onFilterVintage: (vintage: number | 'all') => void;
+  onFilterStatus: (statuses: Credit['status'][]) => void;
+  onFilterVintage: (vintages: number[]) => void;
+  onFilterVintageRange: (range: NumberRange | null) => void;
+  onFilterSource?: (source: string | 'all') => void;
   onClearFilters: () => void;
   availableVintages: number[];
+  availableSources?: Array<{ source: string; count: number }>;
+  availableRegistries?: string[];
+  availableCountries?: string[];
+  facets?: FacetCounts | null;   // Per-option counts given the other filters
+  isSearching?: boolean;         // Results are still catching up with the query
   resultCount?: number;
   totalCount?: number;
   className?: string;
 }
 
+interface FilterChipProps {
+  label: string;
+  shortLabel: string;     // Shown on small screens
+  onRemove: () => void;
+}
+
+/**
+ * Active filter badge with its own remove button
+ */
+function FilterChip({ label, shortLabel, onRemove }: FilterChipProps) {
+  return (
+    <Badge variant="outline" className="text-xs gap-1 pr-1 transition-colors-smooth border-primary/30 text-primary">
+      <span className="sm:hidden">{shortLabel}</span>
+      <span className="hidden sm:inline">{label}</span>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="rounded-sm p-0.5 hover:bg-primary/10 focus-ring-enhanced cursor-pointer"
+        aria-label={`Remove filter ${label}`}
+      >
+        <X className="h-3 w-3" aria-hidden="true" />
+      </button>
+    </Badge>
+  );
+}
+
 /**
  * Combined search and filter controls with clear functionality
  * Addresses requirements: 3.1, 3.2, 3.3, 3.4, 3.5, 3.6, 6.3 (performance optimization with React.memo)
@@ -28,22 +64,43 @@ const SearchFilters = React.memo<SearchFiltersProps>(({
   onSearch,
   onFilterStatus,
   onFilterVintage,
+  onFilterVintageRange,
+  onFilterSource,
   onClearFilters,
   availableVintages,
+  availableSources = [],
+  availableRegistries = [],
+  availableCountries = [],
+  facets,
+  isSearching = false,
   resultCount,
   totalCount,
   className = ""
 }) => {
-  const hasActiveFilters = 
-    searchState.query.trim() !== '' ||
-    searchState.statusFilter !== 'all' ||
-    searchState.vintageFilter !== 'all';
+  const { statusFilter, vintageFilter, vintageRange } = searchState;
+  // Clauses the dropdowns show get chips of their own, so the search chip shows the rest
+  const searchText = getQueryRemainder(searchState.query);
+  // Registry and country live only in the query, as registry:gs and country:ind clauses
+  const registryFilter = getQueryFieldValues(searchState.query, 'registry').map(code => code.toUpperCase());
+  const countryFilter = getQueryFieldValues(searchState.query, 'country').map(code => code.toUpperCase());
 
-  const activeFilterCount = [
-    searchState.query.trim() !== '',
-    searchState.statusFilter !== 'all',
-    searchState.vintageFilter !== 'all',
-  ].filter(Boolean).length;
+  const setRegistryFilter = (codes: string[]) =>
+    onSearch(setQueryField(searchState.query, 'registry', codes.map(code => code.toLowerCase())));
+  const setCountryFilter = (codes: string[]) =>
+    onSearch(setQueryField(searchState.query, 'country', codes.map(code => code.toLowerCase())));
+
+  const activeFilterCount =
+    (searchText !== '' ? 1 : 0) +
+    statusFilter.length +
+    vintageFilter.length +
+    (vintageRange ? 1 : 0) +
+    registryFilter.length +
+    countryFilter.length +
+    (searchState.sourceFilter !== 'all' ? 1 : 0);
+  const hasActiveFilters = activeFilterCount > 0;
+
+  // Only offer a source filter when credits come from more than one source
+  const showSourceFilter = onFilterSource && availableSources.length > 1;
 
   return (
     <section 
@@ -58,8 +115,9 @@ const SearchFilters = React.memo<SearchFiltersProps>(({
           <SearchBar
             value={searchState.query}
             onChange={onSearch}
-            placeholder="Search credits by project name or UNIC ID..."
-            className="w-full h-12 sm:h-10 text-base sm:text-sm" // Larger on mobile
+            isPending={isSearching}
+            placeholder="Search credits, or try status:active vintage:2019..2021 -solar"
+            className="w-full text-base sm:text-sm"
           />
         </div>
         
@@ -69,15 +127,49 @@ const SearchFilters = React.memo<SearchFiltersProps>(({
             <StatusFilter
               value={searchState.statusFilter}
               onChange={onFilterStatus}
+              counts={facets?.status}
               className="flex-1 sm:min-w-[120px] h-12 sm:h-10" // Larger touch targets on mobile
             />
             
             <VintageFilter
               value={searchState.vintageFilter}
               onChange={onFilterVintage}
+              range={searchState.vintageRange}
+              onRangeChange={onFilterVintageRange}
               availableVintages={availableVintages}
+              counts={facets?.vintage}
               className="flex-1 sm:min-w-[130px] h-12 sm:h-10" // Larger touch targets on mobile
             />
+
+            {availableRegistries.length > 1 && (
+              <RegistryFilter
+                value={registryFilter}
+                onChange={setRegistryFilter}
+                availableCodes={availableRegistries}
+                counts={facets?.registry}
+                className="flex-1 sm:min-w-[130px] h-12 sm:h-10"
+              />
+            )}
+
+            {availableCountries.length > 1 && (
+              <CountryFilter
+                value={countryFilter}
+                onChange={setCountryFilter}
+                availableCodes={availableCountries}
+                counts={facets?.country}
+                className="flex-1 sm:min-w-[130px] h-12 sm:h-10"
+              />
+            )}
+
+            {showSourceFilter && (
+              <SourceFilter
+                value={searchState.sourceFilter}
+                onChange={onFilterSource}
+                availableSources={availableSources}
+                counts={facets?.source}
+                className="flex-1 sm:min-w-[130px] h-12 sm:h-10"
+              />
+            )}
           </div>
           
           {hasActiveFilters && (
@@ -118,8 +210,8 @@ const SearchFilters = React.memo<SearchFiltersProps>(({
             {hasActiveFilters ? (
               <span>
                 Showing {resultCount} of {totalCount} credits
-                {searchState.query && (
-                  <span className="block sm:inline"> matching "{searchState.query}"</span>
+                {searchText && (
+                  <span className="block sm:inline"> matching "{searchText}"</span>
                 )}
               </span>
             ) : (
@@ -132,23 +224,58 @@ const SearchFilters = React.memo<SearchFiltersProps>(({
               <span className="text-xs font-medium sm:hidden">Active filters:</span>
               <span className="text-xs hidden sm:inline">Active filters:</span>
               <div className="flex flex-wrap gap-1">
-                {searchState.query && (
-                  <Badge variant="outline" className="text-xs transition-colors-smooth border-primary/30 text-primary">
-                    <span className="sm:hidden">"{searchState.query.length > 15 ? searchState.query.substring(0, 15) + '...' : searchState.query}"</span>
-                    <span className="hidden sm:inline">Search: {searchState.query}</span>
-                  </Badge>
+                {searchText && (
+                  <FilterChip
+                    label={`Search: ${searchText}`}
+                    shortLabel={`"${searchText.length > 15 ? searchText.substring(0, 15) + '...' : searchText}"`}
+                    onRemove={() => onSearch(getDropdownQuery(searchState.query))}
+                  />
                 )}
-                {searchState.statusFilter !== 'all' && (
-                  <Badge variant="outline" className="text-xs transition-colors-smooth border-primary/30 text-primary">
-                    <span className="sm:hidden">{searchState.statusFilter}</span>
-                    <span className="hidden sm:inline">Status: {searchState.statusFilter}</span>
-                  </Badge>
+                {statusFilter.map(status => (
+                  <FilterChip
+                    key={status}
+                    label={`Status: ${status}`}
+                    shortLabel={status}
+                    onRemove={() => onFilterStatus(statusFilter.filter(item => item !== status))}
+                  />
+                ))}
+                {vintageFilter.map(vintage => (
+                  <FilterChip
+                    key={vintage}
+                    label={`Vintage: ${vintage}`}
+                    shortLabel={String(vintage)}
+                    onRemove={() => onFilterVintage(vintageFilter.filter(item => item !== vintage))}
+                  />
+                ))}
+                {vintageRange && (
+                  <FilterChip
+                    label={`Vintage: ${formatRange(vintageRange).replace('..', '–')}`}
+                    shortLabel={formatRange(vintageRange).replace('..', '–')}
+                    onRemove={() => onFilterVintageRange(null)}
+                  />
                 )}
-                {searchState.vintageFilter !== 'all' && (
-                  <Badge variant="outline" className="text-xs transition-colors-smooth border-primary/30 text-primary">
-                    <span className="sm:hidden">{searchState.vintageFilter}</span>
-                    <span className="hidden sm:inline">Vintage: {searchState.vintageFilter}</span>
-                  </Badge>
+                {registryFilter.map(code => (
+                  <FilterChip
+                    key={`registry-${code}`}
+                    label={`Registry: ${code}`}
+                    shortLabel={code}
+                    onRemove={() => setRegistryFilter(registryFilter.filter(item => item !== code))}
+                  />
+                ))}
+                {countryFilter.map(code => (
+                  <FilterChip
+                    key={`country-${code}`}
+                    label={`Country: ${code}`}
+                    shortLabel={code}
+                    onRemove={() => setCountryFilter(countryFilter.filter(item => item !== code))}
+                  />
+                ))}
+                {searchState.sourceFilter !== 'all' && onFilterSource && (
+                  <FilterChip
+                    label={`Source: ${getSourceLabel(searchState.sourceFilter)}`}
+                    shortLabel={getSourceLabel(searchState.sourceFilter)}
+                    onRemove={() => onFilterSource('all')}
+                  />
                 )}
               </div>
             </div>
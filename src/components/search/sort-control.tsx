@@ -0,0 +1,107 @@
+import React from "react";
+import { ArrowDown, ArrowUp, ArrowUpDown, Check, Plus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { SORT_FIELDS, toggleSortKey } from "@/lib/sort-keys";
+import type { SortField, SortKey } from "@/lib/types";
+import { cn } from "@/lib/utils";
+
+interface SortControlProps {
+  value: SortKey[];
+  onChange: (sort: SortKey[]) => void;
+  fields?: SortField[];
+  className?: string;
+}
+
+const DEFAULT_FIELDS: SortField[] = ['relevance', 'project_name', 'vintage', 'status', 'quantity', 'project_type'];
+
+function describeSort(sort: SortKey[]): string {
+  if (sort.length === 0) return SORT_FIELDS.relevance.shortLabel;
+  return sort.map(key => `${SORT_FIELDS[key.field].shortLabel} ${key.order === 'asc' ? '↑' : '↓'}`).join(', ');
+}
+
+/**
+ * Sort menu for the card view, matching the sortable table headers
+ * Picking a field sorts by it alone and picking it again flips the direction;
+ * shift-click or "Then by" adds further sort keys
+ */
+const SortControl = React.memo<SortControlProps>(({ value, onChange, fields = DEFAULT_FIELDS, className }) => {
+  const secondaryFields = fields.filter(field => field !== 'relevance' && !value.some(key => key.field === field));
+  const summary = describeSort(value);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className={cn("h-9 px-3 text-sm font-medium gap-2 focus-ring-enhanced transition-smooth max-w-[16rem]", className)}
+          aria-label={`Sort credits. Current sort: ${summary}`}
+        >
+          <ArrowUpDown className="h-4 w-4 shrink-0" aria-hidden="true" />
+          <span className="truncate">Sort: {summary}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Sort by</DropdownMenuLabel>
+        {fields.map(field => {
+          const index = value.findIndex(key => key.field === field);
+          const key = index >= 0 ? value[index] : null;
+          const isActive = field === 'relevance' ? value.length === 0 : key !== null;
+          return (
+            <DropdownMenuItem
+              key={field}
+              onClick={(event) => onChange(toggleSortKey(value, field, event.shiftKey))}
+              // Keep the menu open so the direction can be flipped straight away
+              onSelect={(event) => event.preventDefault()}
+              className="h-9"
+            >
+              <Check className={cn("h-4 w-4", !isActive && "invisible")} aria-hidden="true" />
+              <span className="flex-1">{SORT_FIELDS[field].label}</span>
+              {key && value.length > 1 && (
+                <span className="text-xs tabular-nums text-muted-foreground">{index + 1}</span>
+              )}
+              {key && (key.order === 'asc'
+                ? <ArrowUp className="h-3.5 w-3.5" aria-label="ascending" />
+                : <ArrowDown className="h-3.5 w-3.5" aria-label="descending" />)}
+            </DropdownMenuItem>
+          );
+        })}
+        {value.length > 0 && secondaryFields.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuSub>
+              <DropdownMenuSubTrigger className="h-9">
+                <Plus className="h-4 w-4" aria-hidden="true" />
+                Then by
+              </DropdownMenuSubTrigger>
+              <DropdownMenuSubContent>
+                {secondaryFields.map(field => (
+                  <DropdownMenuItem key={field} onClick={() => onChange(toggleSortKey(value, field, true))} className="h-9">
+                    {SORT_FIELDS[field].label}
+                  </DropdownMenuItem>
+                ))}
+              </DropdownMenuSubContent>
+            </DropdownMenuSub>
+          </>
+        )}
+        <DropdownMenuSeparator />
+        <p className="px-2 py-1.5 text-xs text-muted-foreground">Shift-click a field to add a secondary sort</p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+});
+
+SortControl.displayName = "SortControl";
+
+export { SortControl };
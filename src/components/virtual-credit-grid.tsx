@@ -1,8 +1,9 @@
-import React, { useState, useEffect, useMemo, useCallback, useRef } from "react";
+import React, { useState, useMemo, useCallback, useLayoutEffect, useRef } from "react";
 import { CreditCard } from "./credit-card";
 import { EmptyState } from "./search/empty-state";
-import { useIntersectionObserver } from "@/lib/performance";
+import { useWindowedList } from "@/hooks/use-windowed-list";
 import type { Credit } from "@/lib/types";
+import type { CreditChangeKind } from "@/lib/change-detection";
 import { cn } from "@/lib/utils";
 
 interface VirtualCreditGridProps {
@@ -13,214 +14,140 @@ interface VirtualCreditGridProps {
   onClearFilters?: () => void;
   searchQuery?: string;
   className?: string;
-  itemsPerPage?: number;
-  enableVirtualScrolling?: boolean;
-  virtualScrollThreshold?: number;
+  highlightedIds?: ReadonlyMap<string, CreditChangeKind>;
+  selectable?: boolean;         // Selection mode: cards toggle selection, shift-click selects a range
+  isSelected?: (id: string) => boolean;
+  onToggleSelect?: (credit: Credit, extendRange: boolean) => void;
+}
+
+const MIN_CARD_WIDTH = 260;
+const MAX_COLUMNS = 4;
+const GAP = 20;
+const ROW_HEIGHT = 280;   // Card height before the row is measured
+
+// Cards per row for the container width, up to four as in the paged grid
+function getColumnCount(width: number): number {
+  return Math.min(MAX_COLUMNS, Math.max(1, Math.floor((width + GAP) / (MIN_CARD_WIDTH + GAP))));
 }
 
 /**
- * Performance-optimized credit grid with virtual scrolling for large datasets
- * Uses intersection observer and windowing techniques to maintain smooth performance
- * Addresses requirements: 6.1, 6.2, 6.3, 6.4 - Performance optimizations and virtual scrolling
+ * Credit grid for large results, windowed by rows of cards
+ * The row width decides how many cards share a row, and only the rows in view are
+ * rendered, so the DOM stays the same size at any number of credits. Rows keep
+ * their place when filters or the sort change the credits
  */
-const VirtualCreditGrid = React.memo<VirtualCreditGridProps>(({ 
-  credits, 
-  onViewDetails, 
+const VirtualCreditGrid = React.memo<VirtualCreditGridProps>(({
+  credits,
+  onViewDetails,
   onDownloadCertificate,
   hasActiveFilters = false,
   onClearFilters,
   searchQuery,
   className,
-  itemsPerPage = 20,
-  enableVirtualScrolling = true,
-  virtualScrollThreshold = 100
+  highlightedIds,
+  selectable = false,
+  isSelected,
+  onToggleSelect
 }) => {
-  const [visibleRange, setVisibleRange] = useState({ start: 0, end: itemsPerPage });
-  const [isLoadingMore, setIsLoadingMore] = useState(false);
-  const loadMoreRef = useRef<HTMLDivElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  
-  // Use intersection observer to detect when to load more items
-  const isLoadMoreVisible = useIntersectionObserver(loadMoreRef, {
-    threshold: 0.1,
-    rootMargin: '100px'
+  const [columnCount, setColumnCount] = useState(1);
+
+  // Reflow into as many columns as fit whenever the container is resized
+  useLayoutEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+
+    const update = () => setColumnCount(getColumnCount(element.clientWidth));
+    update();
+    const observer = new ResizeObserver(update);
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  const rowCount = Math.ceil(credits.length / columnCount);
+  const creditIndexes = useMemo(() => new Map(credits.map((credit, index) => [credit.unic_id, index])), [credits]);
+
+  // A row is known by its first card, and any card finds its row again after a reflow
+  const getRowKey = useCallback(
+    (index: number) => credits[index * columnCount]?.unic_id ?? `row-${index}`,
+    [credits, columnCount]
+  );
+  const indexOfRow = useCallback((key: string) => {
+    const index = creditIndexes.get(key);
+    return index === undefined ? -1 : Math.floor(index / columnCount);
+  }, [creditIndexes, columnCount]);
+
+  const virtualizer = useWindowedList({
+    scrollRef: containerRef,
+    count: rowCount,
+    getItemKey: getRowKey,
+    indexOfKey: indexOfRow,
+    estimateSize: ROW_HEIGHT,
+    overscan: 2,
+    gap: GAP,
   });
 
-  // Determine if virtual scrolling should be enabled based on dataset size
-  const shouldUseVirtualScrolling = enableVirtualScrolling && credits.length > virtualScrollThreshold;
-
-  // Memoize visible credits to prevent unnecessary recalculations
-  const visibleCredits = useMemo(() => {
-    if (!shouldUseVirtualScrolling) {
-      return credits;
-    }
-    return credits.slice(visibleRange.start, visibleRange.end);
-  }, [credits, visibleRange, shouldUseVirtualScrolling]);
-
-  // Load more items when intersection observer triggers
-  const loadMoreItems = useCallback(() => {
-    if (isLoadingMore || visibleRange.end >= credits.length) {
-      return;
-    }
-
-    setIsLoadingMore(true);
-    
-    // Simulate async loading with setTimeout to prevent blocking
-    setTimeout(() => {
-      setVisibleRange(prev => ({
-        start: prev.start,
-        end: Math.min(prev.end + itemsPerPage, credits.length)
-      }));
-      setIsLoadingMore(false);
-    }, 100);
-  }, [isLoadingMore, visibleRange.end, credits.length, itemsPerPage]);
-
-  // Trigger loading more items when load more element becomes visible
-  useEffect(() => {
-    if (isLoadMoreVisible && shouldUseVirtualScrolling) {
-      loadMoreItems();
-    }
-  }, [isLoadMoreVisible, loadMoreItems, shouldUseVirtualScrolling]);
-
-  // Reset visible range when credits change (e.g., after filtering)
-  useEffect(() => {
-    setVisibleRange({ start: 0, end: Math.min(itemsPerPage, credits.length) });
-  }, [credits.length, itemsPerPage]);
-
-  // Optimized scroll handler for better performance
-  const handleScroll = useCallback(() => {
-    if (!shouldUseVirtualScrolling || !containerRef.current) return;
-
-    const container = containerRef.current;
-    const scrollTop = container.scrollTop;
-    const containerHeight = container.clientHeight;
-    const itemHeight = 300; // Approximate height of a credit card
-    
-    const startIndex = Math.floor(scrollTop / itemHeight);
-    const endIndex = Math.min(
-      startIndex + Math.ceil(containerHeight / itemHeight) + 5, // Buffer of 5 items
-      credits.length
-    );
-
-    if (startIndex !== visibleRange.start || endIndex !== visibleRange.end) {
-      setVisibleRange({ start: startIndex, end: endIndex });
-    }
-  }, [shouldUseVirtualScrolling, visibleRange, credits.length]);
-
-  // Throttled scroll event listener
-  useEffect(() => {
-    if (!shouldUseVirtualScrolling) return;
-
-    const container = containerRef.current;
-    if (!container) return;
-
-    let timeoutId: NodeJS.Timeout | undefined;
-    const throttledScroll = () => {
-      clearTimeout(timeoutId);
-      timeoutId = setTimeout(handleScroll, 16); // ~60fps
-    };
-
-    container.addEventListener('scroll', throttledScroll, { passive: true });
-    
-    return () => {
-      container.removeEventListener('scroll', throttledScroll);
-      clearTimeout(timeoutId);
-    };
-  }, [handleScroll, shouldUseVirtualScrolling]);
-
-  if (credits.length === 0) {
-    return (
-      <EmptyState
-        hasActiveFilters={hasActiveFilters}
-        onClearFilters={onClearFilters || (() => {})}
-        searchQuery={searchQuery}
-        className={className}
-      />
-    );
-  }
+  // The scroll container stays mounted while empty so the window keeps its scroll listener
+  const isEmpty = credits.length === 0;
 
   return (
-    <div 
-      ref={containerRef}
-      className={cn("space-y-8", className)}
-      style={{ 
-        height: shouldUseVirtualScrolling ? '600px' : 'auto',
-        overflowY: shouldUseVirtualScrolling ? 'auto' : 'visible'
-      }}
-    >
-      {/* Virtual scrolling spacer for items before visible range */}
-      {shouldUseVirtualScrolling && visibleRange.start > 0 && (
-        <div 
-          style={{ height: `${visibleRange.start * 300}px` }}
-          aria-hidden="true"
+    <div className={cn("space-y-3", className)}>
+      {isEmpty && (
+        <EmptyState
+          hasActiveFilters={hasActiveFilters}
+          onClearFilters={onClearFilters || (() => {})}
+          searchQuery={searchQuery}
         />
       )}
-
-      {/* Credit Grid */}
-      <div 
-        className={cn(
-          // Responsive grid layout with optimized spacing and consistent heights
-          "grid gap-4 sm:gap-5 lg:gap-6",
-          "grid-cols-1",
-          "sm:grid-cols-2",
-          "lg:grid-cols-3",
-          "xl:grid-cols-4",
-          "2xl:grid-cols-4 2xl:gap-8",
-          "w-full",
-          // Auto-fit grid rows to accommodate fixed height cards
-          "auto-rows-fr",
-          "transition-all duration-200 ease-in-out"
-        )}
+      <div
+        ref={containerRef}
+        className={cn("overflow-y-auto overscroll-contain p-1", isEmpty ? "hidden" : "h-[75vh] min-h-[400px]")}
         role="grid"
-        aria-label={`Carbon credits grid showing ${visibleCredits.length} of ${credits.length} credits`}
-        aria-live="polite"
-        aria-atomic="false"
+        aria-label={`Carbon credits grid with ${credits.length} credits`}
+        aria-rowcount={rowCount}
+        aria-colcount={columnCount}
       >
-        {visibleCredits.map((credit, index) => {
-          const actualIndex = shouldUseVirtualScrolling ? visibleRange.start + index : index;
-          return (
-            <div 
-              key={credit.unic_id} 
-              role="gridcell"
-              aria-rowindex={Math.floor(actualIndex / 4) + 1}
-              aria-colindex={(actualIndex % 4) + 1}
-            >
-              <CreditCard
-                credit={credit}
-                onViewDetails={onViewDetails}
-                onDownloadCertificate={onDownloadCertificate}
-              />
-            </div>
-          );
-        })}
-      </div>
-
-      {/* Virtual scrolling spacer for items after visible range */}
-      {shouldUseVirtualScrolling && visibleRange.end < credits.length && (
-        <div 
-          style={{ height: `${(credits.length - visibleRange.end) * 300}px` }}
-          aria-hidden="true"
-        />
-      )}
-
-      {/* Load more trigger for intersection observer */}
-      {shouldUseVirtualScrolling && visibleRange.end < credits.length && (
-        <div 
-          ref={loadMoreRef}
-          className="flex items-center justify-center py-4"
-          aria-live="polite"
-        >
-          {isLoadingMore ? (
-            <div className="flex items-center gap-2 text-muted-foreground">
-              <div className="animate-spin rounded-full h-4 w-4 border-2 border-current border-t-transparent" />
-              <span>Loading more credits...</span>
-            </div>
-          ) : (
-            <div className="text-sm text-muted-foreground">
-              Showing {visibleRange.end} of {credits.length} credits
-            </div>
-          )}
+        <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+          {virtualizer.getVirtualItems().map(row => {
+            const start = row.index * columnCount;
+            return (
+              <div
+                key={row.key}
+                ref={virtualizer.measureElement}
+                data-index={row.index}
+                role="row"
+                aria-rowindex={row.index + 1}
+                className="absolute left-0 top-0 grid w-full"
+                style={{
+                  transform: `translateY(${row.start}px)`,
+                  gridTemplateColumns: `repeat(${columnCount}, minmax(0, 1fr))`,
+                  columnGap: GAP,
+                }}
+              >
+                {credits.slice(start, start + columnCount).map((credit, column) => (
+                  <div key={credit.unic_id} role="gridcell" aria-colindex={column + 1}>
+                    <CreditCard
+                      credit={credit}
+                      onViewDetails={onViewDetails}
+                      onDownloadCertificate={onDownloadCertificate}
+                      highlight={highlightedIds?.get(credit.unic_id)}
+                      highlightQuery={searchQuery}
+                      selectable={selectable}
+                      isSelected={isSelected?.(credit.unic_id) ?? false}
+                      onToggleSelect={onToggleSelect}
+                      className="h-full"
+                    />
+                  </div>
+                ))}
+              </div>
+            );
+          })}
         </div>
+      </div>
+      {!isEmpty && (
+        <p className="text-sm text-muted-foreground text-center tabular-nums" aria-live="polite">
+          {credits.length.toLocaleString()} {credits.length === 1 ? 'credit' : 'credits'}
+        </p>
       )}
     </div>
   );
@@ -228,4 +155,4 @@ const VirtualCreditGrid = React.memo<VirtualCreditGridProps>(({
 
 VirtualCreditGrid.displayName = "VirtualCreditGrid";
 
-export { VirtualCreditGrid };
\ No newline at end of file
+export { VirtualCreditGrid };
@@ -0,0 +1,103 @@
+import { createRoot } from "react-dom/client";
+import { flushSync } from "react-dom";
+import { VirtualCreditGrid } from "./virtual-credit-grid";
+import { DataTable } from "./data-table/data-table";
+import { columns } from "./data-table/columns";
+import { createSyntheticCredits } from "@/lib/search-benchmark";
+import type { Credit } from "@/lib/types";
+
+/**
+ * Benchmark of the windowed card grid and data table
+ * Renders each view off screen over synthetic portfolios and counts DOM nodes at the
+ * top, middle and end of the list; windowing keeps the counts flat as the size grows.
+ * In development it is exposed on the browser console:
+ *
+ *   await runVirtualizationBenchmark()
+ *   await runVirtualizationBenchmark({ sizes: [100_000], width: 800 })
+ */
+
+export interface VirtualizationBenchmarkOptions {
+  sizes?: number[];       // Portfolio sizes to generate
+  width?: number;         // Viewport width in pixels; decides the number of card columns
+  seed?: number;
+}
+
+export interface VirtualizationBenchmarkResult {
+  view: 'cards' | 'table';
+  size: number;
+  renderMs: number;       // First render, including layout
+  nodesTop: number;
+  nodesMiddle: number;
+  nodesEnd: number;
+}
+
+type BenchmarkView = VirtualizationBenchmarkResult['view'];
+
+const noop = () => {};
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Two frames: one for React to commit, one for the virtualizer to measure and re-render
+const nextFrames = () => new Promise<void>(resolve =>
+  requestAnimationFrame(() => requestAnimationFrame(() => setTimeout(resolve, 0)))
+);
+
+function renderView(view: BenchmarkView, credits: Credit[]) {
+  return view === 'cards'
+    ? <VirtualCreditGrid credits={credits} />
+    : <DataTable columns={columns(noop)} data={credits} />;
+}
+
+async function measureView(view: BenchmarkView, credits: Credit[], width: number): Promise<VirtualizationBenchmarkResult> {
+  const host = document.createElement('div');
+  host.style.cssText = `position: fixed; left: -${width + 100}px; top: 0; width: ${width}px; height: 900px; overflow: hidden;`;
+  document.body.appendChild(host);
+  const root = createRoot(host);
+
+  try {
+    const start = performance.now();
+    flushSync(() => root.render(renderView(view, credits)));
+    await nextFrames();
+    const renderMs = performance.now() - start;
+    const nodesTop = host.querySelectorAll('*').length;
+
+    const scroller = host.querySelector<HTMLElement>(view === 'cards' ? '[role="grid"]' : '[aria-label="Scrollable table content"]');
+    if (!scroller) {
+      throw new Error(`No scroll container found for the ${view} view`);
+    }
+
+    const countAt = async (fraction: number) => {
+      scroller.scrollTop = (scroller.scrollHeight - scroller.clientHeight) * fraction;
+      scroller.dispatchEvent(new Event('scroll'));
+      await nextFrames();
+      return host.querySelectorAll('*').length;
+    };
+
+    const nodesMiddle = await countAt(0.5);
+    const nodesEnd = await countAt(1);
+    return { view, size: credits.length, renderMs: round(renderMs), nodesTop, nodesMiddle, nodesEnd };
+  } finally {
+    root.unmount();
+    host.remove();
+  }
+}
+
+/**
+ * Render both views at every size; logs a table of DOM node counts
+ */
+export async function runVirtualizationBenchmark({
+  sizes = [1_000, 10_000, 100_000],
+  width = 1280,
+  seed = 1,
+}: VirtualizationBenchmarkOptions = {}): Promise<VirtualizationBenchmarkResult[]> {
+  const results: VirtualizationBenchmarkResult[] = [];
+
+  for (const size of sizes) {
+    const credits = createSyntheticCredits(size, seed);
+    for (const view of ['cards', 'table'] as const) {
+      results.push(await measureView(view, credits, width));
+    }
+  }
+
+  console.table(results);
+  return results;
+}
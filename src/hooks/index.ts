@@ -1,5 +1,11 @@
 export { useCredits } from './use-credits';
 export { useSearch } from './use-search';
+export { useRemoteSearch } from './use-remote-search';
 export { useDebounce } from './use-debounce';
+export { useChangeHighlights } from './use-change-highlights';
 export { usePagination, generatePaginationItems } from './use-pagination';
-export { useErrorHandling, useAsyncOperation } from './use-error-handling';
\ No newline at end of file
+export { useErrorHandling, useAsyncOperation } from './use-error-handling';export { useUrlViewState, getInitialViewState, DEFAULT_VIEW_STATE } from './use-url-state';
+export { useSavedViews } from './use-saved-views';
+export { useTableLayout } from './use-table-layout';
+export { useCreditSelection } from './use-credit-selection';
+export { useWindowedList } from './use-windowed-list';
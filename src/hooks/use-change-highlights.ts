@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { getChangedCreditIds } from '@/lib/change-detection';
+import type { CreditChangeKind, CreditChangeSet } from '@/lib/change-detection';
+
+const NO_HIGHLIGHTS: ReadonlyMap<string, CreditChangeKind> = new Map();
+
+/**
+ * Briefly highlight credits changed by the latest reload
+ * Returns the changed UNIC IDs for `duration` milliseconds after each new change set
+ */
+export function useChangeHighlights(
+  changes: CreditChangeSet | null,
+  duration: number = 5000
+): ReadonlyMap<string, CreditChangeKind> {
+  const [highlights, setHighlights] = useState<ReadonlyMap<string, CreditChangeKind>>(NO_HIGHLIGHTS);
+
+  useEffect(() => {
+    if (!changes) {
+      setHighlights(NO_HIGHLIGHTS);
+      return;
+    }
+
+    setHighlights(getChangedCreditIds(changes));
+    const timeoutId = setTimeout(() => setHighlights(NO_HIGHLIGHTS), duration);
+    return () => clearTimeout(timeoutId);
+  }, [changes, duration]);
+
+  return highlights;
+}
@@ -0,0 +1,107 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import type { RowSelectionState } from '@tanstack/react-table';
+import type { Credit } from '@/lib/types';
+
+export interface UseCreditSelectionReturn {
+  selectedCredits: Credit[];          // In the order they were selected
+  selectedCount: number;
+  rowSelection: RowSelectionState;    // Selected UNIC IDs, in the shape the data table reads
+  isAllSelected: boolean;             // Every credit on hand is selected
+  isSomeSelected: boolean;            // Some, but not all, credits on hand are selected
+  isSelected: (id: string) => boolean;
+  toggleCredit: (credit: Credit, extendRange?: boolean) => void;
+  selectAll: () => void;
+  clearSelection: () => void;
+}
+
+/**
+ * Selection of credits for bulk actions, shared by the table and card views
+ * `credits` is the filtered list in display order; shift-click ranges and select-all
+ * follow it. Selected credits stay selected when a filter hides them
+ */
+export function useCreditSelection(credits: Credit[]): UseCreditSelectionReturn {
+  const [selection, setSelection] = useState<ReadonlyMap<string, Credit>>(() => new Map());
+  // Last credit clicked without shift; the start of the next range
+  const anchorRef = useRef<string | null>(null);
+  const creditsRef = useRef(credits);
+
+  useEffect(() => {
+    creditsRef.current = credits;
+  }, [credits]);
+
+  const toggleCredit = useCallback((credit: Credit, extendRange = false) => {
+    const list = creditsRef.current;
+    const anchor = anchorRef.current;
+    const anchorIndex = extendRange && anchor !== null ? list.findIndex(item => item.unic_id === anchor) : -1;
+    const index = anchorIndex >= 0 ? list.findIndex(item => item.unic_id === credit.unic_id) : -1;
+
+    if (index >= 0) {
+      // The range takes the state the anchor was left in, like file managers do
+      setSelection(prev => {
+        const next = new Map(prev);
+        const select = prev.has(list[anchorIndex].unic_id);
+        for (let i = Math.min(anchorIndex, index); i <= Math.max(anchorIndex, index); i++) {
+          if (select) {
+            next.set(list[i].unic_id, list[i]);
+          } else {
+            next.delete(list[i].unic_id);
+          }
+        }
+        return next;
+      });
+      return;
+    }
+
+    anchorRef.current = credit.unic_id;
+    setSelection(prev => {
+      const next = new Map(prev);
+      if (next.has(credit.unic_id)) {
+        next.delete(credit.unic_id);
+      } else {
+        next.set(credit.unic_id, credit);
+      }
+      return next;
+    });
+  }, []);
+
+  const selectAll = useCallback(() => {
+    setSelection(prev => {
+      const next = new Map(prev);
+      for (const credit of creditsRef.current) {
+        next.set(credit.unic_id, credit);
+      }
+      return next;
+    });
+  }, []);
+
+  const clearSelection = useCallback(() => {
+    anchorRef.current = null;
+    setSelection(new Map());
+  }, []);
+
+  const isSelected = useCallback((id: string) => selection.has(id), [selection]);
+
+  const selectedCredits = useMemo(() => [...selection.values()], [selection]);
+
+  const rowSelection = useMemo(
+    () => Object.fromEntries([...selection.keys()].map(id => [id, true])),
+    [selection]
+  );
+
+  const selectedOnHand = useMemo(
+    () => selection.size === 0 ? 0 : credits.reduce((count, credit) => count + (selection.has(credit.unic_id) ? 1 : 0), 0),
+    [credits, selection]
+  );
+
+  return useMemo(() => ({
+    selectedCredits,
+    selectedCount: selection.size,
+    rowSelection,
+    isAllSelected: credits.length > 0 && selectedOnHand === credits.length,
+    isSomeSelected: selectedOnHand > 0 && selectedOnHand < credits.length,
+    isSelected,
+    toggleCredit,
+    selectAll,
+    clearSelection,
+  }), [selectedCredits, selection.size, rowSelection, credits.length, selectedOnHand, isSelected, toggleCredit, selectAll, clearSelection]);
+}
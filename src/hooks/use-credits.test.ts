@@ -0,0 +1,160 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useCredits } from './use-credits';
+import { createHttpJsonProvider, createInMemoryProvider } from '@/lib/data-providers';
+import type { CreditDataProvider } from '@/lib/data-providers';
+import { createMockRegistry } from '@/lib/mock-registry';
+import { validateCreditRows } from '@/lib/data';
+import sampleData from '@/assets/sample.json';
+
+// A provider that fails the given number of times before serving the sample
+function createFlakyProvider(failures: number): CreditDataProvider & { calls: number } {
+  const provider = {
+    type: 'memory' as const,
+    requiresNetwork: false,
+    calls: 0,
+    async load() {
+      provider.calls++;
+      if (provider.calls <= failures) {
+        throw new Error('Registry unavailable');
+      }
+      return sampleData;
+    },
+  };
+  return provider;
+}
+
+describe('useCredits', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads credits from an in-memory provider', async () => {
+    const provider = createInMemoryProvider(sampleData);
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'] }));
+
+    expect(result.current.loading).toBe(true);
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.credits).toHaveLength(sampleData.length);
+    expect(result.current.credits[0].source).toBe('memory');
+    expect(result.current.stats.totalCredits).toBe(sampleData.length);
+  });
+
+  it('follows every page of the mock registry', async () => {
+    const registry = createMockRegistry();
+    const restore = registry.install();
+    try {
+      const provider = createHttpJsonProvider({ pageSize: 3 });
+      const { result } = renderHook(() => useCredits({ provider, sources: [registry.endpoint] }));
+
+      await waitFor(() => expect(result.current.loading).toBe(false));
+
+      expect(result.current.error).toBeNull();
+      expect(result.current.credits.map(credit => credit.unic_id))
+        .toEqual(sampleData.map(record => record.unic_id));
+      expect(registry.requests).toHaveLength(Math.ceil(sampleData.length / 3));
+      expect(registry.requests.map(url => new URL(url).searchParams.get('cursor')))
+        .toEqual([null, '3', '6', '9']);
+    } finally {
+      restore();
+    }
+  });
+
+  it('reports an error once every retry has failed', async () => {
+    const provider = createFlakyProvider(Infinity);
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'] }));
+
+    await waitFor(() => expect(result.current.loading).toBe(false), { timeout: 5000 });
+
+    expect(provider.calls).toBe(3);
+    expect(result.current.error).toEqual(expect.any(String));
+    expect(result.current.credits).toEqual([]);
+  }, 10000);
+
+  it('retries a failed load and resets the retry count on success', async () => {
+    const provider = createFlakyProvider(1);
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'] }));
+
+    await waitFor(() => expect(result.current.retryCount).toBe(1));
+    await waitFor(() => expect(result.current.loading).toBe(false), { timeout: 3000 });
+
+    expect(provider.calls).toBe(2);
+    expect(result.current.error).toBeNull();
+    expect(result.current.retryCount).toBe(0);
+    expect(result.current.credits).toHaveLength(sampleData.length);
+  });
+
+  it('recovers from an error on refetch', async () => {
+    const provider = createFlakyProvider(3);
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'] }));
+
+    await waitFor(() => expect(result.current.error).not.toBeNull(), { timeout: 5000 });
+
+    await act(() => result.current.refetch());
+
+    expect(provider.calls).toBe(4);
+    expect(result.current.error).toBeNull();
+    expect(result.current.credits).toHaveLength(sampleData.length);
+  }, 10000);
+
+  it('keeps the data on screen when a background refresh fails', async () => {
+    const load = vi.fn().mockResolvedValueOnce(sampleData).mockRejectedValue(new Error('Registry unavailable'));
+    const provider: CreditDataProvider = { type: 'memory', requiresNetwork: false, load };
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'], pollInterval: 50 }));
+
+    await waitFor(() => expect(result.current.isStale).toBe(true), { timeout: 5000 });
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.refreshError).toBe('Registry unavailable');
+    expect(result.current.credits).toHaveLength(sampleData.length);
+  }, 10000);
+
+  it('drops a slow response once a newer load has finished', async () => {
+    let resolveFirst: (data: unknown) => void = () => {};
+    const load = vi.fn()
+      .mockImplementationOnce(() => new Promise(resolve => { resolveFirst = resolve; }))
+      .mockResolvedValue(sampleData.slice(0, 2));
+    const provider: CreditDataProvider = { type: 'memory', requiresNetwork: false, load };
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'] }));
+
+    await waitFor(() => expect(load).toHaveBeenCalledTimes(1));
+    await act(() => result.current.refetch());
+    expect(result.current.credits).toHaveLength(2);
+
+    await act(async () => resolveFirst(sampleData));
+    expect(result.current.credits).toHaveLength(2);
+    expect(result.current.loading).toBe(false);
+  });
+
+  it('does not refresh over imported credits', async () => {
+    const provider = createFlakyProvider(0);
+    const { result } = renderHook(() => useCredits({ provider, sources: ['memory'], pollInterval: 20 }));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+    act(() => result.current.importCredits(validateCreditRows(sampleData.slice(0, 1)).valid));
+    const calls = provider.calls;
+    await new Promise(resolve => setTimeout(resolve, 100));
+
+    expect(provider.calls).toBe(calls);
+    expect(result.current.credits).toHaveLength(1);
+  });
+
+  it('loads the sources that succeed and reports the ones that fail', async () => {
+    const provider = createInMemoryProvider({ 'a.json': sampleData });
+    const { result } = renderHook(() => useCredits({ provider, sources: ['a.json', 'b.json'] }));
+
+    await waitFor(() => expect(result.current.loading).toBe(false));
+
+    expect(result.current.error).toBeNull();
+    expect(result.current.credits).toHaveLength(sampleData.length);
+    expect(result.current.failedSources).toEqual([{ source: 'b.json', message: 'No in-memory data for source: b.json' }]);
+  });
+});
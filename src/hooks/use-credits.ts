@@ -1,37 +1,135 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { getCredits, transformCreditsWithMetadata, calculateDashboardStats } from '@/lib/data';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { loadCreditRows, transformCreditsWithMetadata, calculateDashboardStats } from '@/lib/data';
 import { withRetry, handleError, AppError, NetworkMonitor } from '@/lib/error-handling';
-import type { CreditWithMetadata, DashboardStats, UseCreditsReturn } from '@/lib/types';
+import { getCreditDataProvider } from '@/lib/data-providers';
+import type { CreditDataProvider } from '@/lib/data-providers';
+import type { ColumnAliases } from '@/lib/credit-import';
+import { getConfiguredSources } from '@/lib/credit-sources';
+import { getSourcesKey, loadCachedPortfolio, saveCachedPortfolio } from '@/lib/credit-cache';
+import { countChanges, diffCredits } from '@/lib/change-detection';
+import { applyCreditUpdate, connectCreditUpdates } from '@/lib/live-updates';
+import type { CreditUpdateEvent, LiveConnectionStatus } from '@/lib/live-updates';
+import type { CreditChangeSet } from '@/lib/change-detection';
+import { findDuplicateCredits, resolveDuplicateCredits } from '@/lib/data-integrity';
+import { buildSearchIndex } from '@/lib/search-index';
+import type { DuplicateResolution } from '@/lib/data-integrity';
+import type {
+  Credit,
+  CreditWithMetadata,
+  DashboardStats,
+  RejectedCreditRow,
+  SourceLoadError,
+  UseCreditsReturn,
+  ValidationMode,
+} from '@/lib/types';
+
+export interface UseCreditsOptions {
+  validationMode?: ValidationMode;  // Lenient by default so bad rows are skipped, not fatal
+  duplicatePolicy?: DuplicateResolution;  // How credits sharing a UNIC ID are collapsed
+  provider?: CreditDataProvider;  // Defaults to the configured provider
+  sources?: string[];  // Defaults to ?data= parameters or the saved list
+  columnAliases?: ColumnAliases;  // Extra header names for CSV/TSV sources, tried before the defaults
+  enabled?: boolean;  // False skips loading, e.g. when a remote query mode fetches pages instead
+  pollInterval?: number;  // Milliseconds between background reloads; 0 disables polling
+  liveUrl?: string | null;  // SSE or WebSocket channel pushing credit upserts and status changes
+}
 
 /**
  * Custom hook for managing credit data with loading states and error handling
  * Enhanced with performance optimizations including memoization
  * Addresses requirements: 1.1, 6.1, 6.2, 6.3
  */
-export function useCredits(): UseCreditsReturn {
-  const [credits, setCredits] = useState<CreditWithMetadata[]>([]);
-  const [stats, setStats] = useState<DashboardStats>({
-    totalCredits: 0,
-    activeCredits: 0,
-    retiredCredits: 0,
-    vintageRange: { min: 0, max: 0 },
-    availableVintages: [],
-  });
-  const [loading, setLoading] = useState(true);
+export function useCredits({
+  validationMode = 'lenient',
+  duplicatePolicy: initialDuplicatePolicy = 'first-wins',
+  provider,
+  sources,
+  columnAliases,
+  enabled = true,
+  pollInterval = 0,
+  liveUrl = null,
+}: UseCreditsOptions = {}): UseCreditsReturn {
+  // Credits exactly as loaded, before duplicate resolution
+  const [sourceCredits, setSourceCredits] = useState<Credit[]>([]);
+  const [duplicatePolicy, setDuplicatePolicy] = useState<DuplicateResolution>(initialDuplicatePolicy);
+  const [loading, setLoading] = useState(enabled);
   const [error, setError] = useState<string | null>(null);
   const [retryCount, setRetryCount] = useState(0);
+  const [rejectedRows, setRejectedRows] = useState<RejectedCreditRow[]>([]);
+  const [failedSources, setFailedSources] = useState<SourceLoadError[]>([]);
+  const [lastUpdated, setLastUpdated] = useState<string | null>(null);
+  const [isStale, setIsStale] = useState(false);  // Showing cached data after a failed or offline load
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+  const [changes, setChanges] = useState<CreditChangeSet | null>(null);
+  const [liveStatus, setLiveStatus] = useState<LiveConnectionStatus>('off');
+  // Credits from the last load, compared with the next one by UNIC ID
+  const lastLoadedRef = useRef<Credit[] | null>(null);
+  // Bumped by every load and import; a load whose id is no longer current drops its result
+  const loadIdRef = useRef(0);
+  const inFlightRef = useRef(false);
+  // Bumped by every pushed update, which a background load started earlier must not overwrite
+  const liveRevisionRef = useRef(0);
+  // An imported file is on screen; background refreshes would replace it with the sources
+  const importedRef = useRef(false);
 
-  const loadCredits = useCallback(async () => {
-    try {
-      setLoading(true);
+  // Key the source list by value so an inline array does not trigger a reload every render
+  const sourcesKey = sources?.join('\n');
+  const sourceList = useMemo(
+    () => (sourcesKey === undefined ? undefined : sourcesKey.split('\n').filter(Boolean)),
+    [sourcesKey]
+  );
+  const columnAliasesKey = JSON.stringify(columnAliases ?? {});
+  const aliases = useMemo(() => JSON.parse(columnAliasesKey) as ColumnAliases, [columnAliasesKey]);
+
+  const loadCredits = useCallback(async ({ background = false }: { background?: boolean } = {}) => {
+    // Polls wait for the load in flight, and leave an imported file alone
+    if (background && (inFlightRef.current || importedRef.current)) return;
+
+    const activeProvider = provider ?? getCreditDataProvider();
+    const cacheKey = getSourcesKey(sourceList ?? getConfiguredSources());
+    const loadId = ++loadIdRef.current;
+    const liveRevision = liveRevisionRef.current;
+    // A newer load or an import supersedes this one; a background load also yields to pushed updates
+    const isSuperseded = () =>
+      loadIdRef.current !== loadId || (background && liveRevisionRef.current !== liveRevision);
+    inFlightRef.current = true;
+
+    // Fall back to the last portfolio loaded from the same sources, marked as stale
+    const serveCached = async (): Promise<boolean> => {
+      const cached = await loadCachedPortfolio(cacheKey);
+      if (!cached) return false;
+      if (isSuperseded()) return true;
+
+      lastLoadedRef.current = cached.credits;
+      setSourceCredits(cached.credits);
+      setRejectedRows(cached.rejectedRows);
+      setFailedSources([]);
+      setLastUpdated(cached.savedAt);
+      setIsStale(true);
       setError(null);
+      setRetryCount(0);
+      importedRef.current = false;
+      return true;
+    };
+
+    try {
+      // Background refreshes keep the current data on screen until new data arrives
+      if (!background) {
+        setLoading(true);
+        setError(null);
+      }
+
+      // Offline: serve the cache straight away instead of retrying
+      if (activeProvider.requiresNetwork && !NetworkMonitor.getInstance().getStatus() && await serveCached()) {
+        return;
+      }
       
       // Use retry mechanism with network monitoring
-      const rawCredits = await withRetry(
+      const { valid: rawCredits, rejected, failedSources: failed = [] } = await withRetry(
         async () => {
           // Check network status before attempting
           const networkMonitor = NetworkMonitor.getInstance();
-          if (!networkMonitor.getStatus()) {
+          if (activeProvider.requiresNetwork && !networkMonitor.getStatus()) {
             throw new AppError(
               'No internet connection',
               { component: 'useCredits', action: 'loadCredits' },
@@ -40,7 +138,12 @@ export function useCredits(): UseCreditsReturn {
             );
           }
           
-          return await getCredits();
+          return await loadCreditRows({
+            validationMode,
+            provider: activeProvider,
+            sources: sourceList,
+            columnAliases: aliases,
+          });
         },
         {
           maxAttempts: 3,
@@ -53,13 +156,50 @@ export function useCredits(): UseCreditsReturn {
         }
       );
       
-      const creditsWithMetadata = transformCreditsWithMetadata(rawCredits);
-      const dashboardStats = calculateDashboardStats(rawCredits);
-      
-      setCredits(creditsWithMetadata);
-      setStats(dashboardStats);
+      if (isSuperseded()) return;
+
+      // Compare with the previous load; the first load has nothing to compare with
+      const previousCredits = lastLoadedRef.current;
+      lastLoadedRef.current = rawCredits;
+      if (previousCredits) {
+        const diff = diffCredits(previousCredits, rawCredits);
+        if (countChanges(diff) > 0) {
+          setChanges(diff);
+        }
+      }
+
+      const savedAt = new Date().toISOString();
+      setSourceCredits(rawCredits);
+      setRejectedRows(rejected);
+      setFailedSources(failed);
+      setLastUpdated(savedAt);
+      setError(null);
+      setIsStale(false);
+      setRefreshError(null);
       setRetryCount(0); // Reset retry count on success
+      importedRef.current = false;
+
+      // A partial portfolio must not replace a complete cached copy
+      if (failed.length === 0) {
+        void saveCachedPortfolio({ sourcesKey: cacheKey, credits: rawCredits, rejectedRows: rejected, savedAt });
+      }
     } catch (err) {
+      if (isSuperseded()) {
+        return;
+      }
+
+      // A failed refresh keeps the data on screen, marked as stale, rather than replacing it with an error
+      if (background && lastLoadedRef.current) {
+        setIsStale(true);
+        setRefreshError(err instanceof Error ? err.message : 'Failed to refresh credits');
+        setRetryCount(0);
+        return;
+      }
+
+      if (await serveCached()) {
+        return;
+      }
+
       const appError = err instanceof AppError 
         ? err 
         : new AppError(
@@ -71,27 +211,163 @@ export function useCredits(): UseCreditsReturn {
       setError(appError.userMessage);
       handleError(appError, {}, false); // Don't show toast here, let UI handle it
     } finally {
-      setLoading(false);
+      if (loadIdRef.current === loadId) {
+        inFlightRef.current = false;
+        setLoading(false);
+      }
     }
-  }, []);
+  }, [validationMode, provider, sourceList, aliases]);
 
   const refetch = useCallback(async () => {
     await loadCredits();
   }, [loadCredits]);
 
+  // Replace the loaded dataset with credits imported from a local file
+  const importCredits = useCallback((importedCredits: Credit[]) => {
+    // An imported file is a different dataset, so a later reload is not compared with it
+    lastLoadedRef.current = null;
+    importedRef.current = true;
+    loadIdRef.current++;
+    inFlightRef.current = false;
+    setLoading(false);
+    setChanges(null);
+    setSourceCredits(importedCredits);
+    setRejectedRows([]);
+    setFailedSources([]);
+    setError(null);
+    setRetryCount(0);
+    setLastUpdated(new Date().toISOString());
+    setIsStale(false);
+    setRefreshError(null);
+  }, []);
+
+  const dismissChanges = useCallback(() => {
+    setChanges(null);
+  }, []);
+
+  // Data-integrity pass: detect credits sharing a UNIC ID and apply the resolution policy
+  const duplicateGroups = useMemo(() => findDuplicateCredits(sourceCredits), [sourceCredits]);
+
+  const resolvedCredits = useMemo(
+    () => resolveDuplicateCredits(sourceCredits, duplicatePolicy, duplicateGroups),
+    [sourceCredits, duplicatePolicy, duplicateGroups]
+  );
+
+  const credits: CreditWithMetadata[] = useMemo(
+    () => transformCreditsWithMetadata(resolvedCredits),
+    [resolvedCredits]
+  );
+
+  // Built once per dataset so queries look words up instead of scanning every credit
+  const searchIndex = useMemo(() => buildSearchIndex(credits), [credits]);
+
+  const stats: DashboardStats = useMemo(
+    () => calculateDashboardStats(resolvedCredits),
+    [resolvedCredits]
+  );
+
   // Memoize the return object to prevent unnecessary re-renders
   const returnValue = useMemo(() => ({
     credits,
+    searchIndex,
     stats,
     loading,
     error,
     refetch,
     retryCount,
-  }), [credits, stats, loading, error, refetch, retryCount]);
+    rejectedRows,
+    failedSources,
+    importCredits,
+    duplicateGroups,
+    duplicatePolicy,
+    setDuplicatePolicy,
+    lastUpdated,
+    isStale,
+    refreshError,
+    changes,
+    dismissChanges,
+    liveStatus,
+  }), [
+    credits,
+    searchIndex,
+    stats,
+    loading,
+    error,
+    refetch,
+    retryCount,
+    rejectedRows,
+    failedSources,
+    importCredits,
+    duplicateGroups,
+    duplicatePolicy,
+    lastUpdated,
+    isStale,
+    refreshError,
+    changes,
+    dismissChanges,
+    liveStatus,
+  ]);
 
   useEffect(() => {
-    loadCredits();
-  }, [loadCredits]);
+    if (enabled) {
+      loadCredits();
+    }
+  }, [loadCredits, enabled]);
+
+  // Poll for a fresh copy in the background, skipping while offline or the tab is hidden
+  useEffect(() => {
+    if (!enabled || pollInterval <= 0) return;
+
+    const intervalId = setInterval(() => {
+      if (document.visibilityState === 'hidden' || !NetworkMonitor.getInstance().getStatus()) return;
+      loadCredits({ background: true });
+    }, pollInterval);
+    return () => clearInterval(intervalId);
+  }, [loadCredits, enabled, pollInterval]);
+
+  // Merge pushed upserts and status changes into the loaded credits without a reload
+  const applyUpdate = useCallback((event: CreditUpdateEvent) => {
+    const currentCredits = lastLoadedRef.current;
+    // Nothing loaded from the sources yet, or an imported file is on screen
+    if (!currentCredits) return;
+
+    const { credits: nextCredits, rejected } = applyCreditUpdate(currentCredits, event, liveUrl ?? undefined);
+    lastLoadedRef.current = nextCredits;
+    liveRevisionRef.current++;
+    setSourceCredits(nextCredits);
+    if (rejected.length > 0) {
+      setRejectedRows(prev => [...prev, ...rejected]);
+    }
+
+    const diff = diffCredits(currentCredits, nextCredits);
+    if (countChanges(diff) > 0) {
+      setChanges(diff);
+    }
+  }, [liveUrl]);
+
+  useEffect(() => {
+    if (!enabled || !liveUrl) return;
+
+    const disconnect = connectCreditUpdates(liveUrl, {
+      onUpdate: applyUpdate,
+      onStatusChange: setLiveStatus,
+    });
+    return () => {
+      disconnect();
+      setLiveStatus('off');
+    };
+  }, [enabled, liveUrl, applyUpdate]);
+
+  // Refresh stale data in the background once the connection comes back
+  useEffect(() => {
+    if (!enabled || !isStale) return;
+
+    return NetworkMonitor.getInstance().addListener(isOnline => {
+      if (isOnline) {
+        loadCredits({ background: true });
+      }
+    });
+  }, [loadCredits, enabled, isStale]);
 
   return returnValue;
 }
\ No newline at end of file
@@ -4,6 +4,8 @@ export interface UsePaginationProps {
   totalItems: number;
   itemsPerPage?: number;
   initialPage?: number;
+  page?: number;                          // Controlled current page, e.g. kept in the URL
+  onPageChange?: (page: number) => void;  // Called instead of updating internal state when controlled
 }
 
 export interface UsePaginationReturn {
@@ -30,20 +32,26 @@ export interface UsePaginationReturn {
 /**
  * Custom hook for managing pagination state and logic
  * Provides comprehensive pagination functionality with performance optimizations
+ * Pass page and onPageChange to control the current page from outside
  * Addresses requirement: 6.2, 6.4 - Performance with large datasets
  */
 export function usePagination({
   totalItems,
   itemsPerPage = 12,
-  initialPage = 1
+  initialPage = 1,
+  page,
+  onPageChange
 }: UsePaginationProps): UsePaginationReturn {
-  const [currentPage, setCurrentPageState] = useState(initialPage);
+  const [internalPage, setCurrentPageState] = useState(initialPage);
 
   // Calculate derived values
   const totalPages = useMemo(() => {
     return Math.max(1, Math.ceil(totalItems / itemsPerPage));
   }, [totalItems, itemsPerPage]);
 
+  // A controlled page past the end (say, from an old link) shows the last page
+  const currentPage = page !== undefined ? Math.max(1, Math.min(page, totalPages)) : internalPage;
+
   const startIndex = useMemo(() => {
     return (currentPage - 1) * itemsPerPage;
   }, [currentPage, itemsPerPage]);
@@ -71,8 +79,12 @@ export function usePagination({
   // Safe page setter that ensures page is within bounds
   const setCurrentPage = useCallback((page: number) => {
     const safePage = Math.max(1, Math.min(page, totalPages));
-    setCurrentPageState(safePage);
-  }, [totalPages]);
+    if (onPageChange) {
+      onPageChange(safePage);
+    } else {
+      setCurrentPageState(safePage);
+    }
+  }, [totalPages, onPageChange]);
 
   // Navigation functions
   const nextPage = useCallback(() => {
@@ -0,0 +1,40 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { renderHook, waitFor, act } from '@testing-library/react';
+import { useRemoteSearch } from './use-remote-search';
+import { createMockRegistry } from '@/lib/mock-registry';
+
+describe('useRemoteSearch', () => {
+  const registry = createMockRegistry();
+  let restore = () => {};
+
+  afterEach(() => {
+    restore();
+  });
+
+  it('takes the dashboard totals from the registry, not the loaded page', async () => {
+    restore = registry.install();
+    const { result } = renderHook(() => useRemoteSearch({ source: registry.endpoint, pageSize: 3 }));
+
+    await waitFor(() => expect(result.current.remote.loadedCount).toBe(3));
+
+    expect(result.current.hasPortfolioStats).toBe(true);
+    expect(result.current.stats.totalCredits).toBe(10);
+    expect(result.current.stats.activeCredits).toBe(6);
+    expect(result.current.stats.retiredCredits).toBe(4);
+    expect(result.current.stats.vintageRange).toEqual({ min: 2018, max: 2023 });
+  });
+
+  it('answers structured queries through the registry parameters', async () => {
+    restore = registry.install();
+    const { result } = renderHook(() => useRemoteSearch({ source: registry.endpoint, pageSize: 50 }));
+    await waitFor(() => expect(result.current.remote.total).toBe(10));
+
+    act(() => result.current.setQuery('registry:gs status:retired solar'));
+
+    await waitFor(() => expect(result.current.remote.total).toBe(1), { timeout: 2000 });
+    expect(result.current.filteredResults.credits.map(credit => credit.unic_id)).toEqual(['UNIC-GS-IND-2022-8A1B2C3D']);
+    const url = new URL(registry.requests[registry.requests.length - 1]);
+    expect(url.searchParams.get('q')).toBe('solar');
+    expect(url.searchParams.getAll('status')).toEqual(['Retired']);
+  });
+});
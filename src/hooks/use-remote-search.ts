@@ -0,0 +1,241 @@
+import { useState, useEffect, useMemo, useCallback, useRef } from 'react';
+import { useDebounce } from './use-debounce';
+import { INITIAL_SEARCH_STATE } from './use-search';
+import { calculateDashboardStats, transformCreditsWithMetadata, validateCreditRows } from '@/lib/data';
+import { fetchCreditPage } from '@/lib/remote-query';
+import { withQuery, withQueryFilters } from '@/lib/query-parser';
+import type { RegistryStats, RemoteQueryConfig } from '@/lib/remote-query';
+import type {
+  Credit,
+  CreditWithMetadata,
+  DashboardStats,
+  FilteredResults,
+  NumberRange,
+  RejectedCreditRow,
+  SearchState,
+  SortKey,
+  UseRemoteSearchReturn,
+} from '@/lib/types';
+
+interface RemoteResults {
+  queryKey: string;              // Query the results belong to, so late pages from an old query are dropped
+  credits: CreditWithMetadata[];
+  rejectedRows: RejectedCreditRow[];
+  total: number | null;
+  nextCursor: string | null;
+  complete: boolean;
+}
+
+function emptyResults(queryKey: string): RemoteResults {
+  return { queryKey, credits: [], rejectedRows: [], total: null, nextCursor: null, complete: false };
+}
+
+/**
+ * Search hook for remote query mode
+ * Mirrors useSearch, but sends the search state to the registry and streams
+ * matching credits in page by page as the views ask for more rows.
+ * Pass null to keep the hook idle when the dashboard loads everything locally
+ */
+export function useRemoteSearch(
+  config: RemoteQueryConfig | null,
+  initialState: SearchState = INITIAL_SEARCH_STATE
+): UseRemoteSearchReturn {
+  const source = config?.source ?? null;
+  const pageSize = config?.pageSize ?? 50;
+
+  const [searchState, setSearchState] = useState<SearchState>(initialState);
+  const debouncedQuery = useDebounce(searchState.query, 300);
+
+  const queryState = useMemo<SearchState>(() => ({
+    ...INITIAL_SEARCH_STATE,
+    query: debouncedQuery,
+    statusFilter: searchState.statusFilter,
+    vintageFilter: searchState.vintageFilter,
+    vintageRange: searchState.vintageRange,
+    sort: searchState.sort,
+  }), [
+    debouncedQuery,
+    searchState.statusFilter,
+    searchState.vintageFilter,
+    searchState.vintageRange,
+    searchState.sort,
+  ]);
+
+  const queryKey = useMemo(() => JSON.stringify([source, queryState]), [source, queryState]);
+  const hasActiveFilters =
+    queryState.query.trim() !== '' ||
+    queryState.statusFilter.length > 0 ||
+    queryState.vintageFilter.length > 0 ||
+    queryState.vintageRange !== null;
+
+  const [results, setResults] = useState<RemoteResults>(() => emptyResults(queryKey));
+  const [requestedCount, setRequestedCount] = useState(pageSize);
+  const [isFetching, setIsFetching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Unfiltered total and vintages seen, so counts and filter options survive narrowing the query
+  const [unfilteredTotal, setUnfilteredTotal] = useState<number | null>(null);
+  const [knownVintages, setKnownVintages] = useState<number[]>([]);
+  // Portfolio totals as the registry reports them; loaded pages are only a sample
+  const [registryStats, setRegistryStats] = useState<RegistryStats | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // New query: cancel the page in flight and start again from the first page
+  useEffect(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsFetching(false);
+    setError(null);
+    setResults(emptyResults(queryKey));
+    setRequestedCount(pageSize);
+  }, [queryKey, pageSize]);
+
+  // Fetch the next page while fewer results are loaded than the views asked for
+  useEffect(() => {
+    if (!source || isFetching || error) return;
+    if (results.queryKey !== queryKey || results.complete) return;
+    if (results.credits.length >= requestedCount && results.total !== null) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsFetching(true);
+
+    fetchCreditPage(source, queryState, { limit: pageSize, cursor: results.nextCursor, signal: controller.signal })
+      .then(page => {
+        const { valid, rejected } = validateCreditRows(page.data, source);
+        const offset = results.credits.length + results.rejectedRows.length;
+        const total = page.total ?? null;
+
+        setResults(prev => prev.queryKey !== queryKey ? prev : {
+          queryKey,
+          credits: [...prev.credits, ...transformCreditsWithMetadata(valid)],
+          // Row indexes count from the start of the result set, not the page
+          rejectedRows: [...prev.rejectedRows, ...rejected.map(row => ({ ...row, index: row.index + offset }))],
+          total,
+          nextCursor: page.nextCursor ?? null,
+          complete: !page.nextCursor,
+        });
+        if (!hasActiveFilters && total !== null) {
+          setUnfilteredTotal(total);
+        }
+        if (page.stats) {
+          setRegistryStats(page.stats);
+        }
+        setKnownVintages(prev => {
+          const vintages = new Set([...prev, ...valid.map(credit => credit.vintage)]);
+          return vintages.size === prev.length ? prev : [...vintages].sort((a, b) => b - a);
+        });
+      })
+      .catch(err => {
+        if (controller.signal.aborted) return;
+        setError(err instanceof Error ? err.message : 'Failed to load credits from the registry');
+      })
+      .finally(() => {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsFetching(false);
+        }
+      });
+  }, [source, pageSize, queryKey, queryState, hasActiveFilters, results, requestedCount, isFetching, error]);
+
+  // Cancel any page still in flight on unmount
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  const requestItems = useCallback((count: number) => {
+    setRequestedCount(prev => Math.max(prev, count));
+  }, []);
+
+  const retry = useCallback(() => {
+    setError(null);
+  }, []);
+
+  const filteredResults: FilteredResults = useMemo(() => ({
+    credits: results.credits,
+    totalCount: unfilteredTotal ?? results.total ?? results.credits.length,
+    filteredCount: results.total ?? results.credits.length,
+    hasActiveFilters,
+  }), [results, unfilteredTotal, hasActiveFilters]);
+
+  const stats: DashboardStats = useMemo(() => ({
+    ...calculateDashboardStats(results.credits),
+    ...registryStats,
+    totalCredits: filteredResults.totalCount,
+    availableVintages: knownVintages,
+  }), [results.credits, registryStats, filteredResults.totalCount, knownVintages]);
+
+  const setQuery = useCallback((query: string) => {
+    setSearchState(prev => withQuery(prev, query));
+  }, []);
+
+  const setStatusFilter = useCallback((statusFilter: Credit['status'][]) => {
+    setSearchState(prev => withQueryFilters(prev, { statusFilter }));
+  }, []);
+
+  const setVintageFilter = useCallback((vintageFilter: number[]) => {
+    setSearchState(prev => withQueryFilters(prev, { vintageFilter }));
+  }, []);
+
+  const setVintageRange = useCallback((vintageRange: NumberRange | null) => {
+    setSearchState(prev => withQueryFilters(prev, { vintageRange }));
+  }, []);
+
+  // Remote mode reads a single source, so there is nothing to filter by
+  const setSourceFilter = useCallback(() => {}, []);
+
+  const setSort = useCallback((sort: SortKey[]) => {
+    setSearchState(prev => ({ ...prev, sort }));
+  }, []);
+
+  const clearFilters = useCallback(() => {
+    setSearchState(INITIAL_SEARCH_STATE);
+  }, []);
+
+  const restoreSearchState = useCallback((state: SearchState) => {
+    setSearchState(withQuery(state, state.query));
+  }, []);
+
+  const remote = useMemo(() => ({
+    total: results.total,
+    loadedCount: results.credits.length,
+    isFetching,
+    hasMore: !results.complete,
+    error,
+    requestItems,
+    retry,
+  }), [results.total, results.credits.length, results.complete, isFetching, error, requestItems, retry]);
+
+  return useMemo(() => ({
+    searchState,
+    filteredResults,
+    facets: null,
+    isPending: isFetching || searchState.query !== debouncedQuery,
+    setQuery,
+    setStatusFilter,
+    setVintageFilter,
+    setVintageRange,
+    setSourceFilter,
+    setSort,
+    clearFilters,
+    setSearchState: restoreSearchState,
+    stats,
+    hasPortfolioStats: registryStats !== null,
+    rejectedRows: results.rejectedRows,
+    remote,
+  }), [
+    searchState,
+    debouncedQuery,
+    isFetching,
+    filteredResults,
+    setQuery,
+    setStatusFilter,
+    setVintageFilter,
+    setVintageRange,
+    setSourceFilter,
+    setSort,
+    clearFilters,
+    restoreSearchState,
+    stats,
+    registryStats,
+    results.rejectedRows,
+    remote,
+  ]);
+}
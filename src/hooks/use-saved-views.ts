@@ -0,0 +1,105 @@
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  createViewId,
+  getUniqueViewName,
+  loadSavedViews,
+  parseSavedViewsFile,
+  storeSavedViews,
+} from '@/lib/saved-views';
+import type { SavedView, SavedViewsState } from '@/lib/saved-views';
+
+export type SavedViewSettings = Pick<SavedView, 'search' | 'viewMode' | 'columns'>;
+
+export interface UseSavedViewsReturn {
+  views: SavedView[];
+  defaultViewId: string | null;
+  saveView: (name: string, settings: SavedViewSettings) => SavedView;
+  updateView: (id: string, settings: SavedViewSettings) => void;
+  renameView: (id: string, name: string) => void;
+  deleteView: (id: string) => void;
+  restoreView: (view: SavedView, wasDefault: boolean) => void;  // Undo a delete
+  setDefaultView: (id: string | null) => void;
+  importViews: (text: string) => SavedView[];                   // Throws when the file holds no views
+}
+
+/**
+ * Named presets of the search state, view mode and table columns, kept in local storage
+ */
+export function useSavedViews(): UseSavedViewsReturn {
+  const [state, setState] = useState<SavedViewsState>(loadSavedViews);
+  // Views as read from storage; writing them straight back would drop any view that failed to load
+  const loadedRef = useRef(state);
+
+  useEffect(() => {
+    if (state === loadedRef.current) return;
+    try {
+      storeSavedViews(state);
+    } catch (error) {
+      // Storage can be full or blocked; the views still work for this session
+      console.warn('Could not save views:', error);
+    }
+  }, [state]);
+
+  const saveView = useCallback((name: string, settings: SavedViewSettings) => {
+    const view: SavedView = {
+      id: createViewId(),
+      name: getUniqueViewName(name, state.views),
+      ...settings,
+      createdAt: new Date().toISOString(),
+    };
+    setState(prev => ({ ...prev, views: [...prev.views, view] }));
+    return view;
+  }, [state.views]);
+
+  const updateView = useCallback((id: string, settings: SavedViewSettings) => {
+    setState(prev => ({
+      ...prev,
+      views: prev.views.map(view => (view.id === id ? { ...view, ...settings } : view)),
+    }));
+  }, []);
+
+  const renameView = useCallback((id: string, name: string) => {
+    setState(prev => ({
+      ...prev,
+      views: prev.views.map(view =>
+        view.id === id ? { ...view, name: getUniqueViewName(name, prev.views, id) } : view
+      ),
+    }));
+  }, []);
+
+  const deleteView = useCallback((id: string) => {
+    setState(prev => ({
+      views: prev.views.filter(view => view.id !== id),
+      defaultViewId: prev.defaultViewId === id ? null : prev.defaultViewId,
+    }));
+  }, []);
+
+  const restoreView = useCallback((view: SavedView, wasDefault: boolean) => {
+    setState(prev => ({
+      views: prev.views.some(existing => existing.id === view.id) ? prev.views : [...prev.views, view],
+      defaultViewId: wasDefault ? view.id : prev.defaultViewId,
+    }));
+  }, []);
+
+  const setDefaultView = useCallback((id: string | null) => {
+    setState(prev => ({ ...prev, defaultViewId: id }));
+  }, []);
+
+  const importViews = useCallback((text: string) => {
+    const imported = parseSavedViewsFile(text, state.views);
+    setState(prev => ({ ...prev, views: [...prev.views, ...imported] }));
+    return imported;
+  }, [state.views]);
+
+  return useMemo(() => ({
+    views: state.views,
+    defaultViewId: state.defaultViewId,
+    saveView,
+    updateView,
+    renameView,
+    deleteView,
+    restoreView,
+    setDefaultView,
+    importViews,
+  }), [state, saveView, updateView, renameView, deleteView, restoreView, setDefaultView, importViews]);
+}
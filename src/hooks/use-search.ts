@@ -1,129 +1,186 @@
-import { useState, useMemo, useCallback, useRef } from 'react';
+import { useState, useMemo, useCallback, useRef, useEffect } from 'react';
 import { useDebounce } from './use-debounce';
-import { searchAndFilterCredits } from '@/lib/data';
+import { withQuery, withQueryFilters } from '@/lib/query-parser';
+import { createSearchClient } from '@/lib/search-client';
+import type { SearchClient } from '@/lib/search-client';
+import type { FacetCounts } from '@/lib/facets';
+import type { SearchIndex } from '@/lib/search-index';
 import type { 
   CreditWithMetadata, 
   SearchState, 
   FilteredResults, 
   UseSearchReturn,
+  NumberRange,
+  SortKey,
   Credit 
 } from '@/lib/types';
 
+export const INITIAL_SEARCH_STATE: SearchState = {
+  query: '',
+  statusFilter: [],
+  vintageFilter: [],
+  vintageRange: null,
+  sourceFilter: 'all',
+  sort: [],
+};
+
+interface SearchResults {
+  credits: CreditWithMetadata[];
+  facets: FacetCounts | null;
+  totalCount: number;
+  state: SearchState;        // The state the results answer
+}
+
 /**
  * Custom hook for search and filter functionality with enhanced performance optimizations
- * Includes debouncing, memoization, and optimized re-render prevention
+ * Includes debouncing and off-main-thread searching; isPending is set while a search is
+ * waiting on the debounce or the worker
  * Addresses requirements: 3.1, 3.2, 3.3, 6.1, 6.2, 6.3
  */
-export function useSearch(credits: CreditWithMetadata[]): UseSearchReturn {
-  const [searchState, setSearchState] = useState<SearchState>({
-    query: '',
-    statusFilter: 'all',
-    vintageFilter: 'all',
-    sortBy: 'project_name',
-    sortOrder: 'asc',
-  });
+export function useSearch(
+  searchIndex: SearchIndex,
+  initialState: SearchState = INITIAL_SEARCH_STATE
+): UseSearchReturn {
+  const [searchState, setSearchState] = useState<SearchState>(initialState);
 
   // Use the dedicated debounce hook for better performance (300ms delay)
   const debouncedQuery = useDebounce(searchState.query, 300);
   
-  // Cache previous results to avoid unnecessary recalculations
-  const previousResultsRef = useRef<FilteredResults | null>(null);
-  const previousDepsRef = useRef<string>('');
+  // The state the worker answers: the debounced query with the current filters and sort
+  const { statusFilter, vintageFilter, vintageRange, sourceFilter, sort } = searchState;
+  const queryState = useMemo<SearchState>(() => ({
+    query: debouncedQuery,
+    statusFilter,
+    vintageFilter,
+    vintageRange,
+    sourceFilter,
+    sort,
+  }), [debouncedQuery, statusFilter, vintageFilter, vintageRange, sourceFilter, sort]);
+
+  // Searching runs in a worker holding the index, so large portfolios do not block typing
+  const clientRef = useRef<SearchClient | null>(null);
+  const [response, setResponse] = useState<SearchResults>(() => ({
+    credits: [],
+    facets: null,
+    totalCount: 0,
+    state: queryState,
+  }));
+  const [isSearching, setIsSearching] = useState(false);
+
+  useEffect(() => {
+    const client = createSearchClient();
+    clientRef.current = client;
+    return () => {
+      client.dispose();
+      clientRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    clientRef.current?.load(searchIndex);
+  }, [searchIndex]);
+
+  // A newer state cancels the query still in flight
+  useEffect(() => {
+    const client = clientRef.current;
+    if (!client) return;
 
-  // Memoized filtered results with enhanced performance optimization
+    const controller = new AbortController();
+    setIsSearching(true);
+    client.search(queryState, controller.signal)
+      .then(({ credits: matches, facets }) => {
+        setResponse({ credits: matches, facets, totalCount: searchIndex.credits.length, state: queryState });
+        setIsSearching(false);
+      })
+      .catch((error: unknown) => {
+        if (controller.signal.aborted || (error instanceof DOMException && error.name === 'AbortError')) return;
+        console.error('Search failed:', error);
+        setIsSearching(false);
+      });
+
+    return () => controller.abort();
+  }, [searchIndex, queryState]);
+
+  // Results keep describing the state they were computed for until the next ones arrive
   const filteredResults: FilteredResults = useMemo(() => {
-    // Create a dependency key for comparison
-    const currentDeps = `${credits.length}-${debouncedQuery}-${searchState.statusFilter}-${searchState.vintageFilter}-${searchState.sortBy}-${searchState.sortOrder}`;
-    
-    // Return cached results if dependencies haven't changed
-    if (previousDepsRef.current === currentDeps && previousResultsRef.current) {
-      return previousResultsRef.current;
-    }
-
-    const filtered = searchAndFilterCredits(
-      credits,
-      debouncedQuery,
-      searchState.statusFilter,
-      searchState.vintageFilter,
-      searchState.sortBy,
-      searchState.sortOrder
-    );
-
-    const hasActiveFilters = 
-      debouncedQuery.trim() !== '' ||
-      searchState.statusFilter !== 'all' ||
-      searchState.vintageFilter !== 'all';
-
-    const result = {
-      credits: filtered,
-      totalCount: credits.length,
-      filteredCount: filtered.length,
+    const { state } = response;
+    const hasActiveFilters =
+      state.query.trim() !== '' ||
+      state.statusFilter.length > 0 ||
+      state.vintageFilter.length > 0 ||
+      state.vintageRange !== null ||
+      state.sourceFilter !== 'all';
+
+    return {
+      credits: response.credits,
+      totalCount: response.totalCount,
+      filteredCount: response.credits.length,
       hasActiveFilters,
     };
+  }, [response]);
 
-    // Cache the results
-    previousResultsRef.current = result;
-    previousDepsRef.current = currentDeps;
-
-    return result;
-  }, [
-    credits,
-    debouncedQuery,
-    searchState.statusFilter,
-    searchState.vintageFilter,
-    searchState.sortBy,
-    searchState.sortOrder,
-  ]);
+  const facets = response.facets;
+  const isPending = isSearching || searchState.query !== debouncedQuery;
 
   // Optimized setter functions to prevent unnecessary re-renders
   const setQuery = useCallback((query: string) => {
-    setSearchState(prev => ({ ...prev, query }));
+    setSearchState(prev => withQuery(prev, query));
   }, []);
 
-  const setStatusFilter = useCallback((statusFilter: Credit['status'] | 'all') => {
-    setSearchState(prev => ({ ...prev, statusFilter }));
+  const setStatusFilter = useCallback((statusFilter: Credit['status'][]) => {
+    setSearchState(prev => withQueryFilters(prev, { statusFilter }));
   }, []);
 
-  const setVintageFilter = useCallback((vintageFilter: number | 'all') => {
-    setSearchState(prev => ({ ...prev, vintageFilter }));
+  const setVintageFilter = useCallback((vintageFilter: number[]) => {
+    setSearchState(prev => withQueryFilters(prev, { vintageFilter }));
   }, []);
 
-  const setSortBy = useCallback((sortBy: SearchState['sortBy']) => {
-    setSearchState(prev => ({ ...prev, sortBy }));
+  const setVintageRange = useCallback((vintageRange: NumberRange | null) => {
+    setSearchState(prev => withQueryFilters(prev, { vintageRange }));
   }, []);
 
-  const setSortOrder = useCallback((sortOrder: SearchState['sortOrder']) => {
-    setSearchState(prev => ({ ...prev, sortOrder }));
+  const setSourceFilter = useCallback((sourceFilter: string | 'all') => {
+    setSearchState(prev => ({ ...prev, sourceFilter }));
+  }, []);
+
+  const setSort = useCallback((sort: SortKey[]) => {
+    setSearchState(prev => ({ ...prev, sort }));
   }, []);
 
   const clearFilters = useCallback(() => {
-    setSearchState({
-      query: '',
-      statusFilter: 'all',
-      vintageFilter: 'all',
-      sortBy: 'project_name',
-      sortOrder: 'asc',
-    });
+    setSearchState(INITIAL_SEARCH_STATE);
+  }, []);
+
+  const restoreSearchState = useCallback((state: SearchState) => {
+    setSearchState(withQuery(state, state.query));
   }, []);
 
   // Memoize the return object to prevent unnecessary re-renders
   return useMemo(() => ({
     searchState,
     filteredResults,
+    facets,
+    isPending,
     setQuery,
     setStatusFilter,
     setVintageFilter,
-    setSortBy,
-    setSortOrder,
+    setVintageRange,
+    setSourceFilter,
+    setSort,
     clearFilters,
+    setSearchState: restoreSearchState,
   }), [
     searchState,
     filteredResults,
+    facets,
+    isPending,
     setQuery,
     setStatusFilter,
     setVintageFilter,
-    setSortBy,
-    setSortOrder,
+    setVintageRange,
+    setSourceFilter,
+    setSort,
     clearFilters,
+    restoreSearchState,
   ]);
 }
\ No newline at end of file
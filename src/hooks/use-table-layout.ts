@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import type { ColumnOrderState, ColumnSizingState, VisibilityState } from '@tanstack/react-table';
+import { DEFAULT_TABLE_LAYOUT, loadTableLayout, storeTableLayout } from '@/lib/table-layout';
+import type { TableLayout } from '@/lib/table-layout';
+
+export interface UseTableLayoutReturn {
+  layout: TableLayout;
+  setVisibility: (visibility: VisibilityState) => void;
+  setOrder: (order: ColumnOrderState) => void;
+  setSizing: (sizing: ColumnSizingState) => void;
+  resetLayout: () => void;
+}
+
+/**
+ * Column visibility, order and widths of the data table, kept in local storage
+ */
+export function useTableLayout(): UseTableLayoutReturn {
+  const [layout, setLayout] = useState<TableLayout>(loadTableLayout);
+
+  useEffect(() => {
+    try {
+      storeTableLayout(layout);
+    } catch (error) {
+      // Storage can be full or blocked; the layout still applies for this session
+      console.warn('Could not save the table layout:', error);
+    }
+  }, [layout]);
+
+  const setVisibility = useCallback((visibility: VisibilityState) => {
+    setLayout(prev => ({ ...prev, visibility }));
+  }, []);
+
+  const setOrder = useCallback((order: ColumnOrderState) => {
+    setLayout(prev => ({ ...prev, order }));
+  }, []);
+
+  const setSizing = useCallback((sizing: ColumnSizingState) => {
+    setLayout(prev => ({ ...prev, sizing }));
+  }, []);
+
+  const resetLayout = useCallback(() => {
+    setLayout(DEFAULT_TABLE_LAYOUT);
+  }, []);
+
+  return useMemo(() => ({
+    layout,
+    setVisibility,
+    setOrder,
+    setSizing,
+    resetLayout,
+  }), [layout, setVisibility, setOrder, setSizing, resetLayout]);
+}
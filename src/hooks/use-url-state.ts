@@ -0,0 +1,64 @@
+import { useEffect, useMemo, useRef } from 'react';
+import { INITIAL_SEARCH_STATE } from './use-search';
+import { withQuery } from '@/lib/query-parser';
+import { hasUrlViewState, isSearchTextEdit, readUrlViewState, writeUrlViewState } from '@/lib/url-state';
+import type { UrlViewState } from '@/lib/url-state';
+
+export const DEFAULT_VIEW_STATE: UrlViewState = {
+  search: INITIAL_SEARCH_STATE,
+  viewMode: 'cards',
+  page: 1,
+};
+
+/**
+ * View to open the dashboard with: the one in the URL, or else the default saved view
+ */
+export function getInitialViewState(defaultView: Pick<UrlViewState, 'search' | 'viewMode'> | null = null): UrlViewState {
+  if (defaultView && !hasUrlViewState()) {
+    return { search: withQuery(defaultView.search, defaultView.search.query), viewMode: defaultView.viewMode, page: 1 };
+  }
+  return readUrlViewState(DEFAULT_VIEW_STATE);
+}
+
+/**
+ * Keep the dashboard view and the URL in sync both ways
+ * View changes are written to the address bar, each as a history entry of its own
+ * (typing in the search box rewrites the current one); back and forward hand the
+ * view stored in that entry to onRestore
+ */
+export function useUrlViewState(state: UrlViewState, onRestore: (state: UrlViewState) => void): void {
+  const { search, viewMode, page } = state;
+  const nextSearch = useMemo(
+    () => writeUrlViewState({ search, viewMode, page }, DEFAULT_VIEW_STATE),
+    [search, viewMode, page]
+  );
+  const isFirstWriteRef = useRef(true);
+  const onRestoreRef = useRef(onRestore);
+
+  useEffect(() => {
+    onRestoreRef.current = onRestore;
+  }, [onRestore]);
+
+  useEffect(() => {
+    const currentSearch = window.location.search;
+    if (nextSearch !== currentSearch) {
+      const url = `${window.location.pathname}${nextSearch}${window.location.hash}`;
+      // The first write only tidies the URL the dashboard was opened with
+      if (isFirstWriteRef.current || isSearchTextEdit(currentSearch, nextSearch)) {
+        window.history.replaceState(window.history.state, '', url);
+      } else {
+        window.history.pushState(null, '', url);
+      }
+    }
+    isFirstWriteRef.current = false;
+  }, [nextSearch]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      onRestoreRef.current(readUrlViewState(DEFAULT_VIEW_STATE));
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
+}
@@ -0,0 +1,69 @@
+import { useEffect, useLayoutEffect, useRef } from 'react';
+import type { RefObject } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+
+export interface UseWindowedListOptions {
+  scrollRef: RefObject<HTMLElement | null>;
+  count: number;
+  getItemKey: (index: number) => string;
+  indexOfKey: (key: string) => number;  // -1 once the key has left the list; a new function when the list changes
+  estimateSize: number;                 // Row height in pixels before the row is measured
+  overscan?: number;
+  gap?: number;
+}
+
+/**
+ * Windowed rows inside a scroll container, shared by the card grid and the data table
+ * Only the rows in view (plus overscan) are rendered, whatever the list length.
+ * When the list changes, say after a filter, the row that was at the top of the
+ * view is scrolled back to the top; if it was filtered out the offset is kept.
+ * The scroll container should stay mounted for as long as the hook is used
+ */
+export function useWindowedList({
+  scrollRef,
+  count,
+  getItemKey,
+  indexOfKey,
+  estimateSize,
+  overscan = 6,
+  gap = 0,
+}: UseWindowedListOptions) {
+  const virtualizer = useVirtualizer({
+    count,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => estimateSize,
+    getItemKey,
+    overscan,
+    gap,
+  });
+
+  // Key of the row at the top of the view and how far it is scrolled past
+  const anchorRef = useRef<{ key: string; offset: number } | null>(null);
+
+  // Tracked from scroll events only, so re-measuring new rows cannot move the anchor
+  useEffect(() => {
+    const element = scrollRef.current;
+    if (!element) return;
+
+    const handleScroll = () => {
+      const item = element.scrollTop > 0 ? virtualizer.getVirtualItemForOffset(element.scrollTop) : undefined;
+      anchorRef.current = item ? { key: String(item.key), offset: element.scrollTop - item.start } : null;
+    };
+
+    element.addEventListener('scroll', handleScroll, { passive: true });
+    return () => element.removeEventListener('scroll', handleScroll);
+  }, [scrollRef, virtualizer]);
+
+  useLayoutEffect(() => {
+    const anchor = anchorRef.current;
+    if (!anchor) return;
+
+    const index = indexOfKey(anchor.key);
+    const start = index >= 0 ? virtualizer.getOffsetForIndex(index, 'start')?.[0] : undefined;
+    if (start !== undefined) {
+      virtualizer.scrollToOffset(start + anchor.offset);
+    }
+  }, [indexOfKey, virtualizer]);
+
+  return virtualizer;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { countChanges, diffCredits, getChangedCreditIds, summarizeChanges } from './change-detection';
+import type { Credit } from './types';
+
+function credit(unicId: string, overrides: Partial<Credit> = {}): Credit {
+  return { unic_id: unicId, project_name: 'Mangroves', vintage: 2023, status: 'Active', ...overrides };
+}
+
+describe('diffCredits', () => {
+  it('finds added, removed and status-changed credits by UNIC ID', () => {
+    const previous = [credit('A'), credit('B'), credit('C')];
+    const next = [credit('B', { status: 'Retired' }), credit('C'), credit('D')];
+
+    const changes = diffCredits(previous, next);
+
+    expect(changes.added).toEqual([credit('D')]);
+    expect(changes.removed).toEqual([credit('A')]);
+    expect(changes.statusChanged).toEqual([{ credit: next[0], from: 'Active', to: 'Retired' }]);
+    expect(countChanges(changes)).toBe(3);
+  });
+
+  it('ignores reordered credits and reordered fields', () => {
+    const previous = [credit('A'), credit('B', { quantity: 10 })];
+    const next = [
+      { quantity: 10, status: 'Active', vintage: 2023, project_name: 'Mangroves', unic_id: 'B' } as Credit,
+      credit('A'),
+    ];
+
+    expect(countChanges(diffCredits(previous, next))).toBe(0);
+  });
+
+  it('ignores changes to fields other than the status', () => {
+    const previous = [credit('A'), credit('B', { region: 'Sundarbans' })];
+    const next = [credit('A', { quantity: 500, project_name: 'Renamed' }), credit('B')];
+
+    expect(countChanges(diffCredits(previous, next))).toBe(0);
+  });
+
+  it('compares the last record of a repeated UNIC ID', () => {
+    const previous = [credit('A', { status: 'Retired' }), credit('A')];
+    const next = [credit('A', { status: 'Retired' })];
+
+    expect(diffCredits(previous, next).statusChanged).toEqual([{ credit: next[0], from: 'Active', to: 'Retired' }]);
+  });
+});
+
+describe('summarizeChanges', () => {
+  it('lists each kind of change and highlights the credits still present', () => {
+    const changes = diffCredits([credit('A'), credit('B')], [credit('B', { status: 'Retired' }), credit('C')]);
+
+    expect(summarizeChanges(changes)).toBe('1 new, 1 removed, 1 status change');
+    expect(getChangedCreditIds(changes)).toEqual(new Map([['C', 'added'], ['B', 'status']]));
+  });
+
+  it('reports no changes for an identical reload', () => {
+    expect(summarizeChanges(diffCredits([credit('A')], [credit('A')]))).toBe('No changes');
+  });
+});
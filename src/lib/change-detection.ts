@@ -0,0 +1,83 @@
+import type { Credit } from "./types";
+
+/**
+ * Change detection between two versions of the portfolio, matched by UNIC ID
+ */
+
+export interface CreditStatusChange {
+  credit: Credit;                  // The credit as it is now
+  from: Credit['status'];
+  to: Credit['status'];
+}
+
+export interface CreditChangeSet {
+  added: Credit[];
+  removed: Credit[];
+  statusChanged: CreditStatusChange[];
+  detectedAt: string;              // ISO timestamp of the reload that produced the changes
+}
+
+export type CreditChangeKind = 'added' | 'status';
+
+function indexById(credits: Credit[]): Map<string, Credit> {
+  // Later records win, matching how a reload would overwrite earlier ones
+  return new Map(credits.map(credit => [credit.unic_id, credit]));
+}
+
+/**
+ * Compare a reload with the previous dataset: new credits, removed credits and status changes
+ */
+export function diffCredits(previous: Credit[], next: Credit[]): CreditChangeSet {
+  const previousById = indexById(previous);
+  const nextById = indexById(next);
+  const changes: CreditChangeSet = {
+    added: [],
+    removed: [],
+    statusChanged: [],
+    detectedAt: new Date().toISOString(),
+  };
+
+  nextById.forEach((credit, unicId) => {
+    const before = previousById.get(unicId);
+    if (!before) {
+      changes.added.push(credit);
+    } else if (before.status !== credit.status) {
+      changes.statusChanged.push({ credit, from: before.status, to: credit.status });
+    }
+  });
+
+  previousById.forEach((credit, unicId) => {
+    if (!nextById.has(unicId)) {
+      changes.removed.push(credit);
+    }
+  });
+
+  return changes;
+}
+
+export function countChanges(changes: CreditChangeSet): number {
+  return changes.added.length + changes.removed.length + changes.statusChanged.length;
+}
+
+/**
+ * One-line summary such as "3 new, 1 removed, 2 status changes"
+ */
+export function summarizeChanges(changes: CreditChangeSet): string {
+  const parts: string[] = [];
+  if (changes.added.length > 0) parts.push(`${changes.added.length} new`);
+  if (changes.removed.length > 0) parts.push(`${changes.removed.length} removed`);
+  if (changes.statusChanged.length > 0) {
+    parts.push(`${changes.statusChanged.length} status change${changes.statusChanged.length === 1 ? '' : 's'}`);
+  }
+  return parts.length > 0 ? parts.join(', ') : 'No changes';
+}
+
+/**
+ * Credits still in the portfolio that changed, keyed by UNIC ID, for highlighting
+ */
+export function getChangedCreditIds(changes: CreditChangeSet): Map<string, CreditChangeKind> {
+  const ids = new Map<string, CreditChangeKind>();
+  changes.added.forEach(credit => ids.set(credit.unic_id, 'added'));
+  changes.statusChanged.forEach(({ credit }) => ids.set(credit.unic_id, 'status'));
+  return ids;
+}
@@ -0,0 +1,112 @@
+import type { Credit, RejectedCreditRow } from "./types";
+
+/**
+ * Offline cache of the last successfully loaded portfolio
+ * Stored in IndexedDB, with localStorage as a fallback where IndexedDB is
+ * unavailable (private browsing, older browsers) or fails
+ */
+
+export interface CachedPortfolio {
+  sourcesKey: string;              // Sources the credits were loaded from
+  credits: Credit[];
+  rejectedRows: RejectedCreditRow[];
+  savedAt: string;                 // ISO timestamp of the successful load
+}
+
+const DB_NAME = 'eco-offset-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'portfolio';
+const ENTRY_KEY = 'last';
+const FALLBACK_KEY = 'eco-offset-portfolio-cache';
+
+/**
+ * Identify a source list independent of order, so a cache is only served for the sources it came from
+ */
+export function getSourcesKey(sources: string[]): string {
+  return [...sources].sort().join('\n');
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = operation(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+function isCachedPortfolio(value: unknown): value is CachedPortfolio {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as CachedPortfolio;
+  return typeof entry.sourcesKey === 'string'
+    && Array.isArray(entry.credits)
+    && Array.isArray(entry.rejectedRows)
+    && typeof entry.savedAt === 'string';
+}
+
+/**
+ * Store the portfolio, replacing the previous one. Failures are logged, never thrown:
+ * the cache is a convenience and must not break a successful load
+ */
+export async function saveCachedPortfolio(portfolio: CachedPortfolio): Promise<void> {
+  try {
+    await runTransaction('readwrite', store => store.put(portfolio, ENTRY_KEY));
+    // Drop any older fallback copy so the two stores never disagree
+    localStorage.removeItem(FALLBACK_KEY);
+  } catch (error) {
+    try {
+      localStorage.setItem(FALLBACK_KEY, JSON.stringify(portfolio));
+    } catch {
+      console.warn('Could not cache credits for offline use:', error);
+    }
+  }
+}
+
+/**
+ * Read the cached portfolio for the given sources, or null when there is none
+ */
+export async function loadCachedPortfolio(sourcesKey: string): Promise<CachedPortfolio | null> {
+  let entry: unknown = null;
+
+  try {
+    entry = await runTransaction<unknown>('readonly', store => store.get(ENTRY_KEY));
+  } catch {
+    // Fall through to the localStorage copy
+  }
+
+  if (!isCachedPortfolio(entry)) {
+    try {
+      const stored = localStorage.getItem(FALLBACK_KEY);
+      entry = stored ? JSON.parse(stored) : null;
+    } catch {
+      entry = null;
+    }
+  }
+
+  return isCachedPortfolio(entry) && entry.sourcesKey === sourcesKey ? entry : null;
+}
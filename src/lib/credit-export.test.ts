@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest';
+import { creditsToCsv, creditsToJson } from './credit-export';
+import { transformCreditsWithMetadata } from './data';
+import type { Credit } from './types';
+
+const CREDIT: Credit = {
+  unic_id: 'UNIC-VCS-IND-2023-4F7A8C1B',
+  project_name: 'Mangrove Restoration, Phase "2"',
+  vintage: 2023,
+  status: 'Active',
+  quantity: 1200,
+  source: 'credits.json',
+};
+
+describe('credit export', () => {
+  it('writes only the credit fields to JSON', () => {
+    const [credit] = transformCreditsWithMetadata([CREDIT]);
+    expect(JSON.parse(creditsToJson([credit]))).toEqual([CREDIT]);
+  });
+
+  it('writes the same fields to CSV, quoting where needed', () => {
+    const [header, row] = creditsToCsv(transformCreditsWithMetadata([CREDIT])).split('\r\n');
+    expect(header).toBe('unic_id,project_name,vintage,status,quantity,methodology,project_type,country,region,issuance_date,retirement_date,source');
+    expect(row).toBe('UNIC-VCS-IND-2023-4F7A8C1B,"Mangrove Restoration, Phase ""2""",2023,Active,1200,,,,,,,credits.json');
+  });
+});
@@ -0,0 +1,78 @@
+import type { Credit } from "./types";
+
+/**
+ * Export of credits as CSV or JSON files
+ * Column names match the credit fields, so exported files can be imported again
+ */
+
+export type ExportFormat = 'csv' | 'json';
+
+const EXPORT_FIELDS = [
+  'unic_id',
+  'project_name',
+  'vintage',
+  'status',
+  'quantity',
+  'methodology',
+  'project_type',
+  'country',
+  'region',
+  'issuance_date',
+  'retirement_date',
+  'source',
+] as const satisfies readonly (keyof Credit)[];
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+function toCsvField(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  let text = String(value);
+  // Spreadsheets run cells starting with these as formulas
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Credits as CSV text with a header row
+ */
+export function creditsToCsv(credits: Credit[]): string {
+  const rows = credits.map(credit => EXPORT_FIELDS.map(field => toCsvField(credit[field])).join(','));
+  return [EXPORT_FIELDS.join(','), ...rows].join('\r\n');
+}
+
+/**
+ * Credits as a JSON array with the same fields as the CSV export
+ * Search and validation metadata added while loading is left out; missing fields are omitted
+ */
+export function creditsToJson(credits: Credit[]): string {
+  const records = credits.map(credit =>
+    Object.fromEntries(EXPORT_FIELDS.flatMap(field => (credit[field] === undefined ? [] : [[field, credit[field]]])))
+  );
+  return JSON.stringify(records, null, 2);
+}
+
+/**
+ * Offer a file for download
+ */
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 100);
+}
+
+/**
+ * Download credits in the given format, named after the current date
+ */
+export function exportCredits(credits: Credit[], format: ExportFormat): void {
+  const content = format === 'csv' ? creditsToCsv(credits) : creditsToJson(credits);
+  const date = new Date().toISOString().slice(0, 10);
+  downloadBlob(new Blob([content], { type: MIME_TYPES[format] }), `credits-${date}.${format}`);
+}
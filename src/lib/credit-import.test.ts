@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadColumnAliases, mapRowsToRecords, parseCreditData, storeColumnAliases } from './credit-import';
+import { formatRejectedRows, getRejectedRowNumber, validateCreditRows } from './data';
+
+const CSV = [
+  'unic_id,project_name,vintage,status',
+  'UNIC-VCS-IND-2023-4F7A8C1B,Mangrove Restoration,2023,Active',
+  '',
+  'UNIC-GS-IND-2022-8A1B2C3D,"Solar Power',
+  'Plant",not-a-year,Retired',
+  'UNIC-VCS-IND-2021-9D4E7F8G,Wind Farm,2021,Pending',
+].join('\r\n');
+
+describe('rejected row numbers', () => {
+  it('are the lines of a CSV file, header included', () => {
+    const { valid, rejected } = validateCreditRows(parseCreditData(CSV, { fileName: 'credits.csv' }));
+
+    expect(valid).toHaveLength(1);
+    expect(rejected.map(getRejectedRowNumber)).toEqual([4, 6]);
+    expect(formatRejectedRows(rejected)).toMatch(/^line 4 vintage: /);
+  });
+
+  it('are the record numbers of a JSON file', () => {
+    const { rejected } = validateCreditRows(parseCreditData('[{"unic_id": "x"}, {}]', { fileName: 'credits.json' }));
+
+    expect(rejected.map(getRejectedRowNumber)).toEqual([1, 2]);
+  });
+});
+
+describe('column aliases', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('leave generic headers unmapped by default', () => {
+    const [record] = mapRowsToRecords([
+      ['Serial Number', 'id', 'name', 'year', 'amount', 'type', 'category', 'state', 'retired'],
+      ['UNIC-1', '42', 'Jane', '2024', '9.99', 'Forestry', 'B', 'CA', 'true'],
+    ]);
+
+    expect(record).toEqual({ unic_id: 'UNIC-1' });
+  });
+
+  it('map custom header names before the defaults', () => {
+    const [record] = mapRowsToRecords(
+      [['Credit Ref', 'unic_id', 'type'], ['UNIC-2', 'ignored', 'Forestry']],
+      { unic_id: ['credit ref'], project_type: ['type'] }
+    );
+
+    expect(record).toEqual({ unic_id: 'UNIC-2', project_type: 'Forestry' });
+  });
+
+  it('take precedence over default columns that come first', () => {
+    const [first, second] = mapRowsToRecords(
+      [['unic_id', 'credit_id', 'Credit Ref'], ['UNIC-A', 'UNIC-B', 'UNIC-C'], ['UNIC-A', 'UNIC-B', '']],
+      { unic_id: ['credit ref'] }
+    );
+
+    expect(first.unic_id).toBe('UNIC-C');
+    expect(second.unic_id).toBe('UNIC-A');
+  });
+
+  it('are stored in the browser and cleared once empty', () => {
+    storeColumnAliases({ status: ['Credit State'] });
+    expect(loadColumnAliases()).toEqual({ status: ['Credit State'] });
+
+    storeColumnAliases({ status: [] });
+    expect(localStorage.length).toBe(0);
+
+    localStorage.setItem('eco-offset-column-aliases', '{"status": "Active"}');
+    expect(loadColumnAliases()).toEqual({});
+  });
+});
@@ -0,0 +1,320 @@
+import { z } from "zod";
+import type { Credit } from "./types";
+
+/**
+ * Import layer for credit data files
+ * Detects the file format from the content type or file extension and turns
+ * JSON, CSV or TSV content into plain records ready for schema validation
+ */
+
+export type ImportFormat = 'json' | 'csv' | 'tsv' | (string & {});
+
+// The source column is set by the loader, never read from the file
+type ImportableField = Exclude<keyof Credit, 'source'>;
+
+export type ColumnAliases = Partial<Record<ImportableField, string[]>>;
+
+export interface ImportOptions {
+  contentType?: string | null;
+  fileName?: string | null;
+  columnAliases?: ColumnAliases;
+}
+
+/**
+ * An importer turns raw file text into unvalidated data, normally an array of records
+ */
+export type CreditImporter = (text: string, options: ImportOptions) => unknown;
+
+/**
+ * Header names recognised for each credit field. Matching ignores case,
+ * surrounding whitespace and the difference between spaces, dashes and underscores.
+ * Generic names such as "id", "name", "year", "type" or "state" are left out, since
+ * registries use them for unrelated columns; add them as custom aliases where they fit a file
+ */
+export const DEFAULT_COLUMN_ALIASES: Required<ColumnAliases> = {
+  unic_id: ['unic_id', 'unic', 'credit_id', 'serial_number'],
+  project_name: ['project_name', 'project', 'project_title'],
+  vintage: ['vintage', 'vintage_year'],
+  status: ['status', 'credit_status'],
+  quantity: ['quantity', 'tonnes', 'tons', 'volume', 'qty'],
+  methodology: ['methodology', 'method'],
+  project_type: ['project_type', 'project_category'],
+  country: ['country', 'country_code'],
+  region: ['region', 'state_province', 'province'],
+  issuance_date: ['issuance_date', 'issue_date', 'issued_on'],
+  retirement_date: ['retirement_date', 'retired_on', 'retired_date'],
+};
+
+const COLUMN_ALIASES_KEY = 'eco-offset-column-aliases';
+
+const columnAliasesSchema = z.partialRecord(
+  z.enum(Object.keys(DEFAULT_COLUMN_ALIASES) as [ImportableField, ...ImportableField[]]),
+  z.array(z.string())
+);
+
+/**
+ * Read the custom column aliases from local storage; unreadable data counts as none
+ */
+export function loadColumnAliases(): ColumnAliases {
+  try {
+    const stored = localStorage.getItem(COLUMN_ALIASES_KEY);
+    const parsed = stored ? columnAliasesSchema.safeParse(JSON.parse(stored)) : null;
+    return parsed?.success ? parsed.data : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Persist the custom column aliases, removing the entry once none are left
+ */
+export function storeColumnAliases(columnAliases: ColumnAliases): void {
+  if (Object.values(columnAliases).every(aliases => !aliases?.length)) {
+    localStorage.removeItem(COLUMN_ALIASES_KEY);
+  } else {
+    localStorage.setItem(COLUMN_ALIASES_KEY, JSON.stringify(columnAliases));
+  }
+}
+
+const NUMERIC_FIELDS = new Set<ImportableField>(['vintage', 'quantity']);
+
+const CONTENT_TYPE_FORMATS: Array<[RegExp, ImportFormat]> = [
+  [/json/i, 'json'],
+  [/tab-separated-values/i, 'tsv'],
+  [/csv/i, 'csv'],
+];
+
+const EXTENSION_FORMATS: Record<string, ImportFormat> = {
+  json: 'json',
+  csv: 'csv',
+  tsv: 'tsv',
+  tab: 'tsv',
+};
+
+const importers = new Map<ImportFormat, CreditImporter>();
+
+// Line in the file each record read from CSV or TSV starts on, for error messages
+const recordLines = new WeakMap<object, number>();
+
+/**
+ * The 1-based line a record starts on in its CSV or TSV file, header included
+ * Undefined for records that did not come from a delimited file
+ */
+export function getRecordLine(record: unknown): number | undefined {
+  return typeof record === 'object' && record !== null ? recordLines.get(record) : undefined;
+}
+
+/**
+ * Register an importer for a format, replacing any existing one
+ */
+export function registerCreditImporter(format: ImportFormat, importer: CreditImporter): void {
+  importers.set(format, importer);
+}
+
+/**
+ * Detect the import format from the content type, then the file extension,
+ * then the content itself
+ */
+export function detectImportFormat(text: string, options: ImportOptions = {}): ImportFormat {
+  if (options.contentType) {
+    const match = CONTENT_TYPE_FORMATS.find(([pattern]) => pattern.test(options.contentType!));
+    if (match) return match[1];
+  }
+
+  if (options.fileName) {
+    // Strip query string and hash so URLs like data.csv?v=2 still resolve
+    const path = options.fileName.split(/[?#]/)[0];
+    const extension = path.slice(path.lastIndexOf('.') + 1).toLowerCase();
+    const format = EXTENSION_FORMATS[extension] ?? (importers.has(extension) ? extension : undefined);
+    if (format) return format;
+  }
+
+  const trimmed = text.trimStart();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    return 'json';
+  }
+  const firstLine = trimmed.split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') ? 'tsv' : 'csv';
+}
+
+/**
+ * Parse credit data text into unvalidated records using the detected importer
+ */
+export function parseCreditData(text: string, options: ImportOptions = {}): unknown {
+  const format = detectImportFormat(text, options);
+  const importer = importers.get(format);
+  if (!importer) {
+    throw new Error(`Unsupported data format: ${format}`);
+  }
+  return importer(text, options);
+}
+
+/**
+ * Split delimited text into rows of cells, honouring double-quoted cells
+ * with embedded delimiters, newlines and escaped quotes
+ */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  return parseDelimitedLines(text, delimiter).rows;
+}
+
+/**
+ * parseDelimited, along with the 1-based line each row starts on
+ */
+function parseDelimitedLines(text: string, delimiter: string): { rows: string[][]; lines: number[] } {
+  const rows: string[][] = [];
+  const lines: number[] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        // Quoted newlines belong to the cell but still move to the next line of the file
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      lines.push(rowLine);
+      row = [];
+      cell = '';
+      rowLine = ++line;
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+    lines.push(rowLine);
+  }
+
+  // Drop blank lines
+  const kept = rows.flatMap((r, index) => (r.some(value => value.trim() !== '') ? [index] : []));
+  return { rows: kept.map(index => rows[index]), lines: kept.map(index => lines[index]) };
+}
+
+function normalizeHeader(header: string): string {
+  return header.trim().toLowerCase().replace(/[\s-]+/g, '_');
+}
+
+interface HeaderMatch {
+  field: ImportableField;
+  priority: number;  // Lower wins when several columns map to the same field
+}
+
+/**
+ * Build a lookup from normalised header names to credit fields
+ */
+function buildHeaderLookup(columnAliases: ColumnAliases = {}): Map<string, HeaderMatch> {
+  const lookup = new Map<string, HeaderMatch>();
+  const fields = Object.keys(DEFAULT_COLUMN_ALIASES) as ImportableField[];
+
+  // Custom aliases are registered first so they take precedence over the defaults
+  for (const aliasSet of [columnAliases, DEFAULT_COLUMN_ALIASES]) {
+    for (const field of fields) {
+      for (const alias of aliasSet[field] ?? []) {
+        const key = normalizeHeader(alias);
+        if (!lookup.has(key)) {
+          lookup.set(key, { field, priority: lookup.size });
+        }
+      }
+    }
+  }
+
+  return lookup;
+}
+
+function coerceCell(field: ImportableField, value: string): unknown {
+  const trimmed = value.trim();
+  if (trimmed === '') {
+    return undefined;
+  }
+
+  if (NUMERIC_FIELDS.has(field)) {
+    const numeric = Number(trimmed.replace(/,/g, ''));
+    // Leave unparseable values as strings so validation reports them
+    return Number.isNaN(numeric) ? trimmed : numeric;
+  }
+
+  if (field === 'status') {
+    const lower = trimmed.toLowerCase();
+    if (lower === 'active') return 'Active';
+    if (lower === 'retired') return 'Retired';
+  }
+
+  return trimmed;
+}
+
+/**
+ * Map tabular rows onto credit records using the header row and column aliases.
+ * When several columns map to one field, the column matched by the higher-priority
+ * alias is read first, custom aliases before the defaults; an empty cell falls through
+ * to the next column. Unrecognised columns are ignored.
+ */
+export function mapRowsToRecords(
+  rows: string[][],
+  columnAliases?: ColumnAliases,
+  lines?: number[]  // Line in the file each row starts on, the header row's first
+): Record<string, unknown>[] {
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const [headerRow, ...dataRows] = rows;
+  const lookup = buildHeaderLookup(columnAliases);
+  const columns = headerRow
+    .map((header, index) => ({ index, match: lookup.get(normalizeHeader(header)) }))
+    .filter((column): column is { index: number; match: HeaderMatch } => column.match !== undefined)
+    .sort((a, b) => a.match.priority - b.match.priority);
+
+  return dataRows.map((row, rowIndex) => {
+    const record: Record<string, unknown> = {};
+    const line = lines?.[rowIndex + 1];
+    if (line !== undefined) {
+      recordLines.set(record, line);
+    }
+    for (const { index, match: { field } } of columns) {
+      if (record[field] !== undefined) continue;
+      const value = coerceCell(field, row[index] ?? '');
+      if (value !== undefined) {
+        record[field] = value;
+      }
+    }
+    return record;
+  });
+}
+
+registerCreditImporter('json', (text) => JSON.parse(text));
+
+registerCreditImporter('csv', (text, options) => {
+  const { rows, lines } = parseDelimitedLines(text, ',');
+  return mapRowsToRecords(rows, options.columnAliases, lines);
+});
+
+registerCreditImporter('tsv', (text, options) => {
+  const { rows, lines } = parseDelimitedLines(text, '\t');
+  return mapRowsToRecords(rows, options.columnAliases, lines);
+});
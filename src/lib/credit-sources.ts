@@ -0,0 +1,62 @@
+/**
+ * Data source configuration for the credit portfolio
+ * Sources come from repeated ?data= parameters, or from a saved list when none are given
+ */
+
+export const SAMPLE_SOURCE = 'sample';
+
+const SAVED_SOURCES_KEY = 'eco-offset-sources';
+
+/**
+ * Read the saved source list from local storage
+ */
+export function loadSavedSources(): string[] {
+  try {
+    const stored = localStorage.getItem(SAVED_SOURCES_KEY);
+    const parsed: unknown = stored ? JSON.parse(stored) : [];
+    return Array.isArray(parsed) ? parsed.filter((value): value is string => typeof value === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Persist the source list, trimming blanks and duplicates
+ */
+export function saveSources(sources: string[]): void {
+  const cleaned = [...new Set(sources.map(source => source.trim()).filter(Boolean))];
+  if (cleaned.length === 0) {
+    localStorage.removeItem(SAVED_SOURCES_KEY);
+  } else {
+    localStorage.setItem(SAVED_SOURCES_KEY, JSON.stringify(cleaned));
+  }
+}
+
+/**
+ * Resolve the sources to load: ?data= parameters win over the saved list
+ */
+export function getConfiguredSources(search: string = window.location.search): string[] {
+  const fromUrl = new URLSearchParams(search).getAll('data').filter(Boolean);
+  return fromUrl.length > 0 ? [...new Set(fromUrl)] : loadSavedSources();
+}
+
+/**
+ * Short display label for a source URL or file name
+ */
+export function getSourceLabel(source: string): string {
+  if (source === SAMPLE_SOURCE) {
+    return 'Sample data';
+  }
+
+  try {
+    const url = new URL(source, window.location.href);
+    const fileName = url.pathname.split('/').filter(Boolean).pop();
+    // Different hosts can serve the same file name, so keep the host for remote sources
+    if (url.origin !== window.location.origin) {
+      return fileName ? `${url.hostname}/${fileName}` : url.hostname;
+    }
+    return fileName ?? source;
+  } catch {
+    return source;
+  }
+}
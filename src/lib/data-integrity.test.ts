@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { findDuplicateCredits, resolveDuplicateCredits } from './data-integrity';
+import type { Credit } from './types';
+
+function credit(unicId: string, overrides: Partial<Credit> = {}): Credit {
+  return { unic_id: unicId, project_name: 'Mangroves', vintage: 2023, status: 'Active', ...overrides };
+}
+
+// A: exact copy from a second source; B: conflicting status; C: unique
+const CREDITS = [
+  credit('A', { source: 'a.json' }),
+  credit('B', { source: 'a.json' }),
+  credit('C', { source: 'a.json' }),
+  credit('A', { source: 'b.json' }),
+  credit('B', { source: 'b.json', status: 'Retired' }),
+];
+
+describe('findDuplicateCredits', () => {
+  it('groups records sharing a UNIC ID with their positions', () => {
+    const groups = findDuplicateCredits(CREDITS);
+
+    expect(groups.map(({ unic_id, kind, indexes }) => ({ unic_id, kind, indexes }))).toEqual([
+      { unic_id: 'A', kind: 'duplicate', indexes: [0, 3] },
+      { unic_id: 'B', kind: 'conflict', indexes: [1, 4] },
+    ]);
+  });
+
+  it('lists the fields that disagree, ignoring the source', () => {
+    const [, conflict] = findDuplicateCredits(CREDITS);
+
+    expect(conflict.conflictingFields).toEqual(['status']);
+  });
+
+  it('counts a field present on only one record as a conflict', () => {
+    const [group] = findDuplicateCredits([credit('A'), credit('A', { quantity: 100 })]);
+
+    expect(group.kind).toBe('conflict');
+    expect(group.conflictingFields).toEqual(['quantity']);
+  });
+
+  it('finds nothing when every UNIC ID is unique', () => {
+    expect(findDuplicateCredits([credit('A'), credit('B')])).toEqual([]);
+  });
+});
+
+describe('resolveDuplicateCredits', () => {
+  it('keeps the first record of each group with first-wins', () => {
+    const resolved = resolveDuplicateCredits(CREDITS, 'first-wins');
+
+    expect(resolved).toEqual([CREDITS[0], CREDITS[1], CREDITS[2]]);
+  });
+
+  it('keeps the last record of each group with last-wins', () => {
+    const resolved = resolveDuplicateCredits(CREDITS, 'last-wins');
+
+    expect(resolved).toEqual([CREDITS[2], CREDITS[3], CREDITS[4]]);
+    expect(resolved.find(record => record.unic_id === 'B')?.status).toBe('Retired');
+  });
+
+  it('drops conflicting IDs but collapses exact copies with exclude', () => {
+    const resolved = resolveDuplicateCredits(CREDITS, 'exclude');
+
+    expect(resolved).toEqual([CREDITS[0], CREDITS[2]]);
+  });
+
+  it('returns the credits unchanged when there are no duplicates', () => {
+    const credits = [credit('A'), credit('B')];
+
+    expect(resolveDuplicateCredits(credits, 'exclude')).toBe(credits);
+  });
+
+  it('uses groups found beforehand', () => {
+    const groups = findDuplicateCredits(CREDITS).filter(group => group.unic_id === 'A');
+
+    expect(resolveDuplicateCredits(CREDITS, 'exclude', groups)).toEqual(CREDITS.slice(0, 3).concat(CREDITS[4]));
+  });
+});
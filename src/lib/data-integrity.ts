@@ -0,0 +1,97 @@
+import type { Credit } from "./types";
+
+/**
+ * Data integrity checks run after credits are loaded
+ * UNIC IDs must be unique: they key React lists and identify credits across views
+ */
+
+export type DuplicateResolution = 'first-wins' | 'last-wins' | 'exclude';
+
+export interface DuplicateGroup {
+  unic_id: string;
+  kind: 'duplicate' | 'conflict';      // Exact copies vs records that disagree
+  indexes: number[];                   // Positions of the records in the loaded data
+  records: Credit[];
+  conflictingFields: Array<keyof Credit>;
+}
+
+export const DUPLICATE_RESOLUTION_LABELS: Record<DuplicateResolution, string> = {
+  'first-wins': 'First wins',
+  'last-wins': 'Last wins',
+  'exclude': 'Exclude conflicts',
+};
+
+function getConflictingFields(records: Credit[]): Array<keyof Credit> {
+  const fields = new Set<keyof Credit>();
+  records.forEach(record => {
+    (Object.keys(record) as Array<keyof Credit>).forEach(field => fields.add(field));
+  });
+  // The same record listed by two sources is a duplicate, not a conflict
+  fields.delete('source');
+
+  return [...fields].filter(field =>
+    records.some(record => record[field] !== records[0][field])
+  );
+}
+
+/**
+ * Group credits sharing a UNIC ID into exact duplicates and conflicting records
+ */
+export function findDuplicateCredits(credits: Credit[]): DuplicateGroup[] {
+  const indexesById = new Map<string, number[]>();
+  credits.forEach((credit, index) => {
+    const indexes = indexesById.get(credit.unic_id);
+    if (indexes) {
+      indexes.push(index);
+    } else {
+      indexesById.set(credit.unic_id, [index]);
+    }
+  });
+
+  const groups: DuplicateGroup[] = [];
+  indexesById.forEach((indexes, unicId) => {
+    if (indexes.length < 2) return;
+
+    const records = indexes.map(index => credits[index]);
+    const conflictingFields = getConflictingFields(records);
+    groups.push({
+      unic_id: unicId,
+      kind: conflictingFields.length > 0 ? 'conflict' : 'duplicate',
+      indexes,
+      records,
+      conflictingFields,
+    });
+  });
+
+  return groups;
+}
+
+/**
+ * Collapse credits sharing a UNIC ID according to the resolution policy
+ * Exact duplicates always collapse to one record; 'exclude' drops every record of a conflicting ID
+ */
+export function resolveDuplicateCredits(
+  credits: Credit[],
+  policy: DuplicateResolution,
+  groups: DuplicateGroup[] = findDuplicateCredits(credits)
+): Credit[] {
+  if (groups.length === 0) {
+    return credits;
+  }
+
+  const keepIndex = new Map<string, number | null>();
+  groups.forEach(group => {
+    if (group.kind === 'conflict' && policy === 'exclude') {
+      keepIndex.set(group.unic_id, null);
+    } else if (policy === 'last-wins') {
+      keepIndex.set(group.unic_id, group.indexes[group.indexes.length - 1]);
+    } else {
+      keepIndex.set(group.unic_id, group.indexes[0]);
+    }
+  });
+
+  return credits.filter((credit, index) => {
+    if (!keepIndex.has(credit.unic_id)) return true;
+    return keepIndex.get(credit.unic_id) === index;
+  });
+}
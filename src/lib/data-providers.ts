@@ -0,0 +1,259 @@
+import { parseCreditData } from "./credit-import";
+import type { ColumnAliases } from "./credit-import";
+import type { RegistryStats } from "./remote-query";
+import { SAMPLE_SOURCE } from "./credit-sources";
+import sampleData from "@/assets/sample.json";
+
+/**
+ * Data providers for the credit loader
+ * A provider turns a configured source into raw, unvalidated records; schema
+ * validation, source tagging and duplicate handling stay in the loader
+ */
+
+export type CreditDataProviderType = 'static-file' | 'http-json' | 'memory';
+
+export interface ProviderLoadOptions {
+  columnAliases?: ColumnAliases;  // Extra header names for CSV/TSV files
+}
+
+export interface CreditDataProvider {
+  readonly type: CreditDataProviderType;
+  readonly requiresNetwork: boolean;  // False lets the loader skip the online check
+  load(source: string, options?: ProviderLoadOptions): Promise<unknown>;
+}
+
+export type CreditDataProviderConfig =
+  | { type: 'static-file'; timeout?: number }
+  | { type: 'http-json'; timeout?: number; pageSize?: number; maxPages?: number }
+  | { type: 'memory'; data: unknown[] | Record<string, unknown[]> };
+
+/**
+ * One page of a paginated registry response
+ * nextCursor is opaque to the client and null on the last page
+ */
+export interface CreditPageResponse {
+  data: unknown[];
+  total?: number;
+  nextCursor?: string | null;
+  stats?: RegistryStats;
+}
+
+const DEFAULT_TIMEOUT = 10000; // 10 second timeout
+const DEFAULT_PAGE_SIZE = 100;
+const DEFAULT_MAX_PAGES = 1000;
+
+const PROVIDER_TYPES: CreditDataProviderType[] = ['static-file', 'http-json', 'memory'];
+
+/**
+ * Fetch with a timeout, mapping timeouts and network failures to readable errors
+ * Aborting the caller's signal cancels the request and rethrows the AbortError unchanged
+ */
+export async function fetchWithTimeout(
+  url: string,
+  accept: string,
+  timeout: number = DEFAULT_TIMEOUT,
+  signal?: AbortSignal
+): Promise<Response> {
+  // Create timeout controller for better error handling
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+  const cancel = () => controller.abort();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    const response = await fetch(url, {
+      headers: { 'Accept': accept },
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to fetch data: ${response.status} ${response.statusText}`);
+    }
+
+    return response;
+  } catch (fetchError) {
+    if (signal?.aborted) {
+      throw fetchError;
+    }
+    if (fetchError instanceof Error) {
+      if (fetchError.name === 'AbortError') {
+        throw new Error('Request timed out. Please check your connection and try again.');
+      }
+      if (fetchError.message.includes('fetch')) {
+        throw new Error('Network error. Please check your internet connection.');
+      }
+    }
+    throw fetchError;
+  } finally {
+    clearTimeout(timeoutId);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/**
+ * Static files: JSON, CSV or TSV detected from the content type or file extension
+ */
+export function createStaticFileProvider({ timeout = DEFAULT_TIMEOUT } = {}): CreditDataProvider {
+  return {
+    type: 'static-file',
+    requiresNetwork: true,
+    async load(source, options = {}) {
+      if (source === SAMPLE_SOURCE) {
+        return sampleData;
+      }
+
+      const response = await fetchWithTimeout(
+        source,
+        'application/json, text/csv, text/tab-separated-values;q=0.9, */*;q=0.5',
+        timeout
+      );
+      const text = await response.text();
+      return parseCreditData(text, {
+        contentType: response.headers.get('content-type'),
+        fileName: source,
+        columnAliases: options.columnAliases,
+      });
+    },
+  };
+}
+
+/**
+ * Build the URL for one page of a registry endpoint, keeping its existing parameters
+ * Extra query parameters, such as remote search filters, are added alongside the page;
+ * they replace source parameters of the same name, and repeated keys are all kept
+ */
+export function buildPageUrl(
+  source: string,
+  limit: number,
+  cursor: string | null,
+  query?: URLSearchParams
+): string {
+  const url = new URL(source, window.location.href);
+  for (const key of new Set(query?.keys())) {
+    url.searchParams.delete(key);
+  }
+  query?.forEach((value, key) => url.searchParams.append(key, value));
+  url.searchParams.set('limit', String(limit));
+  if (cursor) {
+    url.searchParams.set('cursor', cursor);
+  } else {
+    url.searchParams.delete('cursor');
+  }
+  // Keep same-origin URLs relative so they match how the source was configured
+  return url.origin === window.location.origin ? `${url.pathname}${url.search}` : url.toString();
+}
+
+export function isCreditPage(body: unknown): body is CreditPageResponse {
+  return typeof body === 'object' && body !== null && Array.isArray((body as CreditPageResponse).data);
+}
+
+/**
+ * JSON registry APIs. Plain arrays are accepted as-is; paginated responses
+ * ({ data, total, nextCursor }) are followed cursor by cursor until the last page
+ */
+export function createHttpJsonProvider({
+  timeout = DEFAULT_TIMEOUT,
+  pageSize = DEFAULT_PAGE_SIZE,
+  maxPages = DEFAULT_MAX_PAGES,
+} = {}): CreditDataProvider {
+  return {
+    type: 'http-json',
+    requiresNetwork: true,
+    async load(source) {
+      if (source === SAMPLE_SOURCE) {
+        return sampleData;
+      }
+
+      const records: unknown[] = [];
+      let cursor: string | null = null;
+
+      for (let page = 0; page < maxPages; page++) {
+        const response = await fetchWithTimeout(buildPageUrl(source, pageSize, cursor), 'application/json', timeout);
+        const body: unknown = await response.json();
+
+        if (!isCreditPage(body)) {
+          // Unpaginated endpoints return the whole array on the first request
+          if (page === 0) return body;
+          throw new Error('Invalid data format: expected a page of credits');
+        }
+
+        records.push(...body.data);
+        cursor = body.nextCursor ?? null;
+        if (!cursor) {
+          return records;
+        }
+      }
+
+      throw new Error(`Registry returned more than ${maxPages} pages`);
+    },
+  };
+}
+
+/**
+ * In-memory data, either one dataset for every source or a dataset per source
+ */
+export function createInMemoryProvider(data: unknown[] | Record<string, unknown[]>): CreditDataProvider {
+  return {
+    type: 'memory',
+    requiresNetwork: false,
+    async load(source) {
+      if (Array.isArray(data)) {
+        return data;
+      }
+      if (!(source in data)) {
+        throw new Error(`No in-memory data for source: ${source}`);
+      }
+      return data[source];
+    },
+  };
+}
+
+/**
+ * Create a provider from its configuration
+ */
+export function createCreditDataProvider(config: CreditDataProviderConfig): CreditDataProvider {
+  switch (config.type) {
+    case 'http-json':
+      return createHttpJsonProvider(config);
+    case 'memory':
+      return createInMemoryProvider(config.data);
+    case 'static-file':
+    default:
+      return createStaticFileProvider(config);
+  }
+}
+
+/**
+ * Resolve the provider configuration: a ?provider= parameter wins over the
+ * VITE_CREDIT_PROVIDER build setting; static files are the default
+ */
+export function getProviderConfig(search: string = window.location.search): CreditDataProviderConfig {
+  const requested = new URLSearchParams(search).get('provider') ?? import.meta.env.VITE_CREDIT_PROVIDER;
+  const type = PROVIDER_TYPES.find(t => t === requested);
+
+  if (type === 'http-json') {
+    const pageSize = Number(import.meta.env.VITE_CREDIT_PAGE_SIZE);
+    return { type, pageSize: pageSize > 0 ? pageSize : DEFAULT_PAGE_SIZE };
+  }
+  // In-memory data cannot come from the URL, only from code via setCreditDataProvider
+  return { type: 'static-file' };
+}
+
+let activeProvider: CreditDataProvider | null = null;
+
+/**
+ * The provider used when none is passed to the loader, created from configuration on first use
+ */
+export function getCreditDataProvider(): CreditDataProvider {
+  if (!activeProvider) {
+    activeProvider = createCreditDataProvider(getProviderConfig());
+  }
+  return activeProvider;
+}
+
+/**
+ * Replace the default provider; pass null to go back to the configured one
+ */
+export function setCreditDataProvider(provider: CreditDataProvider | null): void {
+  activeProvider = provider;
+}
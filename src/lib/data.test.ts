@@ -0,0 +1,33 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { calculateDashboardStats, formatCreditDate, validateCreditRows } from './data';
+
+describe('formatCreditDate', () => {
+  // A timezone behind UTC, where UTC midnight falls on the previous day
+  const timeZone = process.env.TZ;
+  beforeEach(() => {
+    process.env.TZ = 'America/New_York';
+  });
+  afterEach(() => {
+    process.env.TZ = timeZone;
+  });
+
+  it('shows date-only values on the same day in every timezone', () => {
+    expect(formatCreditDate('2023-03-01')).toBe('March 1, 2023');
+  });
+
+  it('falls back when the date is missing', () => {
+    expect(formatCreditDate(undefined, '—')).toBe('—');
+  });
+});
+
+describe('calculateDashboardStats', () => {
+  it('counts only projects with an active credit', () => {
+    const { valid } = validateCreditRows([
+      { unic_id: 'UNIC-VCS-IND-2023-00000001', project_name: 'Mangroves', vintage: 2023, status: 'Active' },
+      { unic_id: 'UNIC-VCS-IND-2022-00000002', project_name: 'Mangroves', vintage: 2022, status: 'Retired' },
+      { unic_id: 'UNIC-GS-KEN-2021-00000003', project_name: 'Cookstoves', vintage: 2021, status: 'Retired' },
+    ]);
+
+    expect(calculateDashboardStats(valid).projectCount).toBe(1);
+  });
+});
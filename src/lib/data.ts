@@ -1,67 +1,96 @@
 
 import { creditSchema } from "./types";
-import type { Credit, CreditWithMetadata, DashboardStats } from "./types";
-import { z } from "zod";
-import sampleData from "@/assets/sample.json";
+import type {
+  Credit,
+  CreditValidationResult,
+  CreditWithMetadata,
+  DashboardStats,
+  NumberRange,
+  RejectedCreditRow,
+  SortKey,
+  SourceLoadError,
+  ValidationMode,
+} from "./types";
+import { parseUnicId, validateUnicId } from "./unic-id";
+import { getRecordLine, parseCreditData } from "./credit-import";
+import type { ColumnAliases } from "./credit-import";
+import { SAMPLE_SOURCE, getConfiguredSources, getSourceLabel } from "./credit-sources";
+import { getCreditDataProvider } from "./data-providers";
+import { rankCredits, tokenize } from "./search-engine";
+import { buildQueryPredicate, isInRange, parseQuery } from "./query-parser";
+import { createCreditComparator } from "./sort-keys";
+import type { CreditDataProvider } from "./data-providers";
+
+export interface GetCreditsOptions {
+  columnAliases?: ColumnAliases;  // Extra header names for CSV/TSV sources
+  validationMode?: ValidationMode; // 'strict' rejects the whole file on any bad row (default)
+  sources?: string[];             // URLs to load; defaults to ?data= parameters or the saved list
+  provider?: CreditDataProvider;  // Defaults to the configured provider
+}
 
 /**
  * Enhanced data loading with error handling and retry logic
+ * Sources are read through a CreditDataProvider: static JSON/CSV/TSV files by default
+ */
+export async function getCredits(options: GetCreditsOptions = {}): Promise<Credit[]> {
+  const { valid } = await loadCreditRows(options);
+  return valid;
+}
+
+/**
+ * Load credits from every configured source and validate each row on its own
+ * Credits are tagged with the source they came from; without sources the bundled sample is used.
+ * In lenient mode invalid rows are returned alongside the valid credits instead of failing the load,
+ * and sources that cannot be loaded are reported while the others load; the load fails when none do
  */
-export async function getCredits(): Promise<Credit[]> {
-  const urlParams = new URLSearchParams(window.location.search);
-  const dataUrl = urlParams.get("data");
+export async function loadCreditRows(options: GetCreditsOptions = {}): Promise<CreditValidationResult> {
+  const {
+    validationMode = 'strict',
+    sources = getConfiguredSources(),
+    provider = getCreditDataProvider(),
+  } = options;
 
   try {
-    let data;
-    if (dataUrl) {
-      // Create timeout controller for better error handling
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), 10000); // 10 second timeout
-
-      try {
-        const response = await fetch(dataUrl, {
-          headers: {
-            'Accept': 'application/json',
-          },
-          signal: controller.signal,
-        });
-        
-        clearTimeout(timeoutId);
-        
-        if (!response.ok) {
-          throw new Error(`Failed to fetch data: ${response.status} ${response.statusText}`);
-        }
-        
-        data = await response.json();
-      } catch (fetchError) {
-        clearTimeout(timeoutId);
-        
-        if (fetchError instanceof Error) {
-          if (fetchError.name === 'AbortError') {
-            throw new Error('Request timed out. Please check your connection and try again.');
-          }
-          if (fetchError.message.includes('fetch')) {
-            throw new Error('Network error. Please check your internet connection.');
-          }
-        }
-        throw fetchError;
+    const sourceList = sources.length > 0 ? sources : [SAMPLE_SOURCE];
+    const settled = await Promise.allSettled(sourceList.map(async source => {
+      const data = await provider.load(source, { columnAliases: options.columnAliases });
+      return validateCreditRows(data, source);
+    }));
+
+    const results: CreditValidationResult[] = [];
+    const failedSources: SourceLoadError[] = [];
+    settled.forEach((outcome, i) => {
+      if (outcome.status === 'fulfilled') {
+        results.push(outcome.value);
+      } else {
+        const reason: unknown = outcome.reason;
+        failedSources.push({ source: sourceList[i], message: reason instanceof Error ? reason.message : String(reason) });
       }
-    } else {
-      data = sampleData;
+    });
+
+    if (failedSources.length > 0 && (validationMode === 'strict' || results.length === 0)) {
+      const [failure] = failedSources;
+      throw new Error(sourceList.length === 1 ? failure.message : `${getSourceLabel(failure.source)}: ${failure.message}`);
     }
 
-    // Validate data structure
-    const credits = z.array(creditSchema).parse(data);
-    
-    if (credits.length === 0) {
-      throw new Error('No credits data found');
+    const result: CreditValidationResult = {
+      valid: results.flatMap(r => r.valid),
+      rejected: results.flatMap(r => r.rejected),
+      failedSources,
+    };
+
+    if (validationMode === 'strict' && result.rejected.length > 0) {
+      throw new Error(`Invalid data format: ${formatRejectedRows(result.rejected)}`);
+    }
+
+    if (result.valid.length === 0) {
+      throw new Error(result.rejected.length > 0
+        ? `No valid credits found (${result.rejected.length} rows rejected)`
+        : 'No credits data found');
     }
     
-    return credits;
+    return result;
   } catch (error) {
-    if (error instanceof z.ZodError) {
-      throw new Error(`Invalid data format: ${error.issues.map(e => e.message).join(', ')}`);
-    }
     if (error instanceof Error) {
       throw error;
     }
@@ -69,16 +98,147 @@ export async function getCredits(): Promise<Credit[]> {
   }
 }
 
+/**
+ * Validate each row on its own so one bad record does not reject the whole file
+ * When a source is given, valid credits and rejected rows are tagged with it
+ */
+export function validateCreditRows(data: unknown, source?: string): CreditValidationResult {
+  if (!Array.isArray(data)) {
+    throw new Error('Invalid data format: expected an array of credits');
+  }
+
+  const result: CreditValidationResult = { valid: [], rejected: [] };
+
+  data.forEach((record, index) => {
+    const parsed = creditSchema.safeParse(record);
+    if (parsed.success) {
+      result.valid.push(source ? { ...parsed.data, source } : parsed.data);
+    } else {
+      result.rejected.push({
+        index,
+        line: getRecordLine(record),
+        source,
+        record,
+        issues: parsed.error.issues.map(issue => ({
+          path: issue.path.map(String).join('.') || '(row)',
+          message: issue.message,
+        })),
+      });
+    }
+  });
+
+  return result;
+}
+
+/**
+ * Where a rejected row sits in its file, counting from 1: the line for CSV and TSV, header
+ * included, so it matches a text editor; the record number for JSON
+ */
+export function getRejectedRowNumber(row: RejectedCreditRow): number {
+  return row.line ?? row.index + 1;
+}
+
+/**
+ * Summarise rejected rows for an error message, e.g. "line 3 vintage: Expected number"
+ */
+export function formatRejectedRows(rejected: RejectedCreditRow[], limit: number = 3): string {
+  const summary = rejected
+    .slice(0, limit)
+    .map(row => `${row.source && row.source !== SAMPLE_SOURCE ? `${getSourceLabel(row.source)} ` : ''}${row.line !== undefined ? 'line' : 'row'} ${getRejectedRowNumber(row)} ${row.issues.map(issue => `${issue.path}: ${issue.message}`).join('; ')}`)
+    .join(', ');
+  return rejected.length > limit ? `${summary} and ${rejected.length - limit} more` : summary;
+}
+
+/**
+ * Read a local JSON, CSV or TSV file and validate its rows
+ */
+export async function readCreditsFile(
+  file: File,
+  options: GetCreditsOptions = {}
+): Promise<CreditValidationResult> {
+  const text = await file.text();
+  const data = parseCreditData(text, {
+    contentType: file.type,
+    fileName: file.name,
+    columnAliases: options.columnAliases,
+  });
+  return validateCreditRows(data, file.name);
+}
+
 /**
  * Transform credits to include metadata for search optimization
  */
 export function transformCreditsWithMetadata(credits: Credit[]): CreditWithMetadata[] {
-  return credits.map(credit => ({
-    ...credit,
-    searchableText: `${credit.project_name} ${credit.unic_id} ${credit.vintage} ${credit.status}`.toLowerCase(),
-    displayName: credit.project_name,
-    vintageDisplay: credit.vintage.toString(),
-  }));
+  return credits.map(credit => {
+    const parsedId = parseUnicId(credit.unic_id);
+    const searchableText = [
+      credit.project_name,
+      credit.unic_id,
+      credit.vintage,
+      credit.status,
+      credit.methodology,
+      credit.project_type,
+      credit.country,
+      credit.region,
+    ].filter(Boolean).join(' ').toLowerCase();
+
+    return {
+      ...credit,
+      searchableText,
+      searchTokens: [...new Set(tokenize(searchableText))],
+      nameTokens: tokenize(credit.project_name),
+      displayName: credit.project_name,
+      vintageDisplay: credit.vintage.toString(),
+      registry: parsedId?.standard ?? null,
+      countryCode: parsedId?.countryCode ?? null,
+      idYear: parsedId?.year ?? null,
+      serial: parsedId?.serial ?? null,
+      unicIdIssues: validateUnicId(credit, parsedId),
+    };
+  });
+}
+
+/**
+ * Format an optional registry date for display, falling back when absent
+ * Date-only values parse as UTC midnight, so they are shown in UTC to keep the same day everywhere
+ */
+export function formatCreditDate(value: string | undefined, fallback: string = 'Not specified'): string {
+  if (!value) return fallback;
+  return new Date(value).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    timeZone: /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) ? 'UTC' : undefined,
+  });
+}
+
+/**
+ * Format an optional tonnage for display, falling back when absent
+ */
+export function formatQuantity(value: number | undefined, fallback: string = 'Not specified'): string {
+  if (value === undefined) return fallback;
+  return `${value.toLocaleString()} tCO₂e`;
+}
+
+/**
+ * Resolve the location of a credit from its explicit fields or the UNIC ID country code
+ */
+export function getCreditLocation(credit: Credit): string | null {
+  const country = credit.country ?? parseUnicId(credit.unic_id)?.countryCode;
+  if (!country) return null;
+  return credit.region ? `${credit.region}, ${country}` : country;
+}
+
+/**
+ * Count credits per data source, in first-seen order
+ */
+function countBySource(credits: Credit[]): Array<{ source: string; count: number }> {
+  const counts = new Map<string, number>();
+  credits.forEach(credit => {
+    const source = credit.source ?? SAMPLE_SOURCE;
+    counts.set(source, (counts.get(source) ?? 0) + 1);
+  });
+  return [...counts].map(([source, count]) => ({ source, count }));
 }
 
 /**
@@ -96,12 +256,67 @@ export function calculateDashboardStats(credits: Credit[]): DashboardStats {
     ? { min: Math.min(...vintages), max: Math.max(...vintages) }
     : { min: 0, max: 0 };
 
+  // Registry and country breakdowns come from the structured UNIC ID
+  const parsedIds = credits.map(c => parseUnicId(c.unic_id));
+  const registries = new Set<string>();
+  const countries = new Set<string>();
+  let invalidUnicIds = 0;
+
+  credits.forEach((credit, index) => {
+    const parsedId = parsedIds[index];
+    if (parsedId) {
+      registries.add(parsedId.standard);
+      countries.add(parsedId.countryCode);
+    }
+    if (validateUnicId(credit, parsedId).length > 0) {
+      invalidUnicIds++;
+    }
+  });
+
+  const creditsWithQuantity = credits.filter(c => c.quantity !== undefined);
+  const totalQuantity = creditsWithQuantity.reduce((sum, c) => sum + (c.quantity ?? 0), 0);
+
   return {
     totalCredits,
     activeCredits,
     retiredCredits,
     vintageRange,
     availableVintages: uniqueVintages,
+    availableRegistries: [...registries].sort(),
+    availableCountries: [...countries].sort(),
+    invalidUnicIds,
+    totalQuantity,
+    creditsWithQuantity: creditsWithQuantity.length,
+    projectCount: new Set(credits.filter(c => c.status === 'Active').map(c => c.project_name)).size,
+    sourceCounts: countBySource(credits),
+  };
+}
+
+/**
+ * Credits matching a query's field clauses and free text, in their original order,
+ * with relevance scores when the query has free text to rank
+ */
+export function matchQuery(
+  credits: CreditWithMetadata[],
+  query: string
+): { credits: CreditWithMetadata[]; scores: Map<CreditWithMetadata, number> | null } {
+  let matched = credits;
+
+  // Apply field clauses and negations from the structured query syntax
+  const parsed = parseQuery(query);
+  const predicate = buildQueryPredicate(parsed);
+  if (predicate) {
+    matched = matched.filter(predicate);
+  }
+
+  // Apply tokenized search to the free text; every term must match, allowing prefixes and typos
+  if (!parsed.text) {
+    return { credits: matched, scores: null };
+  }
+  const ranked = rankCredits(matched, parsed.text);
+  return {
+    credits: ranked.map(({ credit }) => credit),
+    scores: new Map(ranked.map(({ credit, score }) => [credit, score])),
   };
 }
 
@@ -111,58 +326,35 @@ export function calculateDashboardStats(credits: Credit[]): DashboardStats {
 export function searchAndFilterCredits(
   credits: CreditWithMetadata[],
   query: string,
-  statusFilter: Credit['status'] | 'all',
-  vintageFilter: number | 'all',
-  sortBy: 'project_name' | 'vintage' | 'status' = 'project_name',
-  sortOrder: 'asc' | 'desc' = 'asc'
+  statusFilter: Credit['status'][],
+  vintageFilter: number[],
+  sourceFilter: string | 'all' = 'all',
+  sort: SortKey[] = [],
+  vintageRange: NumberRange | null = null
 ): CreditWithMetadata[] {
-  let filtered = credits;
-
-  // Apply text search
-  if (query.trim()) {
-    const searchTerm = query.toLowerCase().trim();
-    filtered = filtered.filter(credit => 
-      credit.searchableText.includes(searchTerm)
-    );
-  }
+  // Apply the query: structured clauses, then fuzzy free text
+  const matched = matchQuery(credits, query);
+  const scores = matched.scores;
+  let filtered = matched.credits;
 
   // Apply status filter
-  if (statusFilter !== 'all') {
-    filtered = filtered.filter(credit => credit.status === statusFilter);
+  if (statusFilter.length > 0) {
+    filtered = filtered.filter(credit => statusFilter.includes(credit.status));
   }
 
-  // Apply vintage filter
-  if (vintageFilter !== 'all') {
-    filtered = filtered.filter(credit => credit.vintage === vintageFilter);
+  // Apply vintage filter: selected years and the vintage window combine as alternatives
+  if (vintageFilter.length > 0 || vintageRange) {
+    filtered = filtered.filter(credit =>
+      vintageFilter.includes(credit.vintage) || (vintageRange !== null && isInRange(credit.vintage, vintageRange))
+    );
   }
 
-  // Apply sorting
-  filtered.sort((a, b) => {
-    let aValue: string | number;
-    let bValue: string | number;
-
-    switch (sortBy) {
-      case 'project_name':
-        aValue = a.project_name.toLowerCase();
-        bValue = b.project_name.toLowerCase();
-        break;
-      case 'vintage':
-        aValue = a.vintage;
-        bValue = b.vintage;
-        break;
-      case 'status':
-        aValue = a.status;
-        bValue = b.status;
-        break;
-      default:
-        aValue = a.project_name.toLowerCase();
-        bValue = b.project_name.toLowerCase();
-    }
-
-    if (aValue < bValue) return sortOrder === 'asc' ? -1 : 1;
-    if (aValue > bValue) return sortOrder === 'asc' ? 1 : -1;
-    return 0;
-  });
+  // Apply source filter
+  if (sourceFilter !== 'all') {
+    filtered = filtered.filter(credit => (credit.source ?? SAMPLE_SOURCE) === sourceFilter);
+  }
 
-  return filtered;
+  // Without any filter the caller's array comes back, so sort a copy of it
+  const sorted = filtered === credits ? [...filtered] : filtered;
+  return sorted.sort(createCreditComparator(sort, scores));
 }
@@ -0,0 +1,116 @@
+import type { CreditWithMetadata, SearchState } from "./types";
+import { buildQueryPredicate, getQueryRemainder, isInRange, parseQuery, setQueryField } from "./query-parser";
+import type { ParsedQuery, QueryFieldName } from "./query-parser";
+import { SAMPLE_SOURCE } from "./credit-sources";
+import { matchSearchIndex } from "./search-index";
+import type { SearchIndex } from "./search-index";
+
+/**
+ * Facet counts for the filter dropdowns
+ * Each option counts the credits it would return given every other active
+ * filter, ignoring the filter of its own dimension, as in a shop's facet sidebar
+ */
+
+export type FacetDimension = 'status' | 'vintage' | 'registry' | 'country' | 'type' | 'source';
+
+// Option value → matching credits; vintages are keyed as strings
+export type FacetCounts = Record<FacetDimension, Map<string, number>>;
+
+interface Facet {
+  dimension: FacetDimension;
+  key: (credit: CreditWithMetadata) => string | null;
+  matches: (credit: CreditWithMetadata) => boolean;
+}
+
+/**
+ * Predicate for the positive query clauses on one field
+ */
+function fieldClausePredicate(parsed: ParsedQuery, field: QueryFieldName): (credit: CreditWithMetadata) => boolean {
+  const clauses = parsed.clauses.filter(clause => clause.kind === 'field' && clause.field === field && !clause.negated);
+  return buildQueryPredicate({ clauses, errors: [], text: '' }) ?? (() => true);
+}
+
+/**
+ * The part of the query every facet shares: the query without the clauses of the filter dimensions
+ */
+export function getFacetQuery(query: string): string {
+  return setQueryField(getQueryRemainder(query), 'type', []);
+}
+
+/**
+ * Count credits per option of each filter dimension for the current search state
+ * `matched` are the credits matching getFacetQuery, in any order
+ */
+export function countFacets(matched: CreditWithMetadata[], state: SearchState): FacetCounts {
+  const parsed = parseQuery(state.query);
+  const { statusFilter, vintageFilter, vintageRange, sourceFilter } = state;
+
+  const statusClauses = fieldClausePredicate(parsed, 'status');
+  const vintageClauses = fieldClausePredicate(parsed, 'vintage');
+
+  const facets: Facet[] = [
+    {
+      dimension: 'status',
+      key: credit => credit.status,
+      matches: credit => statusClauses(credit) && (statusFilter.length === 0 || statusFilter.includes(credit.status)),
+    },
+    {
+      dimension: 'vintage',
+      key: credit => String(credit.vintage),
+      matches: credit =>
+        vintageClauses(credit) &&
+        ((vintageFilter.length === 0 && !vintageRange) ||
+          vintageFilter.includes(credit.vintage) ||
+          (vintageRange !== null && isInRange(credit.vintage, vintageRange))),
+    },
+    {
+      dimension: 'registry',
+      key: credit => credit.registry,
+      matches: fieldClausePredicate(parsed, 'registry'),
+    },
+    {
+      dimension: 'country',
+      key: credit => credit.countryCode,
+      matches: fieldClausePredicate(parsed, 'country'),
+    },
+    {
+      dimension: 'type',
+      key: credit => credit.project_type ?? null,
+      matches: fieldClausePredicate(parsed, 'type'),
+    },
+    {
+      dimension: 'source',
+      key: credit => credit.source ?? SAMPLE_SOURCE,
+      matches: credit => sourceFilter === 'all' || (credit.source ?? SAMPLE_SOURCE) === sourceFilter,
+    },
+  ];
+
+  const counts = Object.fromEntries(facets.map(facet => [facet.dimension, new Map<string, number>()])) as FacetCounts;
+
+  for (const credit of matched) {
+    const results = facets.map(facet => facet.matches(credit));
+    const failures = results.filter(result => !result).length;
+    if (failures > 1) continue;
+
+    facets.forEach((facet, index) => {
+      // Count the credit for a dimension when only that dimension's filter could exclude it
+      if (failures === 1 && results[index]) return;
+      const key = facet.key(credit);
+      if (key !== null) {
+        const dimensionCounts = counts[facet.dimension];
+        dimensionCounts.set(key, (dimensionCounts.get(key) ?? 0) + 1);
+      }
+    });
+  }
+
+  return counts;
+}
+
+/**
+ * Facet counts from the search index, matching the shared part of the query once
+ * through its postings rather than scanning every credit
+ */
+export function calculateFacetCounts(index: SearchIndex, state: SearchState): FacetCounts {
+  const matched = matchSearchIndex(index, getFacetQuery(state.query)).map(position => index.credits[position]);
+  return countFacets(matched, state);
+}
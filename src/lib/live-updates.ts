@@ -0,0 +1,166 @@
+import type { Credit, RejectedCreditRow } from "./types";
+import { validateCreditRows } from "./data";
+
+/**
+ * Live updates for the credit feed
+ * A push channel (Server-Sent Events, or WebSocket for ws:// URLs) delivers
+ * credit upserts and status changes, which are merged into the loaded dataset
+ * without a full reload. Polling is the fallback for feeds without a push channel.
+ *
+ * Messages are JSON:
+ *   { "type": "upsert", "credits": [{ "unic_id": "...", ... }] }
+ *   { "type": "status", "unic_id": "...", "status": "Retired" }
+ */
+
+export type CreditUpdateEvent =
+  | { type: 'upsert'; credits: unknown[] }
+  | { type: 'status'; unic_id: string; status: Credit['status'] };
+
+export type LiveConnectionStatus = 'off' | 'connecting' | 'open' | 'closed';
+
+export interface LiveUpdatesConfig {
+  pollInterval: number;    // Milliseconds between background reloads; 0 disables polling
+  liveUrl: string | null;  // Push channel URL
+}
+
+interface ConnectOptions {
+  onUpdate: (event: CreditUpdateEvent) => void;
+  onStatusChange?: (status: LiveConnectionStatus) => void;
+}
+
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Resolve live update settings: ?poll=<seconds> and ?live=<url> win over
+ * VITE_POLL_INTERVAL and VITE_LIVE_URL
+ */
+export function getLiveUpdatesConfig(search: string = window.location.search): LiveUpdatesConfig {
+  const params = new URLSearchParams(search);
+  const pollSeconds = Number(params.get('poll') ?? import.meta.env.VITE_POLL_INTERVAL ?? 0);
+  const liveUrl = params.get('live') ?? import.meta.env.VITE_LIVE_URL ?? null;
+
+  return {
+    pollInterval: pollSeconds > 0 ? pollSeconds * 1000 : 0,
+    liveUrl: liveUrl || null,
+  };
+}
+
+/**
+ * Parse a push message, returning null for anything that is not a credit update
+ */
+export function parseCreditUpdate(data: string): CreditUpdateEvent | null {
+  try {
+    const message: unknown = JSON.parse(data);
+    if (typeof message !== 'object' || message === null) return null;
+
+    const event = message as Record<string, unknown>;
+    if (event.type === 'upsert' && Array.isArray(event.credits)) {
+      return { type: 'upsert', credits: event.credits };
+    }
+    if (
+      event.type === 'status' &&
+      typeof event.unic_id === 'string' &&
+      (event.status === 'Active' || event.status === 'Retired')
+    ) {
+      return { type: 'status', unic_id: event.unic_id, status: event.status };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Merge an update into the dataset. Upserted records are validated like loaded
+ * rows: valid ones replace the credit with the same UNIC ID or are appended
+ */
+export function applyCreditUpdate(
+  credits: Credit[],
+  event: CreditUpdateEvent,
+  source?: string
+): { credits: Credit[]; rejected: RejectedCreditRow[] } {
+  if (event.type === 'status') {
+    return {
+      credits: credits.map(credit =>
+        credit.unic_id === event.unic_id ? { ...credit, status: event.status } : credit
+      ),
+      rejected: [],
+    };
+  }
+
+  const { valid, rejected } = validateCreditRows(event.credits, source);
+  const upserts = new Map(valid.map(credit => [credit.unic_id, credit]));
+  const next = credits.map(credit => {
+    const update = upserts.get(credit.unic_id);
+    if (!update) return credit;
+    upserts.delete(credit.unic_id);
+    // Updated credits stay attributed to the source they were loaded from
+    return { ...credit, ...update, source: credit.source };
+  });
+
+  // Credits the feed introduces are attributed to the feed itself
+  return { credits: [...next, ...upserts.values()], rejected };
+}
+
+function connectEventSource(url: string, { onUpdate, onStatusChange }: ConnectOptions): () => void {
+  const eventSource = new EventSource(url);
+  onStatusChange?.('connecting');
+
+  eventSource.onopen = () => onStatusChange?.('open');
+  // EventSource reconnects by itself; report the gap until it does
+  eventSource.onerror = () => {
+    onStatusChange?.(eventSource.readyState === EventSource.CLOSED ? 'closed' : 'connecting');
+  };
+  eventSource.onmessage = (message) => {
+    const event = parseCreditUpdate(message.data);
+    if (event) onUpdate(event);
+  };
+
+  return () => eventSource.close();
+}
+
+function connectWebSocket(url: string, { onUpdate, onStatusChange }: ConnectOptions): () => void {
+  let socket: WebSocket | null = null;
+  let reconnectTimeout: ReturnType<typeof setTimeout> | undefined;
+  let attempts = 0;
+  let closed = false;
+
+  const open = () => {
+    onStatusChange?.('connecting');
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      attempts = 0;
+      onStatusChange?.('open');
+    };
+    socket.onmessage = (message) => {
+      if (typeof message.data !== 'string') return;
+      const event = parseCreditUpdate(message.data);
+      if (event) onUpdate(event);
+    };
+    // Reconnect with exponential backoff, like withRetry
+    socket.onclose = () => {
+      if (closed) return;
+      onStatusChange?.('connecting');
+      const delay = Math.min(1000 * Math.pow(2, attempts++), MAX_RECONNECT_DELAY);
+      reconnectTimeout = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return () => {
+    closed = true;
+    clearTimeout(reconnectTimeout);
+    socket?.close();
+  };
+}
+
+/**
+ * Open the push channel; returns a function that closes it
+ */
+export function connectCreditUpdates(url: string, options: ConnectOptions): () => void {
+  return /^wss?:\/\//i.test(url)
+    ? connectWebSocket(url, options)
+    : connectEventSource(url, options);
+}
@@ -0,0 +1,134 @@
+import type { CreditPageResponse } from "./data-providers";
+import { calculateDashboardStats, searchAndFilterCredits, transformCreditsWithMetadata, validateCreditRows } from "./data";
+import { paramsToSearchState } from "./remote-query";
+import type { RegistryStats } from "./remote-query";
+import sampleData from "@/assets/sample.json";
+
+/**
+ * In-browser stand-in for a paginated credit registry
+ * Intercepts fetch calls to its endpoint and answers with pages of credits,
+ * so the http-json provider and useCredits run end to end without a network.
+ * Requests carrying remote query parameters are searched, filtered and sorted server-side,
+ * and every page carries the portfolio stats
+ */
+
+export interface MockRegistryOptions {
+  endpoint?: string;      // Path served by the mock registry
+  credits?: unknown[];    // Records to serve; defaults to the bundled sample
+  pageSize?: number;      // Page size when the request has no limit
+  maxPageSize?: number;
+  latency?: number;       // Artificial delay per response in milliseconds
+}
+
+export interface MockRegistry {
+  readonly endpoint: string;
+  readonly requests: string[];  // URLs of every request handled, in order
+  handle(request: Request): Promise<Response>;
+  install(): () => void;        // Patches global fetch; returns a function that restores it
+}
+
+export const MOCK_REGISTRY_ENDPOINT = '/mock-registry/credits';
+
+function jsonResponse(body: unknown, status: number = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function hasRemoteQuery(params: URLSearchParams): boolean {
+  return ['q', 'status', 'vintage', 'vintage_min', 'vintage_max', 'registry', 'country', 'sort', 'order'].some(key => params.has(key));
+}
+
+/**
+ * Answer a remote query the way a registry would; records failing validation are left out
+ */
+function queryCredits(credits: unknown[], params: URLSearchParams): unknown[] {
+  const state = paramsToSearchState(params);
+  return searchAndFilterCredits(
+    transformCreditsWithMetadata(validateCreditRows(credits).valid),
+    state.query ?? '',
+    state.statusFilter ?? [],
+    state.vintageFilter ?? [],
+    'all',
+    state.sort,
+    state.vintageRange
+  );
+}
+
+/**
+ * Create a mock registry. Cursors are record offsets, which clients must treat as opaque
+ */
+export function createMockRegistry({
+  endpoint = MOCK_REGISTRY_ENDPOINT,
+  credits = sampleData,
+  pageSize = 50,
+  maxPageSize = 500,
+  latency = 0,
+}: MockRegistryOptions = {}): MockRegistry {
+  const requests: string[] = [];
+  let stats: RegistryStats | null = null;
+
+  // Computed on first use, as a registry would keep them precomputed
+  const getStats = (): RegistryStats => {
+    if (!stats) {
+      const { activeCredits, retiredCredits, vintageRange, totalQuantity, creditsWithQuantity, projectCount } =
+        calculateDashboardStats(validateCreditRows(credits).valid);
+      stats = { activeCredits, retiredCredits, vintageRange, totalQuantity, creditsWithQuantity, projectCount };
+    }
+    return stats;
+  };
+
+  const matches = (url: URL) => url.origin === window.location.origin && url.pathname === endpoint;
+
+  const handle = async (request: Request): Promise<Response> => {
+    const url = new URL(request.url, window.location.href);
+    requests.push(url.toString());
+
+    if (latency > 0) {
+      await new Promise(resolve => setTimeout(resolve, latency));
+    }
+
+    if (!matches(url)) {
+      return jsonResponse({ error: 'Not found' }, 404);
+    }
+    if (request.method !== 'GET') {
+      return jsonResponse({ error: 'Method not allowed' }, 405);
+    }
+
+    const limit = Number(url.searchParams.get('limit') ?? pageSize);
+    const offset = Number(url.searchParams.get('cursor') ?? 0);
+    if (!Number.isInteger(limit) || limit < 1 || !Number.isInteger(offset) || offset < 0) {
+      return jsonResponse({ error: 'Invalid limit or cursor' }, 400);
+    }
+
+    const matching = hasRemoteQuery(url.searchParams) ? queryCredits(credits, url.searchParams) : credits;
+    const end = Math.min(offset + Math.min(limit, maxPageSize), matching.length);
+    const page: CreditPageResponse = {
+      data: matching.slice(offset, end),
+      total: matching.length,
+      nextCursor: end < matching.length ? String(end) : null,
+      stats: getStats(),
+    };
+    return jsonResponse(page);
+  };
+
+  const install = () => {
+    const originalFetch = globalThis.fetch;
+
+    globalThis.fetch = (input: RequestInfo | URL, init?: RequestInit) => {
+      // Resolve relative URLs first; Request only accepts them in the browser
+      const url = new URL(input instanceof Request ? input.url : String(input), window.location.href);
+      if (!matches(url)) {
+        return originalFetch(input, init);
+      }
+      return handle(input instanceof Request ? new Request(input, init) : new Request(url, init));
+    };
+
+    return () => {
+      globalThis.fetch = originalFetch;
+    };
+  };
+
+  return { endpoint, requests, handle, install };
+}
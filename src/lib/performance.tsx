@@ -51,10 +51,11 @@ export function areSearchStatesEqual(
 ): boolean {
   return (
     prevState.query === nextState.query &&
-    prevState.statusFilter === nextState.statusFilter &&
-    prevState.vintageFilter === nextState.vintageFilter &&
-    prevState.sortBy === nextState.sortBy &&
-    prevState.sortOrder === nextState.sortOrder
+    String(prevState.statusFilter) === String(nextState.statusFilter) &&
+    String(prevState.vintageFilter) === String(nextState.vintageFilter) &&
+    JSON.stringify(prevState.vintageRange) === JSON.stringify(nextState.vintageRange) &&
+    prevState.sourceFilter === nextState.sourceFilter &&
+    JSON.stringify(prevState.sort) === JSON.stringify(nextState.sort)
   );
 }
 
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { getQueryCompletions, parseQuery } from './query-parser';
+
+describe('parseQuery', () => {
+  it('accepts registry codes beyond the well-known ones', () => {
+    const parsed = parseQuery('registry:plan,vcs');
+    expect(parsed.errors).toEqual([]);
+    expect(parsed.clauses).toMatchObject([{ kind: 'field', field: 'registry', values: ['plan', 'vcs'] }]);
+  });
+
+  it('rejects statuses outside the known values', () => {
+    expect(parseQuery('status:pending').errors).toMatchObject([{ message: '"pending" is not a valid status; use active, retired' }]);
+  });
+});
+
+describe('getQueryCompletions', () => {
+  it('still offers the well-known registries', () => {
+    expect(getQueryCompletions('registry:v', 10).map(completion => completion.label)).toContain('registry:vcs');
+  });
+});
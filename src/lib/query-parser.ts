@@ -0,0 +1,482 @@
+import type { CreditWithMetadata, NumberRange, SearchState } from "./types";
+import { REGISTRY_NAMES } from "./unic-id";
+import { getSourceLabel } from "./credit-sources";
+import { matchToken } from "./search-engine";
+
+/**
+ * Structured search syntax for the search bar
+ *
+ *   status:active vintage:2019..2021 -solar registry:GS name:"wind farm"
+ *
+ * Terms are separated by spaces and all must hold. A term is free text, which
+ * is matched fuzzily, or field:value. Numeric fields take a value or an
+ * inclusive range (2019..2021, 2019.., ..2021). Comma-separated alternatives
+ * match any of them (status:active,retired vintage:2015,2018..2021).
+ * A leading "-" negates a term
+ */
+
+export type QueryFieldName =
+  | 'status'
+  | 'vintage'
+  | 'registry'
+  | 'country'
+  | 'type'
+  | 'methodology'
+  | 'source'
+  | 'name'
+  | 'id'
+  | 'quantity';
+
+export interface QueryFieldDefinition {
+  description: string;
+  numeric?: boolean;      // Accepts numbers and ranges
+  values?: string[];      // Known values, offered as completions
+  closed?: boolean;       // Only the known values are accepted
+}
+
+export const QUERY_FIELDS: Record<QueryFieldName, QueryFieldDefinition> = {
+  status: { description: 'Active or retired', values: ['active', 'retired'], closed: true },
+  vintage: { description: 'Vintage year or range, e.g. 2019..2021', numeric: true },
+  // Any registry code is accepted, since loaded data can use codes beyond the well-known ones
+  registry: { description: 'Registry standard from the UNIC ID', values: Object.keys(REGISTRY_NAMES).map(code => code.toLowerCase()) },
+  country: { description: 'Country name or code' },
+  type: { description: 'Project type' },
+  methodology: { description: 'Methodology' },
+  source: { description: 'Data source URL or file name' },
+  name: { description: 'Project name' },
+  id: { description: 'UNIC ID' },
+  quantity: { description: 'Quantity or range, e.g. 1000..', numeric: true },
+};
+
+export type QueryClause =
+  | { kind: 'text'; value: string; negated: boolean; start: number; end: number }
+  | {
+      kind: 'field';
+      field: QueryFieldName;
+      values: string[];       // Alternatives; the clause holds when any value or range matches
+      ranges: NumberRange[];
+      negated: boolean;
+      start: number;
+      end: number;
+    };
+
+export interface QuerySyntaxError {
+  message: string;
+  start: number;          // Character range of the offending term in the input
+  end: number;
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[];
+  errors: QuerySyntaxError[];
+  text: string;           // Free text terms for fuzzy matching and highlighting
+}
+
+interface RawTerm {
+  text: string;
+  start: number;
+  end: number;
+}
+
+const FIELD_PATTERN = /^([a-z_]+):(.*)$/i;
+const RANGE_PATTERN = /^(-?\d+(?:\.\d+)?)?\.\.(-?\d+(?:\.\d+)?)?$/;
+
+function isQueryField(name: string): name is QueryFieldName {
+  return Object.prototype.hasOwnProperty.call(QUERY_FIELDS, name);
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"(.*?)"?$/, '$1');
+}
+
+/**
+ * Split a field value on commas outside double quotes
+ */
+function splitAlternatives(value: string): string[] {
+  const alternatives: string[] = [];
+  let current = '';
+  let inQuote = false;
+
+  for (const char of value) {
+    if (char === '"') inQuote = !inQuote;
+    if (char === ',' && !inQuote) {
+      alternatives.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  alternatives.push(current);
+
+  return alternatives.map(alternative => unquote(alternative).trim());
+}
+
+/**
+ * Split the input on whitespace outside double quotes
+ */
+function splitTerms(input: string): { terms: RawTerm[]; errors: QuerySyntaxError[] } {
+  const terms: RawTerm[] = [];
+  const errors: QuerySyntaxError[] = [];
+  let index = 0;
+
+  while (index < input.length) {
+    if (/\s/.test(input[index])) {
+      index++;
+      continue;
+    }
+
+    const start = index;
+    let inQuote = false;
+    while (index < input.length && (inQuote || !/\s/.test(input[index]))) {
+      if (input[index] === '"') inQuote = !inQuote;
+      index++;
+    }
+
+    if (inQuote) {
+      errors.push({ message: 'Missing closing quote', start, end: index });
+    }
+    terms.push({ text: input.slice(start, index), start, end: index });
+  }
+
+  return { terms, errors };
+}
+
+/**
+ * Closest field name to a mistyped one, for "did you mean" hints
+ */
+function suggestField(name: string): QueryFieldName | undefined {
+  return (Object.keys(QUERY_FIELDS) as QueryFieldName[]).find(field => matchToken(name, field));
+}
+
+function parseTerm(term: RawTerm): { clause?: QueryClause; error?: QuerySyntaxError } {
+  const { start, end } = term;
+  const negated = term.text.length > 1 && term.text.startsWith('-');
+  const body = negated ? term.text.slice(1) : term.text;
+  const fieldMatch = FIELD_PATTERN.exec(body);
+
+  if (!fieldMatch) {
+    const value = unquote(body).trim();
+    return value && value !== '-' ? { clause: { kind: 'text', value, negated, start, end } } : {};
+  }
+
+  const name = fieldMatch[1].toLowerCase();
+
+  if (!isQueryField(name)) {
+    const suggestion = suggestField(name);
+    return {
+      error: {
+        message: `Unknown field "${name}"${suggestion ? `, did you mean "${suggestion}"?` : ''}`,
+        start,
+        end,
+      },
+    };
+  }
+  if (!unquote(fieldMatch[2]).trim()) {
+    return { error: { message: `Missing value after "${name}:"`, start, end } };
+  }
+
+  const definition = QUERY_FIELDS[name];
+  const values: string[] = [];
+  const ranges: NumberRange[] = [];
+
+  for (const value of splitAlternatives(fieldMatch[2])) {
+    if (!value) {
+      return { error: { message: `Empty alternative in "${name}:"`, start, end } };
+    }
+    if (definition.closed && definition.values && !definition.values.includes(value.toLowerCase())) {
+      return {
+        error: { message: `"${value}" is not a valid ${name}; use ${definition.values.join(', ')}`, start, end },
+      };
+    }
+
+    const range = definition.numeric ? RANGE_PATTERN.exec(value) : null;
+    if (range) {
+      const min = range[1] !== undefined ? Number(range[1]) : null;
+      const max = range[2] !== undefined ? Number(range[2]) : null;
+      if (min === null && max === null) {
+        return { error: { message: `Range for "${name}" needs at least one bound`, start, end } };
+      }
+      if (min !== null && max !== null && min > max) {
+        return { error: { message: `Range ${value} for "${name}" is empty; the lower bound comes first`, start, end } };
+      }
+      ranges.push({ min, max });
+    } else if (definition.numeric && !Number.isFinite(Number(value))) {
+      return { error: { message: `"${name}" takes a number or a range such as 2019..2021`, start, end } };
+    } else {
+      values.push(value);
+    }
+  }
+
+  return { clause: { kind: 'field', field: name, values, ranges, negated, start, end } };
+}
+
+/**
+ * Parse search bar input into clauses; invalid terms are reported and ignored
+ */
+export function parseQuery(input: string): ParsedQuery {
+  const { terms, errors } = splitTerms(input);
+  const clauses: QueryClause[] = [];
+
+  for (const term of terms) {
+    const { clause, error } = parseTerm(term);
+    if (clause) clauses.push(clause);
+    if (error) errors.push(error);
+  }
+
+  const text = clauses
+    .filter(clause => clause.kind === 'text' && !clause.negated)
+    .map(clause => (clause as Extract<QueryClause, { kind: 'text' }>).value)
+    .join(' ');
+
+  return { clauses, errors, text };
+}
+
+function includesText(value: string | null | undefined, search: string): boolean {
+  return value != null && value.toLowerCase().includes(search);
+}
+
+function matchesValue(credit: CreditWithMetadata, field: QueryFieldName, raw: string): boolean {
+  const value = raw.toLowerCase();
+
+  switch (field) {
+    case 'status':
+      return credit.status.toLowerCase() === value;
+    case 'vintage':
+      return credit.vintage === Number(value);
+    case 'quantity':
+      return credit.quantity === Number(value);
+    case 'registry':
+      return credit.registry?.toLowerCase() === value;
+    case 'country':
+      return credit.countryCode?.toLowerCase() === value || includesText(credit.country, value);
+    case 'type':
+      return includesText(credit.project_type, value);
+    case 'methodology':
+      return includesText(credit.methodology, value);
+    case 'source':
+      return includesText(credit.source, value) || (credit.source != null && includesText(getSourceLabel(credit.source), value));
+    case 'name':
+      return includesText(credit.project_name, value);
+    case 'id':
+      return includesText(credit.unic_id, value);
+  }
+}
+
+/**
+ * Whether a number falls inside an inclusive range with optional open ends
+ */
+export function isInRange(value: number, { min, max }: NumberRange): boolean {
+  return (min === null || value >= min) && (max === null || value <= max);
+}
+
+function matchesRange(credit: CreditWithMetadata, field: QueryFieldName, range: NumberRange): boolean {
+  const value = field === 'vintage' ? credit.vintage : credit.quantity;
+  return value !== undefined && isInRange(value, range);
+}
+
+function matchesClause(credit: CreditWithMetadata, clause: QueryClause): boolean {
+  switch (clause.kind) {
+    case 'text': {
+      // Only negated text gets here: it excludes credits with a word starting with the term
+      const value = clause.value.toLowerCase();
+      return credit.searchTokens.some(token => token.startsWith(value)) || credit.searchableText.includes(value);
+    }
+    case 'field':
+      return (
+        clause.values.some(value => matchesValue(credit, clause.field, value)) ||
+        clause.ranges.some(range => matchesRange(credit, clause.field, range))
+      );
+  }
+}
+
+/**
+ * Predicate for the field clauses and negated text of a parsed query
+ * Positive free text is left to the fuzzy ranking in searchCredits
+ */
+export function buildQueryPredicate(parsed: ParsedQuery): ((credit: CreditWithMetadata) => boolean) | null {
+  const clauses = parsed.clauses.filter(clause => clause.kind !== 'text' || clause.negated);
+  if (clauses.length === 0) {
+    return null;
+  }
+
+  return (credit) => clauses.every(clause => matchesClause(credit, clause) !== clause.negated);
+}
+
+function formatValue(value: string): string {
+  return /[\s",]/.test(value) ? `"${value.replace(/"/g, '')}"` : value;
+}
+
+/**
+ * Write a range the way the query syntax reads it, e.g. 2018..2021 or 2018..
+ */
+export function formatRange({ min, max }: NumberRange): string {
+  return `${min ?? ''}..${max ?? ''}`;
+}
+
+/**
+ * Replace the positive clauses for a field with one matching any of the
+ * alternatives, or remove them when there are none
+ */
+export function setQueryField(query: string, field: QueryFieldName, alternatives: string[]): string {
+  const { terms } = splitTerms(query);
+  const kept = terms
+    .filter(term => {
+      const { clause } = parseTerm(term);
+      const fieldMatch = FIELD_PATTERN.exec(term.text);
+      if (clause) return clause.kind === 'text' || clause.field !== field || clause.negated;
+      // Drop invalid clauses for the field too, since the new value supersedes them
+      return fieldMatch?.[1].toLowerCase() !== field;
+    })
+    .map(term => term.text);
+
+  if (alternatives.length > 0) {
+    kept.push(`${field}:${alternatives.map(formatValue).join(',')}`);
+  }
+  return kept.join(' ');
+}
+
+type SyncedFilter = 'statusFilter' | 'vintageFilter' | 'vintageRange';
+type FieldClause = Extract<QueryClause, { kind: 'field' }>;
+
+// Fields with a dropdown in the search filters
+const DROPDOWN_FIELDS: QueryFieldName[] = ['status', 'vintage', 'registry', 'country'];
+
+/**
+ * The clause a dropdown can show for a field: its only clause, when that is positive
+ */
+function getDropdownClause(parsed: ParsedQuery, field: QueryFieldName): FieldClause | null {
+  const clauses = parsed.clauses.filter((clause): clause is FieldClause => clause.kind === 'field' && clause.field === field);
+  return clauses.length === 1 && !clauses[0].negated ? clauses[0] : null;
+}
+
+/**
+ * Values selected for a field by the query, as its dropdown shows them
+ */
+export function getQueryFieldValues(query: string, field: QueryFieldName): string[] {
+  return getDropdownClause(parseQuery(query), field)?.values ?? [];
+}
+
+function splitDropdownTerms(query: string): { dropdown: string; remainder: string } {
+  const parsed = parseQuery(query);
+  const dropdownStarts = new Set(
+    DROPDOWN_FIELDS.map(field => getDropdownClause(parsed, field)?.start).filter(start => start !== undefined)
+  );
+  const { terms } = splitTerms(query);
+
+  return {
+    dropdown: terms.filter(term => dropdownStarts.has(term.start)).map(term => term.text).join(' '),
+    remainder: terms.filter(term => !dropdownStarts.has(term.start)).map(term => term.text).join(' '),
+  };
+}
+
+/**
+ * The query without the clauses the dropdowns already show
+ */
+export function getQueryRemainder(query: string): string {
+  return splitDropdownTerms(query).remainder;
+}
+
+/**
+ * Only the clauses the dropdowns show, e.g. after removing the search chip
+ */
+export function getDropdownQuery(query: string): string {
+  return splitDropdownTerms(query).dropdown;
+}
+
+/**
+ * Dropdown filter values expressed by the query: a single positive status or vintage clause
+ * The vintage dropdown edits one window, so only the first range of the clause is shown
+ */
+export function getQueryFilters(parsed: ParsedQuery): Pick<SearchState, SyncedFilter> {
+  const status = getDropdownClause(parsed, 'status');
+  const vintage = getDropdownClause(parsed, 'vintage');
+  const statuses = new Set(status?.values.map(value => value.toLowerCase()));
+  const years = new Set(vintage?.values.map(Number).filter(Number.isInteger));
+
+  return {
+    statusFilter: (['Active', 'Retired'] as const).filter(value => statuses.has(value.toLowerCase())),
+    vintageFilter: [...years].sort((a, b) => a - b),
+    vintageRange: vintage?.ranges[0] ?? null,
+  };
+}
+
+/**
+ * Search state for a new query, with the status and vintage dropdowns following its clauses
+ */
+export function withQuery(state: SearchState, query: string): SearchState {
+  return { ...state, query, ...getQueryFilters(parseQuery(query)) };
+}
+
+/**
+ * Search state for a dropdown change, written back into the query so both stay in sync
+ */
+export function withQueryFilters(state: SearchState, changes: Partial<Pick<SearchState, SyncedFilter>>): SearchState {
+  const next = { ...state, ...changes };
+  let query = state.query;
+
+  if ('statusFilter' in changes) {
+    query = setQueryField(query, 'status', next.statusFilter.map(status => status.toLowerCase()));
+  }
+  if ('vintageFilter' in changes || 'vintageRange' in changes) {
+    const vintages = [
+      ...next.vintageFilter.map(String),
+      ...(next.vintageRange ? [formatRange(next.vintageRange)] : []),
+    ];
+    query = setQueryField(query, 'vintage', vintages);
+  }
+
+  return { ...next, query };
+}
+
+export interface QueryCompletion {
+  label: string;          // Text shown in the suggestion list
+  description?: string;
+  replacement: string;    // Replaces the term under the caret
+  start: number;
+  end: number;
+}
+
+/**
+ * Field name and value completions for the term under the caret
+ */
+export function getQueryCompletions(input: string, caret: number): QueryCompletion[] {
+  const term = splitTerms(input).terms.find(candidate => candidate.start <= caret && caret <= candidate.end);
+  const start = term?.start ?? caret;
+  const end = term?.end ?? caret;
+  const text = term ? term.text.slice(0, caret - term.start) : '';
+  const prefix = text.startsWith('-') ? '-' : '';
+  const body = text.slice(prefix.length);
+  if (!body) return [];
+
+  const fieldMatch = FIELD_PATTERN.exec(body);
+  if (!fieldMatch) {
+    const partial = body.toLowerCase();
+    return (Object.entries(QUERY_FIELDS) as Array<[QueryFieldName, QueryFieldDefinition]>)
+      .filter(([name]) => name.startsWith(partial) && name !== partial)
+      .map(([name, definition]) => ({
+        label: `${name}:`,
+        description: definition.description,
+        replacement: `${prefix}${name}:`,
+        start,
+        end,
+      }));
+  }
+
+  const name = fieldMatch[1].toLowerCase();
+  if (!isQueryField(name)) return [];
+
+  // Complete the alternative after the last comma, skipping values already listed
+  const listed = splitAlternatives(fieldMatch[2]).map(value => value.toLowerCase());
+  const partial = listed.pop() ?? '';
+  const head = fieldMatch[2].slice(0, fieldMatch[2].lastIndexOf(',') + 1);
+
+  return (QUERY_FIELDS[name].values ?? [])
+    .filter(value => value.startsWith(partial) && value !== partial && !listed.includes(value))
+    .map(value => ({
+      label: `${name}:${head}${value}`,
+      description: name === 'registry' ? REGISTRY_NAMES[value.toUpperCase()] : undefined,
+      replacement: `${prefix}${name}:${head}${value} `,
+      start,
+      end,
+    }));
+}
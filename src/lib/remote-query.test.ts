@@ -0,0 +1,52 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { fetchCreditPage, paramsToSearchState, searchStateToParams } from './remote-query';
+import { createMockRegistry } from './mock-registry';
+import { withQuery } from './query-parser';
+import { INITIAL_SEARCH_STATE } from '@/hooks/use-search';
+
+describe('searchStateToParams', () => {
+  it('sends the free text as q and each supported clause once as its own parameter', () => {
+    const state = withQuery(INITIAL_SEARCH_STATE, 'solar status:active vintage:2019,2020 registry:gs -kenya');
+    const params = searchStateToParams(state);
+
+    expect(params.get('q')).toBe('solar');
+    expect(params.getAll('status')).toEqual(['Active']);
+    expect(params.getAll('vintage')).toEqual(['2019', '2020']);
+    expect(params.getAll('registry')).toEqual(['gs']);
+  });
+
+  it('sends a vintage window as bounds', () => {
+    const params = searchStateToParams(withQuery(INITIAL_SEARCH_STATE, 'vintage:2018..'));
+
+    expect(params.has('q')).toBe(false);
+    expect(params.get('vintage_min')).toBe('2018');
+    expect(params.has('vintage_max')).toBe(false);
+  });
+
+  it('reads the clause parameters back into the query', () => {
+    const state = paramsToSearchState(new URLSearchParams('q=wind&registry=gs&country=ind&status=Retired'));
+
+    expect(state.query).toBe('wind registry:gs country:ind');
+    expect(state.statusFilter).toEqual(['Retired']);
+  });
+});
+
+describe('fetchCreditPage', () => {
+  const registry = createMockRegistry();
+  let restore = () => {};
+
+  afterEach(() => {
+    restore();
+  });
+
+  it('sends one parameter per selected value', async () => {
+    restore = registry.install();
+    const state = withQuery(INITIAL_SEARCH_STATE, 'status:active,retired vintage:2019,2020');
+
+    await fetchCreditPage(`${registry.endpoint}?status=Pending`, state, { limit: 5, cursor: null });
+
+    const url = new URL(registry.requests[0]);
+    expect(url.searchParams.getAll('status')).toEqual(['Active', 'Retired']);
+    expect(url.searchParams.getAll('vintage')).toEqual(['2019', '2020']);
+  });
+});
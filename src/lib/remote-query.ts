@@ -0,0 +1,126 @@
+import type { DashboardStats, SearchState } from "./types";
+import { formatSortParam, parseSortParam } from "./sort-keys";
+import { getQueryFieldValues, parseQuery, setQueryField } from "./query-parser";
+import { getConfiguredSources } from "./credit-sources";
+import { buildPageUrl, fetchWithTimeout, isCreditPage } from "./data-providers";
+import type { CreditPageResponse } from "./data-providers";
+
+/**
+ * Remote query protocol for registry-sized datasets
+ * Instead of loading every credit and filtering in memory, the search state is
+ * sent to a paginated registry API and results are fetched one page at a time:
+ *
+ *   GET <source>?q=solar&status=Active&vintage=2020&registry=GS&sort=vintage:desc,project_name:asc&limit=50&cursor=<opaque>
+ *   → { data: Credit[], total: number, nextCursor: string | null, stats?: RegistryStats }
+ *
+ * q holds the free text of the query only. Its status, vintage, registry and country
+ * clauses go in their own parameters, which repeat for each selected value; vintage_min
+ * and vintage_max bound the vintage window. Other clauses, such as negations, are not
+ * sent. sort lists the sort keys in order; without it results are ranked by relevance.
+ * total counts every credit matching the query, not just the page, and the optional
+ * stats summarise the whole portfolio for the dashboard header
+ */
+
+// Portfolio summary a registry may send with each page
+export type RegistryStats = Pick<
+  DashboardStats,
+  'activeCredits' | 'retiredCredits' | 'vintageRange' | 'totalQuantity' | 'creditsWithQuantity' | 'projectCount'
+>;
+
+// Clauses sent as their own parameters, named after the field
+const CLAUSE_PARAMS = ['registry', 'country'] as const;
+
+export interface RemoteQueryConfig {
+  source: string;
+  pageSize: number;
+}
+
+const DEFAULT_REMOTE_PAGE_SIZE = 50;
+
+/**
+ * Resolve remote query mode: enabled by ?query=remote or VITE_REMOTE_QUERY=true,
+ * against the first configured source. Returns null when the dashboard should load everything
+ */
+export function getRemoteQueryConfig(search: string = window.location.search): RemoteQueryConfig | null {
+  const params = new URLSearchParams(search);
+  const enabled = params.has('query')
+    ? params.get('query') === 'remote'
+    : import.meta.env.VITE_REMOTE_QUERY === 'true';
+  const [source] = getConfiguredSources(search);
+
+  if (!enabled || !source) {
+    return null;
+  }
+
+  const pageSize = Number(import.meta.env.VITE_CREDIT_PAGE_SIZE);
+  return { source, pageSize: pageSize > 0 ? pageSize : DEFAULT_REMOTE_PAGE_SIZE };
+}
+
+/**
+ * Turn a search state into registry query parameters; empty filters are omitted
+ * Status and vintage come from the state's filters, which follow the query's clauses.
+ * The source filter is not sent because remote mode reads a single source
+ */
+export function searchStateToParams(state: SearchState): URLSearchParams {
+  const params = new URLSearchParams();
+  const text = parseQuery(state.query).text.trim();
+
+  if (text) params.set('q', text);
+  CLAUSE_PARAMS.forEach(field => getQueryFieldValues(state.query, field).forEach(value => params.append(field, value)));
+  state.statusFilter.forEach(status => params.append('status', status));
+  state.vintageFilter.forEach(vintage => params.append('vintage', String(vintage)));
+  if (state.vintageRange?.min != null) params.set('vintage_min', String(state.vintageRange.min));
+  if (state.vintageRange?.max != null) params.set('vintage_max', String(state.vintageRange.max));
+  if (state.sort.length > 0) params.set('sort', formatSortParam(state.sort));
+
+  return params;
+}
+
+/**
+ * Read registry query parameters back into search state, ignoring unknown values
+ * Used by registry stand-ins to answer remote queries, and for the sort in dashboard links
+ */
+export function paramsToSearchState(params: URLSearchParams): Partial<SearchState> {
+  const state: Partial<SearchState> = {};
+  const statuses = params.getAll('status').filter(status => status === 'Active' || status === 'Retired');
+  const vintages = params.getAll('vintage').map(Number).filter(Number.isInteger);
+  const vintageMin = params.get('vintage_min');
+  const vintageMax = params.get('vintage_max');
+  const order = params.get('order');
+
+  const query = CLAUSE_PARAMS.reduce(
+    (query, field) => setQueryField(query, field, params.getAll(field).filter(Boolean)),
+    params.get('q') ?? ''
+  );
+  if (query) state.query = query;
+  if (statuses.length > 0) state.statusFilter = statuses;
+  if (vintages.length > 0) state.vintageFilter = vintages;
+  if (vintageMin !== null || vintageMax !== null) {
+    state.vintageRange = {
+      min: vintageMin !== null && Number.isFinite(Number(vintageMin)) ? Number(vintageMin) : null,
+      max: vintageMax !== null && Number.isFinite(Number(vintageMax)) ? Number(vintageMax) : null,
+    };
+  }
+  // A separate order parameter is still read for links made before multi-column sorting
+  if (params.has('sort')) state.sort = parseSortParam(params.get('sort'), order === 'desc' ? 'desc' : 'asc');
+
+  return state;
+}
+
+/**
+ * Fetch one page of credits matching the search state
+ */
+export async function fetchCreditPage(
+  source: string,
+  state: SearchState,
+  { limit, cursor, signal }: { limit: number; cursor: string | null; signal?: AbortSignal }
+): Promise<CreditPageResponse> {
+  const url = buildPageUrl(source, limit, cursor, searchStateToParams(state));
+  const response = await fetchWithTimeout(url, 'application/json', undefined, signal);
+  const body: unknown = await response.json();
+
+  if (!isCreditPage(body)) {
+    throw new Error('Invalid data format: the registry did not return a page of credits');
+  }
+  return body;
+}
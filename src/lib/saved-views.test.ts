@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+import { loadSavedViews } from './saved-views';
+import { useSavedViews } from '@/hooks/use-saved-views';
+import type { SearchState } from './types';
+
+const SAVED_VIEWS_KEY = 'eco-offset-views';
+
+const SEARCH: SearchState = {
+  query: 'status:retired',
+  statusFilter: [],
+  vintageFilter: [],
+  vintageRange: null,
+  sourceFilter: 'all',
+  sort: [],
+};
+
+const view = (id: string, name: string) => ({
+  id,
+  name,
+  search: SEARCH,
+  viewMode: 'table',
+  createdAt: '2024-01-01T00:00:00.000Z',
+});
+
+describe('saved views', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('skips an unreadable view and keeps the others', () => {
+    localStorage.setItem(SAVED_VIEWS_KEY, JSON.stringify({
+      version: 1,
+      views: [view('a', 'Retired'), { ...view('b', 'Broken'), viewMode: 'map' }, view('c', 'Other')],
+      defaultViewId: 'c',
+    }));
+
+    const { views, defaultViewId } = loadSavedViews();
+    expect(views.map(saved => saved.id)).toEqual(['a', 'c']);
+    expect(defaultViewId).toBe('c');
+  });
+
+  it('does not write back to storage when loading', () => {
+    const stored = JSON.stringify({ version: 1, views: [{ ...view('b', 'Broken'), name: '' }] });
+    localStorage.setItem(SAVED_VIEWS_KEY, stored);
+
+    const { result } = renderHook(() => useSavedViews());
+    expect(result.current.views).toEqual([]);
+    expect(localStorage.getItem(SAVED_VIEWS_KEY)).toBe(stored);
+
+    act(() => {
+      result.current.saveView('Retired', { search: SEARCH, viewMode: 'table' });
+    });
+    expect(JSON.parse(localStorage.getItem(SAVED_VIEWS_KEY)!).views).toHaveLength(1);
+  });
+});
@@ -0,0 +1,187 @@
+import { z } from "zod";
+import type { SearchState, SortField } from "./types";
+import { SORT_FIELDS, isSameSort } from "./sort-keys";
+import type { ViewMode } from "./url-state";
+
+/**
+ * Saved views: named presets of the search state, view mode and table columns
+ * Kept in local storage, and exported to or imported from JSON files for sharing:
+ *
+ *   { "version": 1, "views": [{ "id": "…", "name": "Retired 2019–2021", "search": { … }, "viewMode": "table" }] }
+ */
+
+const SAVED_VIEWS_KEY = 'eco-offset-views';
+const SAVED_VIEWS_VERSION = 1;
+
+const sortKeySchema = z.object({
+  field: z.enum(Object.keys(SORT_FIELDS) as [SortField, ...SortField[]]),
+  order: z.enum(['asc', 'desc']),
+});
+
+const searchStateSchema = z.preprocess(
+  // Views saved before multi-column sorting have a single sortBy and sortOrder
+  (value) => {
+    if (value && typeof value === 'object' && 'sortBy' in value && !('sort' in value)) {
+      const { sortBy, sortOrder, ...rest } = value as Record<string, unknown>;
+      return { ...rest, sort: sortBy === 'relevance' ? [] : [{ field: sortBy, order: sortOrder }] };
+    }
+    return value;
+  },
+  z.object({
+    query: z.string(),
+    statusFilter: z.array(z.enum(['Active', 'Retired'])),
+    vintageFilter: z.array(z.number().int()),
+    vintageRange: z.object({ min: z.number().nullable(), max: z.number().nullable() }).nullable(),
+    sourceFilter: z.string(),
+    sort: z.array(sortKeySchema),
+  })
+);
+
+const savedViewSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1),
+  search: searchStateSchema,
+  viewMode: z.enum(['table', 'cards']),
+  columns: z.record(z.string(), z.boolean()).optional(),   // Table column visibility by column id
+  createdAt: z.string(),
+});
+
+export interface SavedView {
+  id: string;
+  name: string;
+  search: SearchState;
+  viewMode: ViewMode;
+  columns?: Record<string, boolean>;
+  createdAt: string;
+}
+
+export interface SavedViewsState {
+  views: SavedView[];
+  defaultViewId: string | null;   // View applied when the dashboard opens without one in the URL
+}
+
+const storedViewsSchema = z.object({
+  version: z.literal(SAVED_VIEWS_VERSION),
+  views: z.array(savedViewSchema),
+  defaultViewId: z.string().nullable().optional(),
+});
+
+// Stored views are checked one by one, so a single unreadable view does not cost the others
+const storedViewListSchema = storedViewsSchema.extend({ views: z.array(z.unknown()) });
+
+// Exported files may also be a bare array of views
+const viewsFileSchema = z.union([storedViewsSchema, z.array(savedViewSchema)]);
+
+export const EMPTY_SAVED_VIEWS: SavedViewsState = { views: [], defaultViewId: null };
+
+/**
+ * Create an id for a new or imported view
+ */
+export function createViewId(): string {
+  return `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Read saved views from local storage; unreadable views are skipped, and unreadable data counts as none
+ */
+export function loadSavedViews(): SavedViewsState {
+  try {
+    const stored = localStorage.getItem(SAVED_VIEWS_KEY);
+    const parsed = stored ? storedViewListSchema.safeParse(JSON.parse(stored)) : null;
+    if (!parsed?.success) return EMPTY_SAVED_VIEWS;
+
+    const { defaultViewId = null } = parsed.data;
+    const views = parsed.data.views.flatMap(entry => {
+      const view = savedViewSchema.safeParse(entry);
+      if (!view.success) {
+        console.warn('Skipping an unreadable saved view:', view.error.issues);
+        return [];
+      }
+      return [view.data];
+    });
+    return {
+      views,
+      defaultViewId: views.some(view => view.id === defaultViewId) ? defaultViewId : null,
+    };
+  } catch {
+    return EMPTY_SAVED_VIEWS;
+  }
+}
+
+/**
+ * Persist saved views, removing the entry once none are left
+ */
+export function storeSavedViews(state: SavedViewsState): void {
+  if (state.views.length === 0) {
+    localStorage.removeItem(SAVED_VIEWS_KEY);
+  } else {
+    localStorage.setItem(
+      SAVED_VIEWS_KEY,
+      JSON.stringify({ version: SAVED_VIEWS_VERSION, views: state.views, defaultViewId: state.defaultViewId })
+    );
+  }
+}
+
+/**
+ * The view to open the dashboard with, if one is marked as default
+ */
+export function getDefaultView(state: SavedViewsState = loadSavedViews()): SavedView | null {
+  return state.views.find(view => view.id === state.defaultViewId) ?? null;
+}
+
+/**
+ * Whether a saved view shows the given search and view mode
+ * Status and vintage filters are clauses of the query, so comparing queries covers them
+ */
+export function isSameView(view: SavedView, search: SearchState, viewMode: ViewMode): boolean {
+  return (
+    view.viewMode === viewMode &&
+    view.search.query.trim() === search.query.trim() &&
+    view.search.sourceFilter === search.sourceFilter &&
+    isSameSort(view.search.sort, search.sort)
+  );
+}
+
+/**
+ * A name not yet taken by another view: "Retired", then "Retired (2)", "Retired (3)"…
+ */
+export function getUniqueViewName(name: string, views: SavedView[], exceptId?: string): string {
+  const taken = new Set(views.filter(view => view.id !== exceptId).map(view => view.name.toLowerCase()));
+  const base = name.trim();
+  let candidate = base;
+  for (let copy = 2; taken.has(candidate.toLowerCase()); copy++) {
+    candidate = `${base} (${copy})`;
+  }
+  return candidate;
+}
+
+/**
+ * Serialise views for sharing as a JSON file
+ */
+export function exportSavedViews(views: SavedView[]): string {
+  return JSON.stringify({ version: SAVED_VIEWS_VERSION, views }, null, 2);
+}
+
+/**
+ * Read views from an exported JSON file
+ * Imported views get fresh ids, and names that clash with existing views are numbered
+ */
+export function parseSavedViewsFile(text: string, existing: SavedView[]): SavedView[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const parsed = viewsFileSchema.safeParse(data);
+  if (!parsed.success) {
+    throw new Error('The file does not contain saved views');
+  }
+
+  const imported: SavedView[] = [];
+  for (const view of Array.isArray(parsed.data) ? parsed.data : parsed.data.views) {
+    imported.push({ ...view, id: createViewId(), name: getUniqueViewName(view.name, [...existing, ...imported]) });
+  }
+  return imported;
+}
@@ -0,0 +1,186 @@
+import type { Credit, CreditWithMetadata, SearchState } from "./types";
+import { matchQuery, searchAndFilterCredits, transformCreditsWithMetadata } from "./data";
+import { countFacets, getFacetQuery } from "./facets";
+import type { FacetCounts } from "./facets";
+import { buildSearchIndex } from "./search-index";
+import { runSearch } from "./search-protocol";
+import type { SearchResponse } from "./search-protocol";
+
+/**
+ * Benchmark of the indexed search against a linear scan
+ * Each query runs the whole runSearch path, results and facet counts, and the same
+ * work done by scanning every credit with searchAndFilterCredits and matchQuery.
+ * Both must agree; median times are reported over synthetic portfolios.
+ * In development it is exposed on the browser console:
+ *
+ *   await runSearchBenchmark()
+ *   await runSearchBenchmark({ sizes: [50_000], runs: 3 })
+ */
+
+type BenchmarkQuery = Partial<SearchState> & { query: string };
+
+export interface SearchBenchmarkOptions {
+  sizes?: number[];                                   // Portfolio sizes to generate
+  queries?: BenchmarkQuery[];
+  runs?: number;                                      // Timed runs per query; the median is reported
+  seed?: number;
+}
+
+export interface SearchBenchmarkResult {
+  size: number;
+  query: string;
+  matches: number;
+  scanMs: number;
+  indexMs: number;
+  speedup: number;
+  identical: boolean;     // Both returned the same credits in the same order, and the same facet counts
+}
+
+const PLACES = ['Rajasthan', 'Kenya', 'Borneo', 'Amazon', 'Gujarat', 'Patagonia', 'Sumatra', 'Andes', 'Delhi', 'Mekong', 'Sahel', 'Yucatan'];
+const PROJECTS = ['Wind Farm', 'Solar Rooftops', 'Mangrove Restoration', 'Cookstoves', 'Landfill Gas', 'Reforestation', 'Biogas Digesters', 'Peatland Rewetting', 'Hydro Plant', 'Blue Carbon'];
+const TYPES = ['Renewable Energy', 'Forestry', 'Waste Management', 'Energy Efficiency', 'Blue Carbon'];
+const REGISTRIES = ['VCS', 'GS', 'ACR', 'CAR', 'CDM', 'PURO'];
+const COUNTRIES = ['IND', 'KEN', 'IDN', 'BRA', 'ARG', 'MEX', 'VNM', 'SEN', 'PER', 'US'];
+
+const DEFAULT_QUERIES: BenchmarkQuery[] = [
+  { query: 'wind' },
+  { query: 'mangrove restoration' },
+  { query: 'mangorve' },
+  { query: 'ra' },
+  { query: 'solar', statusFilter: ['Active'] },
+  { query: 'registry:gs biogas' },
+  { query: '', vintageFilter: [2019, 2020, 2021] },
+  { query: 'status:retired -kenya', statusFilter: ['Retired'] },
+];
+
+const BASE_STATE: SearchState = {
+  query: '',
+  statusFilter: [],
+  vintageFilter: [],
+  vintageRange: null,
+  sourceFilter: 'all',
+  sort: [],
+};
+
+/**
+ * Small seeded generator so runs are comparable across machines and sessions
+ */
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Generate plausible credits with valid UNIC IDs
+ */
+export function createSyntheticCredits(count: number, seed: number = 1): Credit[] {
+  const random = createRandom(seed);
+  const pick = <T,>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  return Array.from({ length: count }, (_, i) => {
+    const vintage = 2010 + Math.floor(random() * 15);
+    const serial = (i + 1).toString(16).toUpperCase().padStart(8, '0');
+    return {
+      unic_id: `UNIC-${pick(REGISTRIES)}-${pick(COUNTRIES)}-${vintage}-${serial}`,
+      project_name: `${pick(PROJECTS)} ${pick(PLACES)}`,
+      vintage,
+      status: random() < 0.7 ? 'Active' : 'Retired',
+      project_type: pick(TYPES),
+      quantity: Math.floor(random() * 100_000),
+    };
+  });
+}
+
+function time(run: () => void, runs: number): number {
+  const samples: number[] = [];
+  for (let i = 0; i < runs; i++) {
+    const start = performance.now();
+    run();
+    samples.push(performance.now() - start);
+  }
+  samples.sort((a, b) => a - b);
+  return samples[Math.floor(samples.length / 2)];
+}
+
+function isSameFacets(a: FacetCounts, b: FacetCounts): boolean {
+  return Object.entries(a).every(([dimension, counts]) => {
+    const other = b[dimension as keyof FacetCounts];
+    return counts.size === other.size && [...counts].every(([key, count]) => other.get(key) === count);
+  });
+}
+
+function isSameResult(a: SearchResponse, b: SearchResponse): boolean {
+  return a.credits.length === b.credits.length
+    && a.credits.every((credit, i) => credit === b.credits[i])
+    && isSameFacets(a.facets, b.facets);
+}
+
+/**
+ * The search runSearch answers, done by scanning every credit
+ */
+export function runLinearSearch(credits: CreditWithMetadata[], state: SearchState): SearchResponse {
+  return {
+    credits: searchAndFilterCredits(
+      credits,
+      state.query,
+      state.statusFilter,
+      state.vintageFilter,
+      state.sourceFilter,
+      state.sort,
+      state.vintageRange
+    ),
+    facets: countFacets(matchQuery(credits, getFacetQuery(state.query)).credits, state),
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Time every query at every size; logs a table and the index build times
+ */
+export function runSearchBenchmark({
+  sizes = [10_000, 100_000],
+  queries = DEFAULT_QUERIES,
+  runs = 5,
+  seed = 1,
+}: SearchBenchmarkOptions = {}): SearchBenchmarkResult[] {
+  const results: SearchBenchmarkResult[] = [];
+
+  for (const size of sizes) {
+    const credits = transformCreditsWithMetadata(createSyntheticCredits(size, seed));
+    const buildStart = performance.now();
+    const index = buildSearchIndex(credits);
+    const buildMs = performance.now() - buildStart;
+    console.info(`Search index for ${size.toLocaleString()} credits: ${index.words.length.toLocaleString()} words, built in ${round(buildMs)} ms`);
+
+    for (const partial of queries) {
+      const state: SearchState = { ...BASE_STATE, ...partial };
+      const scan = () => runLinearSearch(credits, state);
+      const indexed = () => runSearch(index, state);
+
+      const expected = scan();
+      const actual = indexed();
+      const scanMs = time(scan, runs);
+      const indexMs = time(indexed, runs);
+
+      results.push({
+        size,
+        query: JSON.stringify(partial),
+        matches: expected.credits.length,
+        scanMs: round(scanMs),
+        indexMs: round(indexMs),
+        speedup: round(scanMs / Math.max(indexMs, 0.01)),
+        identical: isSameResult(expected, actual),
+      });
+    }
+  }
+
+  console.table(results);
+  return results;
+}
@@ -0,0 +1,121 @@
+import type { SearchState } from "./types";
+import { buildSearchIndex } from "./search-index";
+import type { SearchIndex } from "./search-index";
+import { runSearch } from "./search-protocol";
+import type { SearchResponse, SearchWorkerRequest, SearchWorkerResponse } from "./search-protocol";
+
+/**
+ * Client for the search worker
+ * Load a search index once, then ask for search states; each query resolves with the
+ * matching credits and facet counts, or rejects with an AbortError when its signal
+ * aborts or a newer query supersedes it. Where workers are unavailable, or the
+ * worker fails, queries run on the main thread instead
+ */
+
+export interface SearchClient {
+  load: (index: SearchIndex) => void;
+  search: (state: SearchState, signal?: AbortSignal) => Promise<SearchResponse>;
+  dispose: () => void;
+}
+
+interface PendingQuery {
+  index: SearchIndex;   // Results are positions in the index loaded when the query was sent
+  state: SearchState;
+  resolve: (response: SearchResponse) => void;
+  reject: (error: unknown) => void;
+}
+
+const abortError = () => new DOMException('Search cancelled', 'AbortError');
+
+function startWorker(): Worker | null {
+  if (typeof Worker === 'undefined') return null;
+  try {
+    return new Worker(new URL('./search.worker.ts', import.meta.url), { type: 'module' });
+  } catch {
+    return null;
+  }
+}
+
+export function createSearchClient(): SearchClient {
+  let worker = startWorker();
+  let loaded = buildSearchIndex([]);
+  let nextId = 1;
+  const pending = new Map<number, PendingQuery>();
+
+  const post = (message: SearchWorkerRequest) => worker?.postMessage(message);
+
+  const runOnMainThread = (query: PendingQuery) => {
+    try {
+      query.resolve(runSearch(query.index, query.state));
+    } catch (error) {
+      query.reject(error);
+    }
+  };
+
+  if (worker) {
+    worker.onmessage = (event: MessageEvent<SearchWorkerResponse>) => {
+      const response = event.data;
+      const query = pending.get(response.id);
+      if (!query) return;
+      pending.delete(response.id);
+
+      if (response.type === 'result') {
+        query.resolve({ credits: response.indices.map(position => query.index.credits[position]), facets: response.facets });
+      } else if (response.type === 'cancelled') {
+        query.reject(abortError());
+      } else {
+        query.reject(new Error(response.message));
+      }
+    };
+
+    // A worker that fails to start or crashes hands its queries back to the main thread
+    worker.onerror = (event) => {
+      event.preventDefault();
+      console.warn('Search worker failed, searching on the main thread:', event.message);
+      worker?.terminate();
+      worker = null;
+      const queries = [...pending.values()];
+      pending.clear();
+      queries.forEach(runOnMainThread);
+    };
+  }
+
+  return {
+    load(index) {
+      loaded = index;
+      post({ type: 'load', index });
+    },
+
+    search(state, signal) {
+      if (signal?.aborted) {
+        return Promise.reject(abortError());
+      }
+
+      return new Promise<SearchResponse>((resolve, reject) => {
+        const query: PendingQuery = { index: loaded, state, resolve, reject };
+        if (!worker) {
+          runOnMainThread(query);
+          return;
+        }
+
+        const id = nextId++;
+        pending.set(id, query);
+        post({ type: 'search', id, state });
+
+        signal?.addEventListener('abort', () => {
+          if (pending.delete(id)) {
+            post({ type: 'cancel', id });
+            reject(abortError());
+          }
+        }, { once: true });
+      });
+    },
+
+    dispose() {
+      worker?.terminate();
+      worker = null;
+      pending.forEach(query => query.reject(abortError()));
+      pending.clear();
+    },
+  };
+}
@@ -0,0 +1,167 @@
+import type { CreditWithMetadata } from "./types";
+
+/**
+ * Tokenized search with prefix matching, typo tolerance and relevance scoring
+ * Every query term must match some word of the credit, in any order, so
+ * "rajasthan wind" finds "Wind Farm Rajasthan" and "mangrov" finds "Mangrove"
+ */
+
+export type TokenMatchKind = 'exact' | 'prefix' | 'fuzzy';
+
+export interface TokenMatch {
+  kind: TokenMatchKind;
+  length: number;    // Characters of the word to highlight, from its start
+}
+
+export interface RankedCredit {
+  credit: CreditWithMetadata;
+  score: number;
+}
+
+const MATCH_SCORES: Record<TokenMatchKind, number> = {
+  exact: 3,
+  prefix: 2,
+  fuzzy: 1,
+};
+
+const NAME_WEIGHT = 2;           // Project name matches count double
+const PHRASE_BONUS = 2;          // The whole query appears verbatim
+export const MIN_FUZZY_LENGTH = 4;  // Minimum term and word length for typo tolerance
+
+const TOKEN_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Split text into lowercase words of letters and digits
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Edit distance counting insertions, deletions, substitutions and adjacent swaps,
+ * giving up once it exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Match one query term against one word of the credit
+ */
+export function matchToken(term: string, word: string): TokenMatch | null {
+  if (word === term) {
+    return { kind: 'exact', length: word.length };
+  }
+  if (word.startsWith(term)) {
+    return { kind: 'prefix', length: term.length };
+  }
+  // Short terms and words only match exactly or as a prefix; "wind" should not find "ind"
+  if (term.length < MIN_FUZZY_LENGTH || word.length < MIN_FUZZY_LENGTH) {
+    return null;
+  }
+
+  // One typo for short terms, two for long ones; also allow typos in a prefix ("mangorv" → "mangrove")
+  const maxEdits = term.length >= 8 ? 2 : 1;
+  if (editDistance(term, word, maxEdits) <= maxEdits) {
+    return { kind: 'fuzzy', length: word.length };
+  }
+  if (word.length > term.length && editDistance(term, word.slice(0, term.length), maxEdits) <= maxEdits) {
+    return { kind: 'fuzzy', length: term.length };
+  }
+  return null;
+}
+
+function bestMatchScore(term: string, words: string[]): number {
+  let best = 0;
+  for (const word of words) {
+    const match = matchToken(term, word);
+    if (match) {
+      best = Math.max(best, MATCH_SCORES[match.kind]);
+      if (best === MATCH_SCORES.exact) break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Relevance of a credit for the query terms; 0 when any term has no match
+ */
+export function scoreCredit(credit: CreditWithMetadata, terms: string[], phrase: string = ''): number {
+  let score = 0;
+
+  for (const term of terms) {
+    const nameScore = bestMatchScore(term, credit.nameTokens) * NAME_WEIGHT;
+    const otherScore = nameScore === MATCH_SCORES.exact * NAME_WEIGHT ? 0 : bestMatchScore(term, credit.searchTokens);
+    const termScore = Math.max(nameScore, otherScore);
+    if (termScore === 0) return 0;
+    score += termScore;
+  }
+
+  if (phrase && credit.searchableText.includes(phrase)) {
+    score += PHRASE_BONUS;
+  }
+  return score;
+}
+
+/**
+ * Credits matching every query term with their relevance, in their original order
+ */
+export function rankCredits(credits: CreditWithMetadata[], query: string): RankedCredit[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) {
+    return credits.map(credit => ({ credit, score: 0 }));
+  }
+
+  const phrase = query.toLowerCase().trim();
+  const ranked: RankedCredit[] = [];
+  for (const credit of credits) {
+    const score = scoreCredit(credit, terms, phrase);
+    if (score > 0) {
+      ranked.push({ credit, score });
+    }
+  }
+  return ranked;
+}
+
+/**
+ * Character ranges of text matched by the query, for highlighting
+ */
+export function getMatchRanges(text: string, query: string): Array<[number, number]> {
+  const terms = tokenize(query);
+  if (terms.length === 0) return [];
+
+  const ranges: Array<[number, number]> = [];
+  for (const word of text.matchAll(TOKEN_PATTERN)) {
+    const lowerWord = word[0].toLowerCase();
+    let longest = 0;
+    for (const term of terms) {
+      longest = Math.max(longest, matchToken(term, lowerWord)?.length ?? 0);
+    }
+    if (longest > 0) {
+      ranges.push([word.index, word.index + longest]);
+    }
+  }
+  return ranges;
+}
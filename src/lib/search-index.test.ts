@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { buildSearchIndex, searchIndexedCredits } from './search-index';
+import { createSyntheticCredits, runLinearSearch } from './search-benchmark';
+import { runSearch } from './search-protocol';
+import { transformCreditsWithMetadata } from './data';
+import type { SearchState } from './types';
+
+const BASE_STATE: SearchState = {
+  query: '',
+  statusFilter: [],
+  vintageFilter: [],
+  vintageRange: null,
+  sourceFilter: 'all',
+  sort: [],
+};
+
+const STATES: Partial<SearchState>[] = [
+  {},
+  { query: 'wind' },
+  { query: 'mangrove restoration' },
+  { query: 'mangorve' },
+  { query: 'ra' },
+  { query: '"wind farm"' },
+  { query: 'solar', statusFilter: ['Active'] },
+  { query: 'registry:gs biogas' },
+  { query: 'registry:vcs,acr -kenya' },
+  { query: 'country:ind status:retired' },
+  { query: 'type:forestry vintage:2015..2018' },
+  { query: 'quantity:..5000 -solar' },
+  { query: '', vintageFilter: [2019, 2020, 2021] },
+  { query: 'cookstoves', vintageRange: { min: 2020, max: null } },
+  { query: 'status:retired -kenya', statusFilter: ['Retired'] },
+  { query: 'hydro', sort: [{ field: 'vintage', order: 'desc' }, { field: 'project_name', order: 'asc' }] },
+  { query: 'peat', sourceFilter: 'registry.json' },
+];
+
+describe('search index', () => {
+  const credits = transformCreditsWithMetadata(
+    createSyntheticCredits(3000, 7).map((credit, i) => ({ ...credit, source: i % 3 === 0 ? 'registry.json' : undefined }))
+  );
+  const index = buildSearchIndex(credits);
+
+  it.each(STATES)('matches the linear scan for %j', partial => {
+    const state = { ...BASE_STATE, ...partial };
+    const expected = runLinearSearch(credits, state);
+    const actual = runSearch(index, state);
+
+    expect(actual.credits.map(credit => credit.unic_id)).toEqual(expected.credits.map(credit => credit.unic_id));
+    expect(actual.facets).toEqual(expected.facets);
+  });
+
+  it('finds nothing in an empty index', () => {
+    expect(searchIndexedCredits(buildSearchIndex([]), { ...BASE_STATE, query: 'wind' })).toEqual([]);
+  });
+});
@@ -0,0 +1,208 @@
+import type { CreditWithMetadata, SearchState } from "./types";
+import { MIN_FUZZY_LENGTH, matchToken, scoreCredit, tokenize } from "./search-engine";
+import { buildQueryPredicate, isInRange, parseQuery } from "./query-parser";
+import type { ParsedQuery } from "./query-parser";
+import { SAMPLE_SOURCE } from "./credit-sources";
+import { createCreditComparator } from "./sort-keys";
+
+/**
+ * Inverted index over the loaded credits, built once per dataset
+ * Each word maps to the positions of the credits containing it, and vintage, status
+ * and registry map to theirs, so a query only scores credits found in the postings
+ * of every term and filter instead of scanning the whole portfolio per keystroke.
+ * Results are the same as searchAndFilterCredits gives for the same search state
+ */
+
+export interface SearchIndex {
+  credits: CreditWithMetadata[];
+  words: string[];                        // Distinct words, sorted for prefix lookups
+  postings: Map<string, Uint32Array>;     // Word → ascending positions of the credits containing it
+  byVintage: Map<number, Uint32Array>;
+  byStatus: Map<string, Uint32Array>;     // Keyed by lowercase status
+  byRegistry: Map<string, Uint32Array>;   // Keyed by lowercase registry code
+}
+
+function addPosting<K>(lists: Map<K, number[]>, key: K, position: number) {
+  const list = lists.get(key);
+  if (list) {
+    list.push(position);
+  } else {
+    lists.set(key, [position]);
+  }
+}
+
+function toPostings<K>(lists: Map<K, number[]>): Map<K, Uint32Array> {
+  return new Map([...lists].map(([key, list]) => [key, Uint32Array.from(list)]));
+}
+
+/**
+ * Build the index; positions are indexes into the credits array
+ */
+export function buildSearchIndex(credits: CreditWithMetadata[]): SearchIndex {
+  const words = new Map<string, number[]>();
+  const vintages = new Map<number, number[]>();
+  const statuses = new Map<string, number[]>();
+  const registries = new Map<string, number[]>();
+
+  credits.forEach((credit, position) => {
+    credit.searchTokens.forEach(token => addPosting(words, token, position));
+    addPosting(vintages, credit.vintage, position);
+    addPosting(statuses, credit.status.toLowerCase(), position);
+    if (credit.registry) {
+      addPosting(registries, credit.registry.toLowerCase(), position);
+    }
+  });
+
+  return {
+    credits,
+    words: [...words.keys()].sort(),
+    postings: toPostings(words),
+    byVintage: toPostings(vintages),
+    byStatus: toPostings(statuses),
+    byRegistry: toPostings(registries),
+  };
+}
+
+/**
+ * Indexed words a query term matches: prefixes for short terms, and typos as well for longer ones
+ */
+function findMatchingWords(index: SearchIndex, term: string): string[] {
+  if (term.length >= MIN_FUZZY_LENGTH) {
+    return index.words.filter(word => matchToken(term, word) !== null);
+  }
+
+  // Short terms only match exactly or as a prefix, which is a contiguous run of the sorted words
+  let low = 0;
+  let high = index.words.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (index.words[middle] < term) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  const matches: string[] = [];
+  for (let i = low; i < index.words.length && index.words[i].startsWith(term); i++) {
+    matches.push(index.words[i]);
+  }
+  return matches;
+}
+
+/**
+ * Keep the candidates found in any of the posting lists; null candidates stand for every credit
+ */
+function intersect(index: SearchIndex, candidates: number[] | null, lists: Iterable<Uint32Array>): number[] {
+  const marks = new Uint8Array(index.credits.length);
+  for (const list of lists) {
+    for (const position of list) {
+      marks[position] = 1;
+    }
+  }
+
+  if (candidates) {
+    return candidates.filter(position => marks[position] === 1);
+  }
+  const positions: number[] = [];
+  marks.forEach((mark, position) => {
+    if (mark === 1) positions.push(position);
+  });
+  return positions;
+}
+
+/**
+ * Posting lists for the positive registry clauses of the query
+ */
+function getRegistryLists(index: SearchIndex, parsed: ParsedQuery): Uint32Array[][] {
+  return parsed.clauses.flatMap(clause =>
+    clause.kind === 'field' && clause.field === 'registry' && !clause.negated
+      ? [clause.values.map(value => index.byRegistry.get(value.toLowerCase()) ?? new Uint32Array())]
+      : []
+  );
+}
+
+/**
+ * Candidates matching the query's registry clauses, free text and other clauses, with
+ * relevance scores when there is free text to rank; null candidates stand for every credit
+ */
+function matchCandidates(
+  index: SearchIndex,
+  parsed: ParsedQuery,
+  candidates: number[] | null
+): { positions: number[]; scores: Map<CreditWithMetadata, number> | null } {
+  const { credits } = index;
+  for (const lists of getRegistryLists(index, parsed)) {
+    candidates = intersect(index, candidates, lists);
+  }
+
+  // Every free text term must match some word of the credit
+  const terms = [...new Set(tokenize(parsed.text))];
+  for (const term of terms) {
+    if (candidates?.length === 0) break;
+    candidates = intersect(index, candidates, findMatchingWords(index, term).map(word => index.postings.get(word)!));
+  }
+
+  // The remaining clauses run on the candidates only
+  let positions = candidates ?? credits.map((_, position) => position);
+  const predicate = buildQueryPredicate(parsed);
+  if (predicate) {
+    positions = positions.filter(position => predicate(credits[position]));
+  }
+  if (terms.length === 0) {
+    return { positions, scores: null };
+  }
+
+  // Score what is left, as the unindexed search does
+  const phrase = parsed.text.toLowerCase().trim();
+  const scores = new Map<CreditWithMetadata, number>();
+  positions = positions.filter(position => {
+    const score = scoreCredit(credits[position], terms, phrase);
+    scores.set(credits[position], score);
+    return score > 0;
+  });
+  return { positions, scores };
+}
+
+/**
+ * Positions of the credits matching a query's field clauses and free text, in index order
+ * The indexed counterpart of matchQuery
+ */
+export function matchSearchIndex(index: SearchIndex, query: string): number[] {
+  return matchCandidates(index, parseQuery(query), null).positions;
+}
+
+/**
+ * Positions of the credits matching a search state, in result order
+ */
+export function querySearchIndex(index: SearchIndex, state: SearchState): number[] {
+  const { credits } = index;
+  let candidates: number[] | null = null;
+
+  // Narrow by the per-field indexes first; these lists are short and cheap to merge
+  if (state.statusFilter.length > 0) {
+    candidates = intersect(index, candidates, state.statusFilter.flatMap(status => index.byStatus.get(status.toLowerCase()) ?? []));
+  }
+  const { vintageFilter, vintageRange } = state;
+  if (vintageFilter.length > 0 || vintageRange) {
+    const lists = [...index.byVintage]
+      .filter(([vintage]) => vintageFilter.includes(vintage) || (vintageRange !== null && isInRange(vintage, vintageRange)))
+      .map(([, list]) => list);
+    candidates = intersect(index, candidates, lists);
+  }
+  if (state.sourceFilter !== 'all') {
+    candidates = (candidates ?? credits.map((_, position) => position))
+      .filter(position => (credits[position].source ?? SAMPLE_SOURCE) === state.sourceFilter);
+  }
+
+  const { positions, scores } = matchCandidates(index, parseQuery(state.query), candidates);
+  const compare = createCreditComparator(state.sort, scores);
+  return positions.sort((a, b) => compare(credits[a], credits[b]));
+}
+
+/**
+ * Credits matching a search state, in result order
+ */
+export function searchIndexedCredits(index: SearchIndex, state: SearchState): CreditWithMetadata[] {
+  return querySearchIndex(index, state).map(position => index.credits[position]);
+}
@@ -0,0 +1,37 @@
+import type { CreditWithMetadata, SearchState } from "./types";
+import { calculateFacetCounts } from "./facets";
+import type { FacetCounts } from "./facets";
+import { searchIndexedCredits } from "./search-index";
+import type { SearchIndex } from "./search-index";
+
+/**
+ * Messages between the search client and the search worker
+ * The search index is sent once per load; queries then only carry the search state, and
+ * results come back as positions in the indexed credits rather than copies of them
+ */
+
+export type SearchWorkerRequest =
+  | { type: 'load'; index: SearchIndex }
+  | { type: 'search'; id: number; state: SearchState }
+  | { type: 'cancel'; id: number };
+
+export type SearchWorkerResponse =
+  | { type: 'result'; id: number; indices: number[]; facets: FacetCounts }
+  | { type: 'cancelled'; id: number }      // Superseded by a newer query before it ran
+  | { type: 'error'; id: number; message: string };
+
+export interface SearchResponse {
+  credits: CreditWithMetadata[];
+  facets: FacetCounts;
+}
+
+/**
+ * Answer a search state: matching credits in sort order, and the filter facet counts
+ * Shared by the worker and the main-thread fallback
+ */
+export function runSearch(index: SearchIndex, state: SearchState): SearchResponse {
+  return {
+    credits: searchIndexedCredits(index, state),
+    facets: calculateFacetCounts(index, state),
+  };
+}
@@ -0,0 +1,58 @@
+import { calculateFacetCounts } from "./facets";
+import { buildSearchIndex, querySearchIndex } from "./search-index";
+import type { SearchWorkerRequest, SearchWorkerResponse } from "./search-protocol";
+
+/**
+ * Search worker: keeps the search index and answers search states off the main thread
+ * Queries wait one task before running, so a newer query or a cancel arriving in the
+ * meantime drops the stale one instead of computing results nobody will see
+ */
+
+let index = buildSearchIndex([]);
+let queued: Extract<SearchWorkerRequest, { type: 'search' }> | null = null;
+let scheduled = false;
+
+function respond(message: SearchWorkerResponse) {
+  self.postMessage(message);
+}
+
+function runQueued() {
+  scheduled = false;
+  const request = queued;
+  queued = null;
+  if (!request) return;
+
+  try {
+    const indices = querySearchIndex(index, request.state);
+    respond({ type: 'result', id: request.id, indices, facets: calculateFacetCounts(index, request.state) });
+  } catch (error) {
+    respond({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Search failed' });
+  }
+}
+
+self.onmessage = (event: MessageEvent<SearchWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'load':
+      index = request.index;
+      break;
+
+    case 'search':
+      if (queued) {
+        respond({ type: 'cancelled', id: queued.id });
+      }
+      queued = request;
+      if (!scheduled) {
+        scheduled = true;
+        setTimeout(runQueued, 0);
+      }
+      break;
+
+    case 'cancel':
+      if (queued?.id === request.id) {
+        queued = null;
+      }
+      break;
+  }
+};
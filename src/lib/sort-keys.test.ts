@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createCreditComparator } from './sort-keys';
+import { transformCreditsWithMetadata } from './data';
+import type { Credit, CreditWithMetadata, SortKey } from './types';
+
+function credit(unicId: string, overrides: Partial<Credit> = {}): Credit {
+  return { unic_id: unicId, project_name: 'Mangroves', vintage: 2023, status: 'Active', ...overrides };
+}
+
+const CREDITS = transformCreditsWithMetadata([
+  credit('A', { project_name: 'Wind Farm', vintage: 2021, quantity: 500, project_type: 'Energy' }),
+  credit('B', { project_name: 'cookstoves', vintage: 2023, quantity: 50 }),
+  credit('C', { project_name: 'Biochar', vintage: 2021, project_type: 'removal' }),
+  credit('D', { project_name: 'Avoided Deforestation', vintage: 2023, quantity: 100, project_type: 'Forestry' }),
+]);
+
+function sortIds(sort: SortKey[], scores: Map<CreditWithMetadata, number> | null = null): string[] {
+  return [...CREDITS].sort(createCreditComparator(sort, scores)).map(credit => credit.unic_id);
+}
+
+describe('createCreditComparator', () => {
+  it('breaks ties on each key with the next one', () => {
+    expect(sortIds([{ field: 'vintage', order: 'desc' }, { field: 'quantity', order: 'asc' }])).toEqual(['B', 'D', 'A', 'C']);
+    expect(sortIds([{ field: 'vintage', order: 'asc' }, { field: 'unic_id', order: 'desc' }])).toEqual(['C', 'A', 'D', 'B']);
+  });
+
+  it('falls back to project name, ignoring case, when every key ties', () => {
+    expect(sortIds([{ field: 'status', order: 'asc' }])).toEqual(['D', 'C', 'B', 'A']);
+  });
+
+  it('sorts missing quantities and project types last in either direction', () => {
+    expect(sortIds([{ field: 'quantity', order: 'asc' }])).toEqual(['B', 'D', 'A', 'C']);
+    expect(sortIds([{ field: 'quantity', order: 'desc' }])).toEqual(['A', 'D', 'B', 'C']);
+    expect(sortIds([{ field: 'project_type', order: 'asc' }])).toEqual(['A', 'D', 'C', 'B']);
+    expect(sortIds([{ field: 'project_type', order: 'desc' }])).toEqual(['C', 'D', 'A', 'B']);
+  });
+
+  it('ranks by score for relevance and an empty sort', () => {
+    const scores = new Map([[CREDITS[0], 1], [CREDITS[2], 5], [CREDITS[3], 1]]);
+
+    expect(sortIds([], scores)).toEqual(['C', 'D', 'A', 'B']);
+    expect(sortIds([{ field: 'relevance', order: 'desc' }], scores)).toEqual(['C', 'D', 'A', 'B']);
+  });
+
+  it('orders by project name when relevance has no scores', () => {
+    expect(sortIds([], null)).toEqual(['D', 'C', 'B', 'A']);
+  });
+});
@@ -0,0 +1,136 @@
+import type { Credit, CreditWithMetadata, SortField, SortKey } from "./types";
+
+/**
+ * Multi-column sorting
+ * The search state holds an ordered list of sort keys; each later key only breaks
+ * ties left by the keys before it. An empty list ranks by relevance, which falls back
+ * to project name when there is no search text. Keys are written as
+ * "vintage:desc,project_name:asc" in dashboard links and registry queries
+ */
+
+export const SORT_FIELDS: Record<SortField, { label: string; shortLabel: string }> = {
+  relevance: { label: 'Relevance', shortLabel: 'Relevance' },
+  project_name: { label: 'Project name', shortLabel: 'Name' },
+  unic_id: { label: 'UNIC ID', shortLabel: 'ID' },
+  vintage: { label: 'Vintage', shortLabel: 'Vintage' },
+  status: { label: 'Status', shortLabel: 'Status' },
+  quantity: { label: 'Quantity', shortLabel: 'Quantity' },
+  project_type: { label: 'Project type', shortLabel: 'Type' },
+};
+
+const isSortField = (value: string): value is SortField => Object.hasOwn(SORT_FIELDS, value);
+
+/**
+ * Next sort keys after clicking a field, as in a table header
+ * A plain click sorts by the field alone, ascending first, then descending, then
+ * back to relevance; an additive (shift) click adds the field as a further key or
+ * cycles its direction in place, removing it after descending
+ */
+export function toggleSortKey(sort: SortKey[], field: SortField, additive = false): SortKey[] {
+  const existing = sort.find(key => key.field === field);
+
+  if (field === 'relevance') {
+    // Relevance has no direction, so it is either the only key or absent
+    return [];
+  }
+
+  if (additive) {
+    if (!existing) return [...sort, { field, order: 'asc' }];
+    if (existing.order === 'asc') {
+      return sort.map(key => (key.field === field ? { field, order: 'desc' } : key));
+    }
+    return sort.filter(key => key.field !== field);
+  }
+
+  if (existing && sort.length === 1) {
+    return existing.order === 'asc' ? [{ field, order: 'desc' }] : [];
+  }
+  return [{ field, order: existing?.order === 'asc' ? 'desc' : 'asc' }];
+}
+
+/**
+ * Write sort keys as "vintage:desc,project_name:asc"
+ */
+export function formatSortParam(sort: SortKey[]): string {
+  return sort.map(key => `${key.field}:${key.order}`).join(',');
+}
+
+/**
+ * Read sort keys from "vintage:desc,project_name", ignoring unknown fields and repeats
+ * A bare field is ascending unless a legacy order parameter says otherwise
+ */
+export function parseSortParam(value: string | null, defaultOrder: SortKey['order'] = 'asc'): SortKey[] {
+  const sort: SortKey[] = [];
+  for (const part of (value ?? '').split(',')) {
+    const [field, order] = part.trim().split(':');
+    if (!isSortField(field) || sort.some(key => key.field === field)) continue;
+    if (field === 'relevance') return [];
+    sort.push({ field, order: order === 'asc' || order === 'desc' ? order : defaultOrder });
+  }
+  return sort;
+}
+
+/**
+ * Whether two lists of sort keys sort the same way
+ */
+export function isSameSort(a: SortKey[], b: SortKey[]): boolean {
+  return formatSortParam(a) === formatSortParam(b);
+}
+
+type SortValue = string | number | undefined;
+
+function getSortValue(credit: Credit, field: Exclude<SortField, 'relevance'>): SortValue {
+  switch (field) {
+    case 'project_name':
+      return credit.project_name.toLowerCase();
+    case 'unic_id':
+      return credit.unic_id;
+    case 'project_type':
+      return credit.project_type?.toLowerCase();
+    default:
+      return credit[field];
+  }
+}
+
+function compareValues(a: SortValue, b: SortValue): number {
+  if (typeof a === 'string' && typeof b === 'string') return a.localeCompare(b);
+  if (a === b) return 0;
+  return (a ?? 0) < (b ?? 0) ? -1 : 1;
+}
+
+/**
+ * Ascending comparison of two credits on one field, ignoring missing values
+ */
+export function compareCreditField(a: Credit, b: Credit, field: Exclude<SortField, 'relevance'>): number {
+  return compareValues(getSortValue(a, field), getSortValue(b, field));
+}
+
+/**
+ * Comparator for the sort keys; relevance scores come from the search, when there is one
+ * Missing values sort last in either direction, and project name breaks remaining ties
+ */
+export function createCreditComparator(
+  sort: SortKey[],
+  scores: ReadonlyMap<CreditWithMetadata, number> | null
+): (a: CreditWithMetadata, b: CreditWithMetadata) => number {
+  const keys: SortKey[] = sort.length > 0 ? sort : [{ field: 'relevance', order: 'desc' }];
+
+  return (a, b) => {
+    for (const { field, order } of keys) {
+      let result: number;
+      if (field === 'relevance') {
+        result = scores ? (scores.get(b) ?? 0) - (scores.get(a) ?? 0) : 0;
+      } else {
+        const aValue = getSortValue(a, field);
+        const bValue = getSortValue(b, field);
+        if (aValue === undefined || bValue === undefined) {
+          result = aValue === bValue ? 0 : aValue === undefined ? 1 : -1;
+        } else {
+          result = order === 'asc' ? compareValues(aValue, bValue) : compareValues(bValue, aValue);
+        }
+      }
+      if (result !== 0) return result;
+    }
+    return a.project_name.toLowerCase().localeCompare(b.project_name.toLowerCase());
+  };
+}
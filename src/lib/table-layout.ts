@@ -0,0 +1,80 @@
+import { z } from "zod";
+import type { ColumnOrderState, ColumnPinningState, ColumnSizingState, RowData, VisibilityState } from "@tanstack/react-table";
+
+/**
+ * Data table layout: which columns show, in what order, and how wide
+ * Kept per browser in local storage and restored when the table mounts.
+ * The UNIC ID column is always pinned to the left edge
+ */
+
+declare module "@tanstack/react-table" {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars -- type parameters must match the declaration being merged
+  interface ColumnMeta<TData extends RowData, TValue> {
+    label?: string;     // Column name in the columns menu
+  }
+}
+
+const TABLE_LAYOUT_KEY = 'eco-offset-table-layout';
+const TABLE_LAYOUT_VERSION = 1;
+
+export interface TableLayout {
+  visibility: VisibilityState;   // Hidden columns map to false
+  order: ColumnOrderState;       // Column ids left to right; empty keeps the definition order
+  sizing: ColumnSizingState;     // Widths in pixels of the resized columns
+}
+
+// The selection checkbox, when shown, stays beside the ID it selects
+export const PINNED_COLUMNS: ColumnPinningState = { left: ['select', 'unic_id'], right: [] };
+
+// Extra registry fields start hidden so the table stays readable on smaller screens
+export const DEFAULT_TABLE_LAYOUT: TableLayout = {
+  visibility: { methodology: false, location: false, issuance_date: false, retirement_date: false },
+  order: [],
+  sizing: {},
+};
+
+const storedLayoutSchema = z.object({
+  version: z.literal(TABLE_LAYOUT_VERSION),
+  visibility: z.record(z.string(), z.boolean()),
+  order: z.array(z.string()),
+  sizing: z.record(z.string(), z.number().positive()),
+});
+
+/**
+ * Read the table layout from local storage; unreadable data gives the default layout
+ */
+export function loadTableLayout(): TableLayout {
+  try {
+    const stored = localStorage.getItem(TABLE_LAYOUT_KEY);
+    const parsed = stored ? storedLayoutSchema.safeParse(JSON.parse(stored)) : null;
+    if (!parsed?.success) return DEFAULT_TABLE_LAYOUT;
+
+    const { visibility, order, sizing } = parsed.data;
+    return { visibility, order, sizing };
+  } catch {
+    return DEFAULT_TABLE_LAYOUT;
+  }
+}
+
+/**
+ * Persist the table layout
+ */
+export function storeTableLayout(layout: TableLayout): void {
+  localStorage.setItem(TABLE_LAYOUT_KEY, JSON.stringify({ version: TABLE_LAYOUT_VERSION, ...layout }));
+}
+
+/**
+ * Column order after moving one column onto the position of another
+ * Columns missing from the stored order keep their place after the ordered ones
+ */
+export function moveColumn(order: ColumnOrderState, columnIds: string[], from: string, to: string): ColumnOrderState {
+  const current = [...order.filter(id => columnIds.includes(id)), ...columnIds.filter(id => !order.includes(id))];
+  const fromIndex = current.indexOf(from);
+  const toIndex = current.indexOf(to);
+  if (fromIndex < 0 || toIndex < 0 || fromIndex === toIndex) return current;
+
+  const next = [...current];
+  next.splice(fromIndex, 1);
+  next.splice(toIndex, 0, from);
+  return next;
+}
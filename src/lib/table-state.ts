@@ -0,0 +1,104 @@
+import type { ColumnFiltersState, FilterFn, SortingFn, SortingState } from "@tanstack/react-table";
+import type { Credit, NumberRange, SearchState, SortField, SortKey } from "./types";
+import { getQueryFieldValues, isInRange, setQueryField, withQuery, withQueryFilters } from "./query-parser";
+import { compareCreditField } from "./sort-keys";
+
+/**
+ * Data table state as a view of the shared search state
+ * The table's sorting and its status, vintage and type column filters are read from
+ * the SearchState and written back to it, so the table, the card view and the URL
+ * always agree. Type filters live in the query as a type: clause
+ */
+
+export type FilterableColumn = 'status' | 'vintage' | 'project_type';
+
+export interface ColumnFilterValue {
+  values: string[];             // Selected options; any of them matches
+  range?: NumberRange | null;   // Vintage window, matched as an alternative to the values
+}
+
+const isStatus = (value: string): value is Credit['status'] => value === 'Active' || value === 'Retired';
+
+/**
+ * Table sorting for the sort keys; relevance is the order the results arrive in
+ */
+export function toSortingState(sort: SortKey[]): SortingState {
+  return sort
+    .filter(key => key.field !== 'relevance')
+    .map(key => ({ id: key.field, desc: key.order === 'desc' }));
+}
+
+export function fromSortingState(sorting: SortingState): SortKey[] {
+  return sorting.map(({ id, desc }) => ({ field: id as SortField, order: desc ? 'desc' : 'asc' }));
+}
+
+/**
+ * Column filters expressed by the search state
+ */
+export function toColumnFilters(state: SearchState): ColumnFiltersState {
+  const filters: ColumnFiltersState = [];
+  if (state.statusFilter.length > 0) {
+    filters.push({ id: 'status', value: { values: state.statusFilter } satisfies ColumnFilterValue });
+  }
+  if (state.vintageFilter.length > 0 || state.vintageRange) {
+    filters.push({ id: 'vintage', value: { values: state.vintageFilter.map(String), range: state.vintageRange } satisfies ColumnFilterValue });
+  }
+  const types = getQueryFieldValues(state.query, 'type');
+  if (types.length > 0) {
+    filters.push({ id: 'project_type', value: { values: types } satisfies ColumnFilterValue });
+  }
+  return filters;
+}
+
+/**
+ * Search state after a column filter change; only the columns that changed are written back,
+ * so the rest of the query keeps its wording and order
+ */
+export function withColumnFilters(state: SearchState, filters: ColumnFiltersState): SearchState {
+  const current = toColumnFilters(state);
+  const valueOf = (list: ColumnFiltersState, id: FilterableColumn) =>
+    list.find(filter => filter.id === id)?.value as ColumnFilterValue | undefined;
+  const changed = (id: FilterableColumn) => JSON.stringify(valueOf(current, id)) !== JSON.stringify(valueOf(filters, id));
+
+  let next = state;
+  if (changed('status')) {
+    next = withQueryFilters(next, { statusFilter: (valueOf(filters, 'status')?.values ?? []).filter(isStatus) });
+  }
+  if (changed('vintage')) {
+    const vintage = valueOf(filters, 'vintage');
+    next = withQueryFilters(next, {
+      vintageFilter: (vintage?.values ?? []).map(Number).filter(Number.isInteger),
+      vintageRange: vintage?.range ?? null,
+    });
+  }
+  if (changed('project_type')) {
+    next = withQuery(next, setQueryField(next.query, 'type', valueOf(filters, 'project_type')?.values ?? []));
+  }
+  return next;
+}
+
+/**
+ * Column filter matching the query syntax: status and vintage exactly, type by substring
+ */
+export const creditFilterFn: FilterFn<Credit> = (row, columnId, filter: ColumnFilterValue) => {
+  const credit = row.original;
+  switch (columnId as FilterableColumn) {
+    case 'status':
+      return filter.values.includes(credit.status);
+    case 'vintage':
+      return filter.values.includes(String(credit.vintage)) || (filter.range != null && isInRange(credit.vintage, filter.range));
+    case 'project_type': {
+      const type = credit.project_type?.toLowerCase();
+      return type !== undefined && filter.values.some(value => type.includes(value.toLowerCase()));
+    }
+    default:
+      return true;
+  }
+};
+creditFilterFn.autoRemove = (filter?: ColumnFilterValue) => !filter || (filter.values.length === 0 && !filter.range);
+
+/**
+ * Column sorting matching the card view's sort keys; missing values are placed by sortUndefined
+ */
+export const creditSortingFn: SortingFn<Credit> = (rowA, rowB, columnId) =>
+  compareCreditField(rowA.original, rowB.original, columnId as Exclude<SortField, 'relevance'>);
@@ -1,11 +1,33 @@
 
 import { z } from "zod";
+import type { UnicIdIssue } from "./unic-id";
+import type { DuplicateGroup, DuplicateResolution } from "./data-integrity";
+import type { CreditChangeSet } from "./change-detection";
+import type { LiveConnectionStatus } from "./live-updates";
+import type { FacetCounts } from "./facets";
+import type { SearchIndex } from "./search-index";
+
+// Registry exports use ISO 8601 dates; accept any string Date can parse
+const dateString = z.string().refine(
+  value => !Number.isNaN(Date.parse(value)),
+  { message: "Invalid date" }
+);
 
 export const creditSchema = z.object({
   unic_id: z.string(),
   project_name: z.string(),
   vintage: z.number(),
   status: z.enum(["Active", "Retired"]),
+  // Optional registry fields; older four-field files still validate
+  quantity: z.number().nonnegative().optional(),   // Tonnes of CO₂e
+  methodology: z.string().optional(),
+  project_type: z.string().optional(),
+  country: z.string().optional(),
+  region: z.string().optional(),
+  issuance_date: dateString.optional(),
+  retirement_date: dateString.optional(),
+  // Set by the loader to the URL or file name the credit was loaded from
+  source: z.string().optional(),
 });
 
 export type Credit = z.infer<typeof creditSchema>;
@@ -13,17 +35,65 @@ export type Credit = z.infer<typeof creditSchema>;
 // Extended interface for internal use with search optimization
 export interface CreditWithMetadata extends Credit {
   searchableText: string;    // Combined searchable content
+  searchTokens: string[];    // Distinct words of the searchable content
+  nameTokens: string[];      // Words of the project name, weighted higher when ranking
   displayName: string;       // Formatted display name
   vintageDisplay: string;    // Formatted vintage display
+  registry: string | null;   // Standard parsed from the UNIC ID (VCS, GS, ACR...)
+  countryCode: string | null; // Country code parsed from the UNIC ID
+  idYear: number | null;     // Year embedded in the UNIC ID
+  serial: string | null;     // Serial suffix of the UNIC ID
+  unicIdIssues: UnicIdIssue[]; // Malformed ID or vintage mismatch, empty when valid
+}
+
+// Row-level validation results for imported data
+export interface CreditRowIssue {
+  path: string;      // Dotted zod issue path within the row, e.g. "vintage"
+  message: string;
+}
+
+export interface RejectedCreditRow {
+  index: number;     // Zero-based position of the row in the source data
+  line?: number;     // 1-based line in a CSV or TSV file, header included
+  source?: string;   // URL or file name the row came from
+  record: unknown;
+  issues: CreditRowIssue[];
+}
+
+export type ValidationMode = 'strict' | 'lenient';
+
+export interface SourceLoadError {
+  source: string;    // URL or file name that could not be loaded
+  message: string;
+}
+
+export interface CreditValidationResult {
+  valid: Credit[];
+  rejected: RejectedCreditRow[];
+  failedSources?: SourceLoadError[];  // Sources skipped in lenient mode because they failed to load
 }
 
 // Search and filter state interfaces
+export interface NumberRange {
+  min: number | null;        // Inclusive bounds; null leaves that end open
+  max: number | null;
+}
+
+// Relevance ranks best matches first and has no direction
+export type SortField = 'relevance' | 'project_name' | 'unic_id' | 'vintage' | 'status' | 'quantity' | 'project_type';
+
+export interface SortKey {
+  field: SortField;
+  order: 'asc' | 'desc';
+}
+
 export interface SearchState {
   query: string;
-  statusFilter: Credit['status'] | 'all';
-  vintageFilter: number | 'all';
-  sortBy: 'project_name' | 'vintage' | 'status';
-  sortOrder: 'asc' | 'desc';
+  statusFilter: Credit['status'][];  // Selected statuses; empty matches every status
+  vintageFilter: number[];           // Selected vintage years; empty matches every vintage
+  vintageRange: NumberRange | null;  // Vintage window; a credit passes if it is in the window or a selected year
+  sourceFilter: string | 'all';
+  sort: SortKey[];                   // Ordered sort keys, later ones breaking ties; empty sorts by relevance
 }
 
 export interface FilteredResults {
@@ -40,25 +110,67 @@ export interface DashboardStats {
   retiredCredits: number;
   vintageRange: { min: number; max: number };
   availableVintages: number[];
+  availableRegistries: string[];
+  availableCountries: string[];
+  invalidUnicIds: number;
+  totalQuantity: number;         // Sum of tonnes across credits that report a quantity
+  creditsWithQuantity: number;   // Number of credits that report a quantity
+  projectCount: number;          // Distinct project names with at least one active credit
+  sourceCounts: Array<{ source: string; count: number }>;  // Credits per data source
 }
 
 // Hook return types
 export interface UseCreditsReturn {
   credits: CreditWithMetadata[];
+  searchIndex: SearchIndex;            // Word and field postings over credits, for searching
   stats: DashboardStats;
   loading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
   retryCount: number;
+  rejectedRows: RejectedCreditRow[];   // Rows skipped by lenient validation
+  failedSources: SourceLoadError[];    // Sources that failed to load while the others loaded
+  importCredits: (credits: Credit[]) => void;
+  duplicateGroups: DuplicateGroup[];   // Credits sharing a UNIC ID, before resolution
+  duplicatePolicy: DuplicateResolution;
+  setDuplicatePolicy: (policy: DuplicateResolution) => void;
+  lastUpdated: string | null;          // ISO time the shown data was loaded
+  isStale: boolean;                    // True when serving the offline cache or after a failed refresh
+  refreshError: string | null;         // Why the last background refresh failed; the previous data stays shown
+  changes: CreditChangeSet | null;     // What the last reload changed, until dismissed
+  dismissChanges: () => void;
+  liveStatus: LiveConnectionStatus;    // Push channel state; 'off' without a live URL
 }
 
 export interface UseSearchReturn {
   searchState: SearchState;
   filteredResults: FilteredResults;
+  facets: FacetCounts | null;          // Per-option counts for the filter dropdowns; null when unavailable
+  isPending: boolean;                  // A newer search is being computed; results describe the previous one
   setQuery: (query: string) => void;
-  setStatusFilter: (status: Credit['status'] | 'all') => void;
-  setVintageFilter: (vintage: number | 'all') => void;
-  setSortBy: (sortBy: SearchState['sortBy']) => void;
-  setSortOrder: (sortOrder: SearchState['sortOrder']) => void;
+  setStatusFilter: (statuses: Credit['status'][]) => void;
+  setVintageFilter: (vintages: number[]) => void;
+  setVintageRange: (range: NumberRange | null) => void;
+  setSourceFilter: (source: string | 'all') => void;
+  setSort: (sort: SortKey[]) => void;
   clearFilters: () => void;
+  setSearchState: (state: SearchState) => void;  // Replace the whole state, e.g. when restoring a view from the URL
+}
+
+// Remote query mode: results streamed page by page from a registry API
+export interface RemoteResultsState {
+  total: number | null;          // Credits matching the query on the server; null until the first page
+  loadedCount: number;
+  isFetching: boolean;
+  hasMore: boolean;
+  error: string | null;
+  requestItems: (count: number) => void;  // Fetch pages until at least this many results are loaded
+  retry: () => void;
+}
+
+export interface UseRemoteSearchReturn extends UseSearchReturn {
+  stats: DashboardStats;           // Filter options from the loaded pages; totals from the registry
+  hasPortfolioStats: boolean;      // The registry reported portfolio stats; without them the totals are unknown
+  rejectedRows: RejectedCreditRow[];
+  remote: RemoteResultsState;
 }
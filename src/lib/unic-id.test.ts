@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { getRegistryName, parseUnicId, validateUnicId } from './unic-id';
+
+describe('parseUnicId', () => {
+  it('splits an identifier into its parts', () => {
+    expect(parseUnicId('UNIC-VCS-IND-2023-4F7A8C1B')).toEqual({
+      standard: 'VCS',
+      countryCode: 'IND',
+      year: 2023,
+      serial: '4F7A8C1B',
+    });
+  });
+
+  it('accepts lowercase identifiers and surrounding whitespace', () => {
+    expect(parseUnicId('  unic-gs-ke-2021-abc123 ')).toEqual({
+      standard: 'GS',
+      countryCode: 'KE',
+      year: 2021,
+      serial: 'ABC123',
+    });
+  });
+
+  it('parses standards it has no display name for', () => {
+    expect(parseUnicId('UNIC-NEWREG-BRA-2020-1')?.standard).toBe('NEWREG');
+  });
+
+  it.each([
+    ['missing prefix', 'VCS-IND-2023-4F7A8C1B'],
+    ['missing serial', 'UNIC-VCS-IND-2023'],
+    ['one-letter country', 'UNIC-VCS-I-2023-4F7A8C1B'],
+    ['four-letter country', 'UNIC-VCS-INDI-2023-4F7A8C1B'],
+    ['two-digit year', 'UNIC-VCS-IND-23-4F7A8C1B'],
+    ['digits in the standard', 'UNIC-VCS2-IND-2023-4F7A8C1B'],
+    ['punctuation in the serial', 'UNIC-VCS-IND-2023-4F7A_8C1B'],
+    ['extra segment', 'UNIC-VCS-IND-2023-4F7A-8C1B'],
+    ['empty string', ''],
+  ])('rejects an identifier with a %s', (_, unicId) => {
+    expect(parseUnicId(unicId)).toBeNull();
+  });
+});
+
+describe('validateUnicId', () => {
+  it('passes an identifier whose year matches the vintage', () => {
+    expect(validateUnicId({ unic_id: 'UNIC-VCS-IND-2023-4F7A8C1B', vintage: 2023 })).toEqual([]);
+  });
+
+  it('reports a malformed identifier', () => {
+    const issues = validateUnicId({ unic_id: 'CREDIT-42', vintage: 2023 });
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0].code).toBe('malformed');
+    expect(issues[0].message).toContain('"CREDIT-42"');
+  });
+
+  it('reports a year that differs from the vintage', () => {
+    expect(validateUnicId({ unic_id: 'UNIC-VCS-IND-2022-4F7A8C1B', vintage: 2023 })).toEqual([{
+      code: 'vintage_mismatch',
+      message: 'Year 2022 in UNIC ID does not match vintage 2023',
+    }]);
+  });
+
+  it('uses an identifier parsed beforehand', () => {
+    const parsed = parseUnicId('UNIC-VCS-IND-2021-4F7A8C1B');
+
+    expect(validateUnicId({ unic_id: 'ignored', vintage: 2021 }, parsed)).toEqual([]);
+    expect(validateUnicId({ unic_id: 'UNIC-VCS-IND-2021-4F7A8C1B', vintage: 2021 }, null)[0].code).toBe('malformed');
+  });
+});
+
+describe('getRegistryName', () => {
+  it('names known standards and falls back to the code', () => {
+    expect(getRegistryName('GS')).toBe('Gold Standard');
+    expect(getRegistryName('NEWREG')).toBe('NEWREG');
+  });
+});
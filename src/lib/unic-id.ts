@@ -0,0 +1,84 @@
+import type { Credit } from "./types";
+
+/**
+ * UNIC identifier parsing utilities
+ * IDs follow the pattern UNIC-<STANDARD>-<COUNTRY>-<YEAR>-<SERIAL>,
+ * e.g. UNIC-VCS-IND-2023-4F7A8C1B
+ */
+
+const UNIC_ID_PATTERN = /^UNIC-([A-Z]+)-([A-Z]{2,3})-(\d{4})-([A-Z0-9]+)$/;
+
+/**
+ * Display names for the registry standards we know about.
+ * Unknown standards still parse; they simply fall back to the raw code.
+ */
+export const REGISTRY_NAMES: Record<string, string> = {
+  VCS: 'Verified Carbon Standard',
+  GS: 'Gold Standard',
+  ACR: 'American Carbon Registry',
+  CAR: 'Climate Action Reserve',
+  CDM: 'Clean Development Mechanism',
+  PURO: 'Puro.earth',
+};
+
+export interface ParsedUnicId {
+  standard: string;     // Registry standard code (VCS, GS, ACR...)
+  countryCode: string;  // ISO 3166 alpha-2/alpha-3 country code
+  year: number;         // Year embedded in the identifier
+  serial: string;       // Registry serial suffix
+}
+
+export interface UnicIdIssue {
+  code: 'malformed' | 'vintage_mismatch';
+  message: string;
+}
+
+/**
+ * Parse a UNIC identifier into its structured parts.
+ * Returns null when the identifier does not follow the UNIC pattern.
+ */
+export function parseUnicId(unicId: string): ParsedUnicId | null {
+  const match = UNIC_ID_PATTERN.exec(unicId.trim().toUpperCase());
+  if (!match) {
+    return null;
+  }
+
+  const [, standard, countryCode, year, serial] = match;
+  return {
+    standard,
+    countryCode,
+    year: Number(year),
+    serial,
+  };
+}
+
+/**
+ * Validate a credit's UNIC identifier, including the embedded year against its vintage
+ */
+export function validateUnicId(
+  credit: Pick<Credit, 'unic_id' | 'vintage'>,
+  parsed: ParsedUnicId | null = parseUnicId(credit.unic_id)
+): UnicIdIssue[] {
+  if (!parsed) {
+    return [{
+      code: 'malformed',
+      message: `"${credit.unic_id}" does not match UNIC-<STANDARD>-<COUNTRY>-<YEAR>-<SERIAL>`,
+    }];
+  }
+
+  if (parsed.year !== credit.vintage) {
+    return [{
+      code: 'vintage_mismatch',
+      message: `Year ${parsed.year} in UNIC ID does not match vintage ${credit.vintage}`,
+    }];
+  }
+
+  return [];
+}
+
+/**
+ * Human readable name for a registry standard code
+ */
+export function getRegistryName(standard: string): string {
+  return REGISTRY_NAMES[standard] ?? standard;
+}
@@ -0,0 +1,103 @@
+import type { SearchState } from "./types";
+import { getDropdownQuery, withQuery } from "./query-parser";
+import { paramsToSearchState } from "./remote-query";
+import { formatSortParam, isSameSort } from "./sort-keys";
+
+/**
+ * Dashboard view in the address bar
+ * The search, source filter, sort, view mode and page are kept in query parameters
+ * next to ?data= and the other settings, so a view can be bookmarked, shared and
+ * stepped through with back and forward:
+ *
+ *   ?data=credits.json&q=solar+status:active&sort=vintage:desc,project_name:asc&view=table
+ *
+ * Status and vintage filters are clauses of q, so they need no parameters of their own.
+ * The page only applies to the card grid in remote query mode; loaded portfolios scroll.
+ * Values equal to the defaults are left out to keep links short
+ */
+
+export type ViewMode = 'table' | 'cards';
+
+export interface UrlViewState {
+  search: SearchState;
+  viewMode: ViewMode;
+  page: number;
+}
+
+// Parameters owned by the view; everything else in the URL is left alone
+// (order is only read, from links made before multi-column sorting)
+const VIEW_PARAMS = ['q', 'source', 'sort', 'order', 'view', 'page'];
+
+/**
+ * Whether the URL describes a view at all, as opposed to opening the dashboard afresh
+ */
+export function hasUrlViewState(search: string = window.location.search): boolean {
+  const params = new URLSearchParams(search);
+  return VIEW_PARAMS.some(name => params.has(name));
+}
+
+/**
+ * Read the view from URL parameters, falling back to the defaults for missing or invalid values
+ */
+export function readUrlViewState(defaults: UrlViewState, search: string = window.location.search): UrlViewState {
+  const params = new URLSearchParams(search);
+  const { sort = defaults.search.sort } = paramsToSearchState(params);
+  const view = params.get('view');
+  const page = Number(params.get('page'));
+
+  return {
+    search: withQuery(
+      { ...defaults.search, sourceFilter: params.get('source') || defaults.search.sourceFilter, sort },
+      params.get('q') ?? defaults.search.query
+    ),
+    viewMode: view === 'table' || view === 'cards' ? view : defaults.viewMode,
+    page: Number.isInteger(page) && page > 0 ? page : defaults.page,
+  };
+}
+
+/**
+ * Write the view into URL parameters, keeping unrelated ones such as ?data=
+ * Returns the new search string, e.g. "?data=credits.json&view=table", or "" when empty
+ */
+export function writeUrlViewState(
+  state: UrlViewState,
+  defaults: UrlViewState,
+  search: string = window.location.search
+): string {
+  const params = new URLSearchParams(search);
+  VIEW_PARAMS.forEach(name => params.delete(name));
+
+  const { query, sourceFilter, sort } = state.search;
+  if (query.trim()) params.set('q', query);
+  if (sourceFilter !== defaults.search.sourceFilter) params.set('source', sourceFilter);
+  if (!isSameSort(sort, defaults.search.sort)) params.set('sort', formatSortParam(sort) || 'relevance');
+  if (state.viewMode !== defaults.viewMode) params.set('view', state.viewMode);
+  if (state.page !== defaults.page) params.set('page', String(state.page));
+
+  const next = params.toString();
+  return next ? `?${next}` : '';
+}
+
+/**
+ * Whether going from one URL to the next only edits the free text of the search
+ * Typing should not leave a history entry per keystroke, so such changes replace the
+ * current entry; filter, sort, view and page changes get entries of their own
+ */
+export function isSearchTextEdit(previous: string, next: string): boolean {
+  const previousParams = new URLSearchParams(previous);
+  const nextParams = new URLSearchParams(next);
+  const previousQuery = previousParams.get('q') ?? '';
+  const nextQuery = nextParams.get('q') ?? '';
+
+  // Editing the search sends the view back to the first page
+  for (const params of [previousParams, nextParams]) {
+    params.delete('q');
+    params.delete('page');
+  }
+
+  return (
+    previousQuery !== nextQuery &&
+    previousParams.toString() === nextParams.toString() &&
+    getDropdownQuery(previousQuery) === getDropdownQuery(nextQuery)
+  );
+}
@@ -3,8 +3,30 @@ import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+function render() {
+  createRoot(document.getElementById('root')!).render(
+    <StrictMode>
+      <App />
+    </StrictMode>,
+  )
+}
+
+// Benchmarks for the browser console: await runSearchBenchmark(), await runVirtualizationBenchmark()
+if (import.meta.env.DEV) {
+  Object.assign(window, {
+    runSearchBenchmark: (...args: Parameters<typeof import('./lib/search-benchmark').runSearchBenchmark>) =>
+      import('./lib/search-benchmark').then(({ runSearchBenchmark }) => runSearchBenchmark(...args)),
+    runVirtualizationBenchmark: (...args: Parameters<typeof import('./components/virtualization-benchmark').runVirtualizationBenchmark>) =>
+      import('./components/virtualization-benchmark').then(({ runVirtualizationBenchmark }) => runVirtualizationBenchmark(...args)),
+  })
+}
+
+// Serve paginated credits from an in-browser mock registry during development
+if (import.meta.env.DEV && import.meta.env.VITE_MOCK_REGISTRY === 'true') {
+  import('./lib/mock-registry').then(({ createMockRegistry }) => {
+    createMockRegistry({ latency: 200 }).install()
+    render()
+  })
+} else {
+  render()
+}